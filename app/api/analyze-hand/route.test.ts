@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+import analysisFixture from "@/fixtures/mock-ai/analysis.json"
+
+function analyzeRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/analyze-hand", { method: "POST", body: JSON.stringify(body) })
+}
+
+const HAND_TEXT = "PokerStars Hand #1:  Hold'em No Limit ($1/$2 USD) - 2024/01/01 00:00:00 UTC"
+
+describe("POST /api/analyze-hand", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("streams the analysis chunk by chunk", async () => {
+    const response = await POST(analyzeRequest({ handText: HAND_TEXT, apiKey: "sk-test", model: "gpt-4o" }))
+    expect(response.status).toBe(200)
+
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    const chunks: string[] = []
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(decoder.decode(value))
+    }
+
+    expect(chunks).toEqual(analysisFixture.chunks)
+  })
+
+  it("rejects a request without hand text", async () => {
+    const response = await POST(analyzeRequest({ apiKey: "sk-test" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No hand text provided" })
+  })
+
+  it("rejects a key in the wrong format", async () => {
+    const response = await POST(analyzeRequest({ handText: HAND_TEXT, apiKey: "not-a-key" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid API key format" })
+  })
+
+  it("fails the request when the completion can't be created", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ error: { message: "The model `o9` does not exist", type: "invalid_request_error" } }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }),
+      ),
+    )
+
+    const response = await POST(analyzeRequest({ handText: HAND_TEXT, apiKey: "sk-test", model: "o9" }))
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toMatch(/^Failed to create completion: .*does not exist/)
+  })
+})
@@ -1,24 +1,24 @@
 import { NextRequest, NextResponse } from "next/server"
-import OpenAI from "openai"
+import { parseProviderSettings } from "@/lib/ai-provider"
+import { createProvider } from "@/lib/openai-provider"
+import type { AllInEquity } from "@/lib/equity"
 
 export const runtime = "edge"
 
 export async function POST(req: NextRequest) {
   try {
-    const { handText, apiKey, model } = await req.json()
+    const { handText, equity, apiKey, provider, model } = await req.json()
 
     if (!handText) {
       return NextResponse.json({ error: "No hand text provided" }, { status: 400 })
     }
 
-    if (!apiKey || !apiKey.trim().startsWith("sk-")) {
-      return NextResponse.json({ error: "Invalid API key format" }, { status: 400 })
+    const { settings, error: settingsError } = parseProviderSettings(provider, apiKey)
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
     }
 
-    // Create an OpenAI client
-    const openai = new OpenAI({
-      apiKey: apiKey.trim(),
-    })
+    const ai = createProvider(settings)
 
     // Create the prompt for the hand analysis
     const prompt = `
@@ -27,6 +27,7 @@ export async function POST(req: NextRequest) {
       Please analyze the following poker hand history and provide detailed feedback:
       
       ${handText}
+      ${equity ? buildEquitySection(equity) : "No equities were calculated for this hand, so don't quote exact equity percentages."}
       
       Your analysis should include:
       1. Assessment of preflop decisions and hand selection
@@ -38,61 +39,45 @@ export async function POST(req: NextRequest) {
       Be direct, honest, and provide actionable advice. Use poker terminology but explain complex concepts.
     `
 
-    // Use the provided model or default to gpt-3.5-turbo
-    const modelToUse = model || "gpt-3.5-turbo"
-    console.log(`Using OpenAI model: ${modelToUse} for hand analysis`)
+    // Use the provided model or the provider's default
+    console.log(`Using ${ai.describe(model || undefined)} for hand analysis`)
 
-    try {
-      // Create a streaming response
-      const stream = await openai.chat.completions.create({
-        model: modelToUse,
-        messages: [{ role: "user", content: prompt }],
+    const stream = ai
+      .streamCompletion(prompt, {
+        model: model || undefined,
         temperature: 0.7,
-        max_tokens: 1500,
-        stream: true,
+        maxTokens: 1500,
       })
+      [Symbol.asyncIterator]()
 
-      // Return the streaming response
-      return new Response(
-        new ReadableStream({
-          async start(controller) {
-            try {
-              for await (const chunk of stream) {
-                const text = chunk.choices[0]?.delta?.content || ""
-                if (text) {
-                  controller.enqueue(new TextEncoder().encode(text))
-                }
-              }
-              controller.close()
-            } catch (error) {
-              console.error("Error in stream processing:", error)
-              const errorMessage = error instanceof Error ? error.message : String(error)
-              controller.enqueue(new TextEncoder().encode(`\n\nError during streaming: ${errorMessage}`))
-              controller.close()
-            }
-          },
-        })
-      )
+    // Wait for the first chunk so that bad keys and unknown models fail the request instead of the stream
+    let first: IteratorResult<string>
+    try {
+      first = await stream.next()
     } catch (error) {
       console.error("Error creating completion:", error)
-      
-      // Get detailed error message
-      let errorMessage = "Unknown error"
-      if (error instanceof Error) {
-        errorMessage = error.message
-      } else if (typeof error === "object" && error !== null) {
-        errorMessage = JSON.stringify(error)
-      } else {
-        errorMessage = String(error)
-      }
-      
-      return NextResponse.json(
-        {
-          error: `Failed to create completion: ${errorMessage}`,
-        },
-        { status: 500 }
-      )
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return NextResponse.json({ error: `Failed to create completion: ${errorMessage}` }, { status: 500 })
     }
+
+    // Return the streaming response
+    return new Response(
+      new ReadableStream({
+        async start(controller) {
+          try {
+            for (let chunk = first; !chunk.done; chunk = await stream.next()) {
+              controller.enqueue(new TextEncoder().encode(chunk.value))
+            }
+            controller.close()
+          } catch (error) {
+            console.error("Error in stream processing:", error)
+            const errorMessage = error instanceof Error ? error.message : String(error)
+            controller.enqueue(new TextEncoder().encode(`\n\nError during streaming: ${errorMessage}`))
+            controller.close()
+          }
+        },
+      })
+    )
   } catch (error) {
     console.error("Error in analyze-hand route:", error)
     return NextResponse.json(
@@ -102,4 +87,17 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
+
+// States the equities computed for the all-in, so the coach works from them instead of estimating
+function buildEquitySection(equity: AllInEquity): string {
+  const board = equity.board.length > 0 ? ` with the board ${equity.board.join(" ")}` : ""
+  const lines = equity.players.map(
+    (player) => `- ${player.player} (${player.holeCards.join(" ")}): ${(player.equity * 100).toFixed(1)}%`,
+  )
+
+  return `
+      The money went in ${equity.street === "preflop" ? "preflop" : `on the ${equity.street}`}${board}. Each player's equity at that point was calculated ${equity.method === "exhaustive" ? "exactly" : "by simulation"}:
+      ${lines.join("\n      ")}
+      Use these numbers whenever you discuss equity, rather than estimating your own.`
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+
+function equityRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/equity", { method: "POST", body: JSON.stringify(body) })
+}
+
+describe("POST /api/equity", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("returns each player's equity", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"], ["Kc", "Kh"]], board: ["Ah", "Kd", "7c", "2s"] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.method).toBe("exhaustive")
+    expect(data.samples).toBe(44)
+    expect(data.players[1].equity).toBeCloseTo(1 / 44)
+  })
+
+  it("samples preflop with the requested number of boards", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"], ["Kc", "Kh"]], iterations: 1000 }))
+    const data = await response.json()
+
+    expect(data.method).toBe("monte-carlo")
+    expect(data.samples).toBe(1000)
+  })
+
+  it("caps the number of boards for the variant and players", async () => {
+    const response = await POST(
+      equityRequest({
+        players: [
+          ["Ah", "As", "Kh", "Qd"],
+          ["Kd", "Kc", "9s", "9d"],
+          ["7h", "8h", "6c", "5c"],
+          ["2c", "3c", "Jh", "Th"],
+        ],
+        iterations: 200000,
+        variant: "plo",
+      }),
+    )
+
+    expect((await response.json()).samples).toBe(12500)
+  })
+
+  it("calculates equity for the requested variant", async () => {
+    const response = await POST(
+      equityRequest({
+        players: [
+          ["Ah", "Kc", "Qd", "Jc"],
+          ["2c", "2d", "7s", "8s"],
+        ],
+        board: ["3h", "6h", "9h", "Th", "4c"],
+        variant: "plo",
+      }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.players[1].equity).toBe(1)
+  })
+
+  it("rejects hole cards that don't fit the variant", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"], ["Kc", "Kh"]], variant: "plo" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Every player needs exactly 4 hole cards in Pot Limit Omaha" })
+  })
+
+  it("rejects a badly written card", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"], ["Kc", "10h"]] }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/^Invalid players\.1\.1: Cards must be rank \+ suit/)
+  })
+
+  it("rejects a card dealt twice", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"], ["Kc", "Kh"]], board: ["As", "2c", "3c"] }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "As is used more than once" })
+  })
+
+  it("rejects a single player", async () => {
+    const response = await POST(equityRequest({ players: [["As", "Ad"]] }))
+
+    expect(response.status).toBe(400)
+  })
+})
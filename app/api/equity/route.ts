@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { cardSchema, variantSchema } from "@/lib/hand"
+import { MAX_EQUITY_PLAYERS, MIN_EQUITY_PLAYERS, calculateEquity, checkEquityInput } from "@/lib/equity"
+
+const equityRequestSchema = z.object({
+  players: z.array(z.array(cardSchema)).min(MIN_EQUITY_PLAYERS).max(MAX_EQUITY_PLAYERS),
+  board: z.array(cardSchema).default([]),
+  // calculateEquity samples no more boards than it can score in about a second for the variant and players
+  iterations: z.number().int().min(1).optional(),
+  variant: variantSchema.default("nlhe"),
+})
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = equityRequestSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      return NextResponse.json(
+        { error: `Invalid ${issue.path.join(".") || "request"}: ${issue.message}` },
+        { status: 400 },
+      )
+    }
+
+    const { players, board, iterations, variant } = parsed.data
+    const problem = checkEquityInput(players, board, variant)
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 })
+    }
+
+    return NextResponse.json(calculateEquity(players, board, { iterations, variant }))
+  } catch (error) {
+    console.error("Error in equity route:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error: " + (error instanceof Error ? error.message : String(error)),
+      },
+      { status: 500 },
+    )
+  }
+}
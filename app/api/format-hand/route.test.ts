@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+import transcriptionFixture from "@/fixtures/mock-ai/transcription.json"
+
+function formatRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/format-hand", { method: "POST", body: JSON.stringify(body) })
+}
+
+describe("POST /api/format-hand", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("returns the structured hand and its hand history", async () => {
+    const response = await POST(
+      formatRequest({ transcription: transcriptionFixture.text, provider: { provider: "openai", apiKey: "sk-test" } }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.hand).toEqual(handFixture)
+    expect(data.attempts).toBe(1)
+    expect(data.issues).toEqual([])
+    // Hero's turn bet isn't an all-in, so there's no equity to show
+    expect(data.equity).toBeNull()
+    expect(data.formattedHand).toMatch(/^PokerStars Hand #\d+: {2}Hold'em No Limit \(\$1\/\$2 USD\)/)
+    expect(data.formattedHand).toContain("Hero: raises $4 to $6")
+    expect(data.formattedHand).toContain("Uncalled bet ($20) returned to Hero")
+  })
+
+  it("retries up to the attempt limit while the hand fails validation", async () => {
+    const response = await POST(
+      formatRequest({
+        transcription: transcriptionFixture.text,
+        apiKey: "sk-test",
+        stakes: { smallBlind: 2, bigBlind: 5 },
+        maxAttempts: 2,
+      }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.attempts).toBe(2)
+    expect(data.issues.map((issue: { code: string }) => issue.code)).toContain("blind-mismatch")
+  })
+
+  it("asks the model to fix its own pots before rebuilding them", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    // The SDK asks OpenAI for the object as a call to its "json" tool
+    const completion = (hand: unknown) =>
+      Response.json({
+        id: "chatcmpl-test",
+        object: "chat.completion",
+        created: 0,
+        model: "gpt-4o",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [{ id: "call_1", type: "function", function: { name: "json", arguments: JSON.stringify(hand) } }],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      })
+    const fetchMock = vi
+      .fn(async (_url: string, _init: RequestInit) => completion(handFixture))
+      .mockImplementationOnce(async () =>
+        completion({ ...handFixture, pots: [{ amount: 50, winners: [{ player: "Hero", amount: 50 }] }] }),
+      )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const response = await POST(formatRequest({ transcription: transcriptionFixture.text, apiKey: "sk-test" }))
+    const data = await response.json()
+
+    expect(data.attempts).toBe(2)
+    expect(String(fetchMock.mock.calls[1][1].body)).toContain("Pots and rake add up to $50")
+    expect(data.hand.pots).toEqual(handFixture.pots)
+    expect(data.issues).toEqual([])
+  })
+
+  it("caps the number of attempts", async () => {
+    const response = await POST(
+      formatRequest({ transcription: transcriptionFixture.text, apiKey: "sk-test", stakes: { bigBlind: 5 }, maxAttempts: 50 }),
+    )
+
+    expect((await response.json()).attempts).toBe(5)
+  })
+
+  it("rejects a request without a transcription", async () => {
+    const response = await POST(formatRequest({ apiKey: "sk-test" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No transcription provided" })
+  })
+
+  it("rejects known players that aren't a list of names and aliases", async () => {
+    const response = await POST(
+      formatRequest({
+        transcription: transcriptionFixture.text,
+        apiKey: "sk-test",
+        knownPlayers: [{ name: "Mike", aliases: "the guy in the red hat" }],
+      }),
+    )
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/^Invalid knownPlayers\.0\.aliases: /)
+  })
+
+  it("rejects stakes that aren't positive amounts", async () => {
+    const response = await POST(
+      formatRequest({ transcription: transcriptionFixture.text, apiKey: "sk-test", stakes: { smallBlind: 1, bigBlind: "2" } }),
+    )
+    const negative = await POST(
+      formatRequest({ transcription: transcriptionFixture.text, apiKey: "sk-test", stakes: { smallBlind: -1, bigBlind: 2 } }),
+    )
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/^Invalid stakes\.bigBlind: /)
+    expect(negative.status).toBe(400)
+    expect((await negative.json()).error).toMatch(/^Invalid stakes\.smallBlind: /)
+  })
+
+  it("rejects a request without an API key", async () => {
+    const response = await POST(formatRequest({ transcription: transcriptionFixture.text }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No API key provided" })
+  })
+
+  it("reports an upstream failure", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ error: { message: "Incorrect API key provided", type: "invalid_request_error" } }), {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }),
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const response = await POST(formatRequest({ transcription: transcriptionFixture.text, apiKey: "sk-test" }))
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.openai.com/v1/chat/completions", expect.anything())
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toMatch(/^Internal server error: .*Incorrect API key provided/)
+  })
+})
@@ -1,52 +1,127 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { generateText } from "ai"
-import { createOpenAI } from "@ai-sdk/openai"
+import { z } from "zod"
+import { handSchema, type Hand } from "@/lib/hand"
+import { allInEquity } from "@/lib/equity"
+import { settlePots } from "@/lib/side-pots"
+import { renderHandHistory } from "@/lib/hand-history"
+import { validateHand, type HandIssue } from "@/lib/hand-validator"
+import type { KnownPlayer } from "@/lib/transcription"
+import { parseProviderSettings } from "@/lib/ai-provider"
+import { createProvider } from "@/lib/openai-provider"
+
+// Total formatting attempts, including the first one, when the client doesn't ask for a number
+const DEFAULT_MAX_ATTEMPTS = 3
+const MAX_ATTEMPTS_LIMIT = 5
+
+const knownPlayersSchema = z
+  .array(
+    z.object({
+      name: z.string().min(1),
+      aliases: z.array(z.string()).default([]),
+      notes: z.string().optional(),
+      tendencies: z.array(z.string()).optional(),
+    }),
+  )
+  .default([])
+
+// Blinds the hand is checked against. Tournament settings send none, and a cash game may leave any of them out.
+const stakesSchema = z
+  .object({
+    smallBlind: z.number().positive().optional(),
+    bigBlind: z.number().positive().optional(),
+    ante: z.number().nonnegative().optional(),
+  })
+  .default({})
 
 export async function POST(req: NextRequest) {
   try {
-    const { transcription, apiKey } = await req.json()
+    const { transcription, apiKey, provider, stakes, maxAttempts, knownPlayers } = await req.json()
 
     if (!transcription) {
       return NextResponse.json({ error: "No transcription provided" }, { status: 400 })
     }
 
-    if (!apiKey) {
-      return NextResponse.json({ error: "No API key provided" }, { status: 400 })
+    const players = knownPlayersSchema.safeParse(knownPlayers ?? undefined)
+    if (!players.success) return invalidField("knownPlayers", players.error)
+
+    const expectedStakes = stakesSchema.safeParse(stakes ?? undefined)
+    if (!expectedStakes.success) return invalidField("stakes", expectedStakes.error)
+
+    const { settings, error: settingsError } = parseProviderSettings(provider, apiKey)
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
     }
 
-    // Create a custom OpenAI client with the provided API key
-    const customOpenAI = createOpenAI({
-      apiKey: apiKey,
-    })
+    const ai = createProvider(settings)
 
     // Look for "Additional context:" in the transcription, which indicates game settings are included
     const hasGameSettings = transcription.includes("Additional context:")
 
-    // Use the AI SDK to format the hand history with the provided API key
-    const { text: formattedHand } = await generateText({
-      model: customOpenAI("gpt-4o"),
-      prompt: `
-        You are a poker hand history formatter. Convert the following verbal description of a poker hand into standard poker hand history format.
+    const attemptLimit = Math.min(
+      Math.max(Number.isInteger(maxAttempts) ? maxAttempts : DEFAULT_MAX_ATTEMPTS, 1),
+      MAX_ATTEMPTS_LIMIT,
+    )
+
+    const prompt = `
+        You are a poker hand history formatter. Convert the following verbal description of a poker hand into a structured poker hand.
         
-        ${hasGameSettings ? `The input may include an "Additional context:" section with game settings. Use this information to enhance the hand history output.` : ''}
+        ${hasGameSettings ? `The input may include an "Additional context:" section with game settings. Use this information to fill in stakes, table size and stacks that are not mentioned.` : ''}
         
-        Follow these formatting rules:
-        1. Include game type, stakes, and table information in the header
-        2. List all players with positions and stack sizes
-        3. Format each street (preflop, flop, turn, river) with proper indentation
-        4. Include all actions (fold, call, raise) with bet sizes
+        Follow these rules:
+        1. Use the game type, variant and stakes from the description or context. If the context says mixed games, work out the variant from this hand's description, and use nlhe when nothing says otherwise
+        2. List every player involved with their seat, position and starting stack
+        3. Record every action in order, starting with the blind and ante posts
+        4. For raises, the amount is the total bet the player raises to
         5. Format cards as: Ah (ace of hearts), Kd (king of diamonds), etc.
-        6. Include pot sizes after each street
-        7. Show the winner and amount won
+        6. List the main pot and any side pots with the winner and amount won
+        7. Call the person describing the hand "Hero" unless they give their name
+        8. Give every player whose cards are known all of their hole cards: 2 in Hold'em and Short Deck, 4 in PLO, 5 in PLO5. Short Deck has no 2s to 5s
+        9. In pot-limit games no bet or raise is bigger than the pot. In Limit Hold'em bets and raises are one big blind preflop and on the flop, and two big blinds on the turn and river
+        10. Record straddles as post-straddle actions right after the blinds, one for each straddle, with the full straddle amount
+        11. With a button or big blind ante, only that player posts the ante, for the whole table, and anteType says who
+        12. In a bomb pot set bombPot, record what each player puts in as a post-ante, and go straight to the flop with no preflop betting
+        13. When the hand is run it twice or dealt with two boards, put the first board in board and the others in extraBoards, and say which board each share of a pot was won on
+        ${players.data.length > 0 ? buildKnownPlayersSection(players.data) : ''}
         
         Here's the ${hasGameSettings ? 'input with context and' : ''} verbal description:
         ${transcription}
-        
-        Return ONLY the formatted hand history text with no additional explanation.
-      `,
-    })
+      `
+
+    let hand: Hand | null = null
+    let issues: HandIssue[] = []
+    let attempts = 0
+
+    // Re-prompt with the specific problems until the hand adds up or we run out of attempts
+    while (attempts < attemptLimit) {
+      attempts++
+
+      const object: Hand = await ai.generateObject({
+        schema: handSchema,
+        schemaName: "PokerHand",
+        schemaDescription: "A single poker hand with seats, ordered actions, board cards and pot results",
+        prompt: hand ? buildRepairPrompt(prompt, hand, issues) : prompt,
+      })
+
+      // The model's own pots are checked, so mistakes in them are fed back into the repair prompt
+      hand = object
+      issues = validateHand(hand, expectedStakes.data)
+      if (issues.length === 0) break
 
-    return NextResponse.json({ formattedHand })
+      console.log(`Formatted hand failed ${issues.length} checks on attempt ${attempts} of ${attemptLimit}`)
+    }
+
+    // Whatever pot arithmetic the repairs didn't fix, e.g. with side pots, is settled from the actions and cards
+    hand = { ...(hand as Hand), pots: settlePots(hand as Hand) }
+    issues = validateHand(hand, expectedStakes.data)
+
+    return NextResponse.json({
+      hand,
+      formattedHand: renderHandHistory(hand as Hand, { playedAt: new Date() }),
+      attempts,
+      issues,
+      // Computed here so the analysis quotes real numbers instead of guessing
+      equity: allInEquity(hand as Hand),
+    })
   } catch (error) {
     console.error("Error in format-hand route:", error)
     return NextResponse.json(
@@ -58,3 +133,40 @@ export async function POST(req: NextRequest) {
   }
 }
 
+// Names the first field that failed, e.g. "Invalid knownPlayers.0.aliases: Expected array, received string"
+function invalidField(field: string, error: z.ZodError) {
+  const issue = error.issues[0]
+  return NextResponse.json(
+    { error: `Invalid ${field}${issue.path.length > 0 ? `.${issue.path.join(".")}` : ""}: ${issue.message}` },
+    { status: 400 },
+  )
+}
+
+// Asks the model to fix a previous attempt, quoting the exact problems the validator found
+function buildRepairPrompt(prompt: string, hand: Hand, issues: HandIssue[]): string {
+  return `
+        ${prompt}
+        
+        A previous attempt produced this hand:
+        ${JSON.stringify(hand)}
+        
+        It failed these consistency checks:
+        ${issues.map((issue) => `- ${issue.message}`).join("\n        ")}
+        
+        Return a corrected hand that fixes every problem while staying faithful to the verbal description.
+      `
+}
+
+// Lists saved players so the same person gets the same name in every hand
+function buildKnownPlayersSection(knownPlayers: KnownPlayer[]): string {
+  const lines = knownPlayers.map((player) => {
+    const aliases = player.aliases.length > 0 ? ` (also called ${player.aliases.join(", ")})` : ""
+    const notes = player.notes ? ` - notes: ${player.notes.replace(/\s+/g, " ")}` : ""
+    const tendencies = player.tendencies?.length ? ` - tendencies: ${player.tendencies.join(", ")}` : ""
+    return `- ${player.name}${aliases}${notes}${tendencies}`
+  })
+
+  return `
+        These players are known from earlier hands. When the description refers to one of them by name or alias, use exactly the name given here:
+        ${lines.join("\n        ")}`
+}
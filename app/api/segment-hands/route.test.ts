@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+import handSplitsFixture from "@/fixtures/mock-ai/hand-splits.json"
+import transcriptionFixture from "@/fixtures/mock-ai/transcription.json"
+
+function segmentRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/segment-hands", { method: "POST", body: JSON.stringify(body) })
+}
+
+const twoHands = [
+  { start: 0, end: 8, text: "I'm on the button with ace king, I raise and everyone folds." },
+  { start: 8, end: 12, text: "Next hand." },
+  { start: 12, end: 20, text: "I'm in the big blind with sevens, I check, flop comes seven deuce four." },
+]
+
+describe("POST /api/segment-hands", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("returns where each hand starts", async () => {
+    const response = await POST(
+      segmentRequest({ segments: transcriptionFixture.segments, provider: { provider: "openai", apiKey: "sk-test" } }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ hands: handSplitsFixture.hands, source: "ai" })
+  })
+
+  it("rejects a request without segments", async () => {
+    const response = await POST(segmentRequest({ segments: [], apiKey: "sk-test" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No transcript segments provided" })
+  })
+
+  it("rejects segments without text or a numeric start", async () => {
+    const withoutText = await POST(segmentRequest({ segments: [{ start: 0, end: 8 }], apiKey: "sk-test" }))
+    const textStart = await POST(
+      segmentRequest({ segments: [{ ...twoHands[0], start: "0:00" }, ...twoHands.slice(1)], apiKey: "sk-test" }),
+    )
+
+    expect(withoutText.status).toBe(400)
+    expect(await withoutText.json()).toEqual({ error: "Invalid transcript segments" })
+    expect(textStart.status).toBe(400)
+    expect(await textStart.json()).toEqual({ error: "Invalid transcript segments" })
+  })
+
+  it("rejects a request without an API key", async () => {
+    const response = await POST(segmentRequest({ segments: twoHands }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No API key provided" })
+  })
+
+  it("falls back to cue phrases when the provider fails", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify({ error: "Model not loaded" }), { status: 400 })),
+    )
+
+    const response = await POST(segmentRequest({ segments: twoHands, provider: { provider: "local" } }))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      hands: [
+        { startSegment: 0, summary: "" },
+        { startSegment: 1, summary: "" },
+      ],
+      source: "heuristic",
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { parseProviderSettings } from "@/lib/ai-provider"
+import { detectHandStarts, normalizeHandStarts, type HandBoundary } from "@/lib/hand-segmentation"
+import { createProvider } from "@/lib/openai-provider"
+
+const handSplitsSchema = z.object({
+  hands: z.array(
+    z.object({
+      startSegment: z.number().int().describe("Number of the first transcript line of this hand"),
+      summary: z.string().describe("One short line describing the hand, e.g. 'Hero opens AK on the button, wins on the turn'"),
+    }),
+  ),
+})
+
+const segmentsSchema = z.array(
+  z.object({
+    start: z.number(),
+    end: z.number(),
+    text: z.string(),
+    words: z.array(z.object({ start: z.number(), end: z.number(), word: z.string() })).optional(),
+  }),
+)
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`
+
+export async function POST(req: NextRequest) {
+  try {
+    const { segments: segmentsField, apiKey, provider } = await req.json()
+
+    if (!Array.isArray(segmentsField) || segmentsField.length === 0) {
+      return NextResponse.json({ error: "No transcript segments provided" }, { status: 400 })
+    }
+
+    const parsedSegments = segmentsSchema.safeParse(segmentsField)
+    if (!parsedSegments.success) {
+      return NextResponse.json({ error: "Invalid transcript segments" }, { status: 400 })
+    }
+    const segments = parsedSegments.data
+
+    const { settings, error: settingsError } = parseProviderSettings(provider, apiKey)
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
+    }
+
+    const lines = segments.map(
+      (segment, index) => `[${index}] (${formatSeconds(segment.start)}) ${segment.text}`,
+    )
+
+    const prompt = `
+        You are splitting the transcript of a poker player's voice memo into individual hands. The player describes several hands one after another.
+        
+        Follow these rules:
+        1. A new hand usually starts with a cue like "next hand" or "new hand", or with the hero's position and cards, e.g. "I'm in the cutoff with..."
+        2. Every transcript line belongs to exactly one hand, including small talk between hands
+        3. Return the hands in order, each with the number of its first line. The first hand starts at line 0
+        4. Don't split a hand just because the player goes back to correct or add a detail
+        
+        Here's the numbered transcript:
+        ${lines.join("\n        ")}
+      `
+
+    try {
+      const { hands } = await createProvider(settings).generateObject({
+        schema: handSplitsSchema,
+        schemaName: "HandSplits",
+        schemaDescription: "Where each poker hand starts in a transcript that describes several hands",
+        prompt,
+      })
+
+      // Keep the AI's summaries for the starts that survive cleanup
+      const summaries = new Map(hands.map((hand) => [hand.startSegment, hand.summary]))
+      const boundaries: HandBoundary[] = normalizeHandStarts(
+        hands.map((hand) => hand.startSegment),
+        segments.length,
+      ).map((startSegment) => ({ startSegment, summary: summaries.get(startSegment) ?? "" }))
+
+      return NextResponse.json({ hands: boundaries, source: "ai" })
+    } catch (error) {
+      // The user reviews the split anyway, so a rough guess beats failing the whole recording
+      console.error("Hand segmentation provider error, falling back to cue phrases:", error)
+      const boundaries: HandBoundary[] = detectHandStarts(segments).map((startSegment) => ({ startSegment, summary: "" }))
+      return NextResponse.json({ hands: boundaries, source: "heuristic" })
+    }
+  } catch (error) {
+    console.error("Error in segment-hands route:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+import transcriptionFixture from "@/fixtures/mock-ai/transcription.json"
+
+function transcribeRequest(fields: Record<string, string | Blob>) {
+  const formData = new FormData()
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value)
+  }
+  return new NextRequest("http://localhost/api/transcribe", { method: "POST", body: formData })
+}
+
+const audio = () => new Blob(["fake audio"], { type: "audio/webm" })
+
+describe("POST /api/transcribe", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("returns the transcription", async () => {
+    const response = await POST(
+      transcribeRequest({ file: audio(), provider: JSON.stringify({ provider: "openai", apiKey: "sk-test" }) }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(transcriptionFixture)
+  })
+
+  it("shifts segment times by the chunk offset", async () => {
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", offset: "600" }))
+
+    const data = await response.json()
+    expect(data.segments).toEqual(
+      transcriptionFixture.segments.map((segment) => ({ ...segment, start: segment.start + 600, end: segment.end + 600 })),
+    )
+  })
+
+  it("sends a poker prompt with the custom vocabulary to the speech model", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => Response.json({ text: "Mike limps" }))
+    vi.stubGlobal("fetch", fetchMock)
+
+    await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", vocabulary: JSON.stringify(["Xiang"]) }))
+
+    const body = fetchMock.mock.calls[0][1].body as FormData
+    expect(body.get("prompt")).toMatch(/^Poker hand\..*Players and terms: Xiang\.$/)
+  })
+
+  it("asks for word timestamps and gives each segment its words, shifted by the offset", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({
+        text: "Next hand. I fold.",
+        segments: [
+          { start: 0, end: 1, text: " Next hand." },
+          { start: 1, end: 2, text: " I fold." },
+        ],
+        words: [
+          { start: 0, end: 0.4, word: "Next" },
+          { start: 0.5, end: 0.9, word: "hand" },
+          { start: 1, end: 1.4, word: "I" },
+          { start: 1.5, end: 1.9, word: "fold" },
+        ],
+      }),
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", offset: "10" }))
+
+    const body = fetchMock.mock.calls[0][1].body as FormData
+    expect(body.getAll("timestamp_granularities[]")).toEqual(["segment", "word"])
+    expect((await response.json()).segments[1]).toEqual({
+      start: 11,
+      end: 12,
+      text: "I fold.",
+      words: [
+        { start: 11, end: 11.4, word: "I" },
+        { start: 11.5, end: 11.9, word: "fold" },
+      ],
+    })
+  })
+
+  it("rejects a vocabulary that isn't a list of words", async () => {
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", vocabulary: JSON.stringify([1]) }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid vocabulary" })
+  })
+
+  it("rejects vocabulary and provider fields that aren't JSON", async () => {
+    const badVocabulary = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", vocabulary: "[Xiang" }))
+    const badProvider = await POST(transcribeRequest({ file: audio(), provider: "{provider: local}" }))
+
+    expect(badVocabulary.status).toBe(400)
+    expect(await badVocabulary.json()).toEqual({ error: "Invalid vocabulary" })
+    expect(badProvider.status).toBe(400)
+    expect(await badProvider.json()).toEqual({ error: "Invalid provider settings: not JSON" })
+  })
+
+  it("rejects an invalid offset", async () => {
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test", offset: "-5" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid offset" })
+  })
+
+  it("accepts a bare apiKey field from older clients", async () => {
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test" }))
+
+    expect(response.status).toBe(200)
+  })
+
+  it("needs no key for the local provider", async () => {
+    const response = await POST(transcribeRequest({ file: audio(), provider: JSON.stringify({ provider: "local" }) }))
+
+    expect(response.status).toBe(200)
+  })
+
+  it("rejects a request without audio", async () => {
+    const response = await POST(transcribeRequest({ apiKey: "sk-test" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No audio file provided" })
+  })
+
+  it("rejects a file field that isn't a file", async () => {
+    const response = await POST(transcribeRequest({ file: "not audio", apiKey: "sk-test" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No audio file provided" })
+  })
+
+  it("rejects a request without an API key", async () => {
+    const response = await POST(transcribeRequest({ file: audio() }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No API key provided" })
+  })
+
+  it("reports an upstream failure", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ error: "Server error" }), { status: 500 }))
+    vi.stubGlobal("fetch", fetchMock)
+
+    const response = await POST(transcribeRequest({ file: audio(), apiKey: "sk-test" }))
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.openai.com/v1/audio/transcriptions", expect.anything())
+    expect(response.status).toBe(502)
+    expect(await response.json()).toEqual({ error: "Failed to transcribe audio" })
+  })
+})
@@ -1,51 +1,77 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { parseProviderSettings } from "@/lib/ai-provider"
+import { createProvider } from "@/lib/openai-provider"
+import { buildTranscriptionPrompt } from "@/lib/poker-vocabulary"
+
+const vocabularySchema = z.array(z.string()).nullable()
+
+// Reads a form field holding JSON: null when it's missing, undefined when it isn't valid JSON
+function parseJsonField(field: FormDataEntryValue | null): unknown {
+  if (field === null || field === "") return null
+  try {
+    return JSON.parse(String(field))
+  } catch {
+    return undefined
+  }
+}
 
 export async function POST(req: NextRequest) {
   try {
     // Get the form data from the request
     const formData = await req.formData()
-    const audioFile = formData.get("file") as File
-    const apiKey = formData.get("apiKey") as string
+    const audioFile = formData.get("file")
+    const providerField = parseJsonField(formData.get("provider"))
+    // Where this audio starts within a longer recording that was split into chunks, in seconds
+    const offset = Number(formData.get("offset") ?? 0)
+    // Custom words and player names, as a JSON array of strings, to help the speech model spell them
+    const vocabulary = vocabularySchema.safeParse(parseJsonField(formData.get("vocabulary")))
 
-    if (!audioFile) {
+    // A file field sent as plain text isn't audio either
+    if (!(audioFile instanceof Blob)) {
       return NextResponse.json({ error: "No audio file provided" }, { status: 400 })
     }
 
-    if (!apiKey) {
-      return NextResponse.json({ error: "No API key provided" }, { status: 400 })
+    if (!Number.isFinite(offset) || offset < 0) {
+      return NextResponse.json({ error: "Invalid offset" }, { status: 400 })
     }
 
-    // Convert the file to a Buffer
-    const arrayBuffer = await audioFile.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    // Create a FormData object for the OpenAI API
-    const openaiFormData = new FormData()
-    const blob = new Blob([buffer], { type: audioFile.type })
-    openaiFormData.append("file", blob, "audio.webm")
-    openaiFormData.append("model", "whisper-1")
-
-    // Call the OpenAI API
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: openaiFormData,
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      console.error("OpenAI API error:", errorData)
-      return NextResponse.json({ error: "Failed to transcribe audio" }, { status: response.status })
+    if (!vocabulary.success) {
+      return NextResponse.json({ error: "Invalid vocabulary" }, { status: 400 })
     }
 
-    const data = await response.json()
+    if (providerField === undefined) {
+      return NextResponse.json({ error: "Invalid provider settings: not JSON" }, { status: 400 })
+    }
 
-    return NextResponse.json({ text: data.text })
+    const { settings, error: settingsError } = parseProviderSettings(providerField, formData.get("apiKey"))
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
+    }
+
+    // Convert the file to a Blob the provider can upload
+    const arrayBuffer = await audioFile.arrayBuffer()
+    const blob = new Blob([arrayBuffer], { type: audioFile.type })
+
+    try {
+      const transcript = await createProvider(settings).transcribe(blob, (audioFile instanceof File && audioFile.name) || "audio.webm", {
+        prompt: buildTranscriptionPrompt(vocabulary.data ?? []),
+      })
+      return NextResponse.json({
+        text: transcript.text,
+        segments: transcript.segments.map((segment) => ({
+          ...segment,
+          start: segment.start + offset,
+          end: segment.end + offset,
+          words: segment.words?.map((word) => ({ ...word, start: word.start + offset, end: word.end + offset })),
+        })),
+      })
+    } catch (error) {
+      console.error("Transcription provider error:", error)
+      return NextResponse.json({ error: "Failed to transcribe audio" }, { status: 502 })
+    }
   } catch (error) {
     console.error("Error in transcribe route:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
-
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { POST } from "./route"
+import { MOCK_INVALID_API_KEY } from "@/lib/mock-provider"
+
+function validateRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/validate-key", { method: "POST", body: JSON.stringify(body) })
+}
+
+describe("POST /api/validate-key", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("accepts a working key", async () => {
+    const response = await POST(validateRequest({ apiKey: "sk-test" }))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true })
+  })
+
+  it("rejects a key the provider refuses", async () => {
+    const response = await POST(validateRequest({ provider: { provider: "openai", apiKey: MOCK_INVALID_API_KEY } }))
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: "Invalid API key" })
+  })
+
+  it("rejects a missing key", async () => {
+    const response = await POST(validateRequest({}))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "No API key provided" })
+  })
+
+  it("rejects a key in the wrong format", async () => {
+    const response = await POST(validateRequest({ apiKey: "not-a-key" }))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid API key format" })
+  })
+
+  it("rejects an invalid local server address", async () => {
+    const response = await POST(validateRequest({ provider: { provider: "local", baseUrl: "localhost" } }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/^Invalid provider settings: baseUrl/)
+  })
+
+  it("reports an unreachable local server", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    const fetchMock = vi.fn(async () => new Response("Not found", { status: 404 }))
+    vi.stubGlobal("fetch", fetchMock)
+
+    const response = await POST(
+      validateRequest({ provider: { provider: "local", baseUrl: "http://localhost:9999/v1" } }),
+    )
+
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:9999/v1/models", expect.anything())
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: "Local server did not respond" })
+  })
+
+  it("reports a network failure", async () => {
+    vi.stubEnv("AI_PROVIDER", "")
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed")
+      }),
+    )
+
+    const response = await POST(validateRequest({ apiKey: "sk-test" }))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: "Failed to validate API key" })
+  })
+})
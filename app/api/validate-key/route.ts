@@ -1,24 +1,24 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { parseProviderSettings } from "@/lib/ai-provider"
+import { createProvider } from "@/lib/openai-provider"
 
 export async function POST(req: NextRequest) {
   try {
-    const { apiKey } = await req.json()
+    const { apiKey, provider } = await req.json()
 
-    if (!apiKey || !apiKey.startsWith("sk-")) {
-      return NextResponse.json({ error: "Invalid API key format" }, { status: 400 })
+    const { settings, error: settingsError } = parseProviderSettings(provider, apiKey)
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
     }
 
-    // Test the API key with a simple models list request
-    const response = await fetch("https://api.openai.com/v1/models", {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-    })
+    // Test the key, or that the local server is up, with a simple models list request
+    const valid = await createProvider(settings).validate()
 
-    if (!response.ok) {
-      return NextResponse.json({ error: "Invalid API key" }, { status: 401 })
+    if (!valid) {
+      return NextResponse.json(
+        { error: settings.provider === "local" ? "Local server did not respond" : "Invalid API key" },
+        { status: 401 },
+      )
     }
 
     return NextResponse.json({ success: true })
@@ -27,4 +27,3 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Failed to validate API key" }, { status: 500 })
   }
 }
-
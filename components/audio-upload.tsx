@@ -0,0 +1,197 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { AlertCircle, CheckCircle2, FileAudio, Loader2, Upload } from "lucide-react"
+import { AUDIO_FILE_ACCEPT, audioFileError, formatFileSize } from "@/lib/audio-files"
+import { cn } from "@/lib/utils"
+
+export type UploadStage = "transcribing" | "formatting"
+
+type UploadStatus = "queued" | UploadStage | "done" | "error"
+
+interface UploadItem {
+  id: string
+  file: File
+  status: UploadStatus
+  // Extra progress within the current stage, e.g. which chunk of a long recording is being transcribed
+  detail?: string
+  error?: string
+}
+
+interface AudioUploadProps {
+  disabled: boolean
+  // Runs one file through transcription and formatting, reporting each stage as it starts
+  onProcess: (file: File, onStage: (stage: UploadStage, detail?: string) => void) => Promise<void>
+}
+
+const STATUS_PROGRESS: Record<UploadStatus, number> = {
+  queued: 0,
+  transcribing: 33,
+  formatting: 66,
+  done: 100,
+  error: 100,
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Waiting",
+  transcribing: "Transcribing...",
+  formatting: "Formatting hand...",
+  done: "Added to history",
+  error: "Failed",
+}
+
+export function AudioUpload({ disabled, onProcess }: AudioUploadProps) {
+  const [uploads, setUploads] = useState<UploadItem[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const queueRef = useRef<UploadItem[]>([])
+  const isRunningRef = useRef(false)
+
+  // Always process with the latest settings, even for files queued before they changed
+  const onProcessRef = useRef(onProcess)
+  onProcessRef.current = onProcess
+
+  const update = (id: string, changes: Partial<UploadItem>) => {
+    setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)))
+  }
+
+  // Files are processed one at a time so hands are added in the order they were picked
+  const runQueue = async () => {
+    if (isRunningRef.current) return
+    isRunningRef.current = true
+
+    while (queueRef.current.length > 0) {
+      const upload = queueRef.current.shift()!
+      update(upload.id, { status: "transcribing" })
+      try {
+        await onProcessRef.current(upload.file, (stage, detail) => update(upload.id, { status: stage, detail }))
+        update(upload.id, { status: "done", detail: undefined })
+      } catch (error) {
+        console.error("Error processing uploaded file:", error)
+        update(upload.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to process file",
+        })
+      }
+    }
+
+    isRunningRef.current = false
+  }
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    const added = Array.from(files).map((file, index): UploadItem => {
+      const error = audioFileError(file)
+      return {
+        id: `upload-${Date.now()}-${index}`,
+        file,
+        status: error ? "error" : "queued",
+        error: error ?? undefined,
+      }
+    })
+
+    setUploads((prev) => [...prev, ...added])
+    queueRef.current.push(...added.filter((upload) => upload.status === "queued"))
+    runQueue()
+  }
+
+  const clearFinished = () => {
+    setUploads((prev) => prev.filter((upload) => upload.status !== "done" && upload.status !== "error"))
+  }
+
+  return (
+    <div className="w-full mb-6">
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!disabled && (e.key === "Enter" || e.key === " ")) {
+            e.preventDefault()
+            inputRef.current?.click()
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          if (!disabled) setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          if (!disabled) addFiles(e.dataTransfer.files)
+        }}
+        className={cn(
+          "flex flex-col items-center justify-center gap-1 p-4 border-2 border-dashed rounded-lg text-center transition-colors",
+          disabled
+            ? "border-gray-800 text-gray-600 cursor-not-allowed"
+            : isDragging
+              ? "border-blue-500 bg-blue-900/20 text-blue-300 cursor-pointer"
+              : "border-gray-700 text-gray-400 hover:border-gray-600 hover:bg-gray-900/30 cursor-pointer",
+        )}
+      >
+        <Upload className="w-5 h-5" />
+        <p className="text-sm">Drop voice memos here or click to choose files</p>
+        <p className="text-xs text-gray-500">MP3, M4A, WAV, WebM or OGG</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={AUDIO_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files)
+            // Allow picking the same file again
+            e.target.value = ""
+          }}
+        />
+      </div>
+
+      {uploads.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {uploads.map((upload) => (
+            <div key={upload.id} className="p-3 bg-gray-900/50 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                {upload.status === "done" ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-400 shrink-0" />
+                ) : upload.status === "error" ? (
+                  <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />
+                ) : upload.status === "queued" ? (
+                  <FileAudio className="w-4 h-4 text-gray-400 shrink-0" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-blue-400 animate-spin shrink-0" />
+                )}
+                <span className="text-sm text-gray-300 truncate">{upload.file.name}</span>
+                <span className="text-xs text-gray-500 shrink-0">{formatFileSize(upload.file.size)}</span>
+                <span
+                  className={cn(
+                    "ml-auto text-xs shrink-0",
+                    upload.status === "error" ? "text-red-400" : upload.status === "done" ? "text-green-400" : "text-gray-400",
+                  )}
+                >
+                  {upload.detail ?? STATUS_LABELS[upload.status]}
+                </span>
+              </div>
+              {upload.status === "error" ? (
+                <p className="text-xs text-red-300">{upload.error}</p>
+              ) : (
+                <Progress value={STATUS_PROGRESS[upload.status]} className="h-1.5 bg-gray-800" />
+              )}
+            </div>
+          ))}
+          {uploads.some((upload) => upload.status === "done" || upload.status === "error") && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={clearFinished} className="text-gray-400 hover:text-gray-300">
+                Clear finished
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
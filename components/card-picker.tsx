@@ -0,0 +1,92 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { PlayingCard } from "@/components/hand-replayer"
+import { SHORT_DECK_MISSING_RANKS, type Card } from "@/lib/hand"
+import { cn } from "@/lib/utils"
+
+interface CardPickerProps {
+  value: Card | null
+  // Cards already used elsewhere in the hand, which can't be picked twice
+  taken: Card[]
+  onChange: (card: Card | null) => void
+  label: string
+  // Leave out the 2s to 5s
+  shortDeck?: boolean
+}
+
+const RANKS = ["A", "K", "Q", "J", "T", "9", "8", "7", "6", "5", "4", "3", "2"]
+
+const SUITS: { suit: string; symbol: string; className: string }[] = [
+  { suit: "s", symbol: "♠", className: "text-gray-100" },
+  { suit: "h", symbol: "♥", className: "text-red-400" },
+  { suit: "d", symbol: "♦", className: "text-red-400" },
+  { suit: "c", symbol: "♣", className: "text-gray-100" },
+]
+
+export function CardPicker({ value, taken, onChange, label, shortDeck = false }: CardPickerProps) {
+  const [open, setOpen] = useState(false)
+  const ranks = shortDeck ? RANKS.filter((rank) => !SHORT_DECK_MISSING_RANKS.includes(rank)) : RANKS
+
+  const pick = (card: Card | null) => {
+    onChange(card)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" aria-label={value ? `${label}: ${value}` : `Pick ${label}`} className="rounded">
+          {value ? (
+            <PlayingCard card={value} small />
+          ) : (
+            <div className="w-6 h-8 rounded border border-dashed border-gray-600 text-gray-500 text-xs flex items-center justify-center">
+              ?
+            </div>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2 bg-gray-800 border-gray-700">
+        <div className="space-y-1">
+          {SUITS.map(({ suit, symbol, className }) => (
+            <div key={suit} className="flex gap-0.5">
+              {ranks.map((rank) => {
+                const card = `${rank}${suit}`
+                const isTaken = card !== value && taken.includes(card)
+                return (
+                  <button
+                    key={card}
+                    type="button"
+                    disabled={isTaken}
+                    onClick={() => pick(card)}
+                    className={cn(
+                      "w-6 h-7 rounded text-xs font-bold leading-none hover:bg-gray-700 disabled:opacity-20 disabled:hover:bg-transparent",
+                      className,
+                      card === value && "bg-blue-900",
+                    )}
+                  >
+                    {rank}
+                    {symbol}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+        {value && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => pick(null)}
+            className="w-full mt-2 h-7 text-xs text-gray-400"
+          >
+            Clear
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import type { Card } from "@/lib/hand"
+import type { PlayerEquity } from "@/lib/equity"
+
+interface EquityBarsProps {
+  players: (PlayerEquity & { label: string; holeCards: Card[] })[]
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`
+
+export function EquityBars({ players }: EquityBarsProps) {
+  return (
+    <div className="space-y-2">
+      {players.map((player, index) => (
+        <div key={index} className="grid grid-cols-[7rem_3.5rem_1fr_3.5rem] gap-2 items-center text-sm">
+          <span className="text-gray-300 truncate">{player.label}</span>
+          <span className="font-mono text-xs text-gray-400">{player.holeCards.join(" ")}</span>
+          <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-green-600 rounded-full" style={{ width: percent(player.equity) }} />
+          </div>
+          <span className="text-right text-gray-200" title={`Wins ${percent(player.win)}, ties ${percent(player.tie)}`}>
+            {percent(player.equity)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CardPicker } from "@/components/card-picker"
+import { EquityBars } from "@/components/equity-bars"
+import { AlertCircle, Calculator, Loader2, Plus, Trash2 } from "lucide-react"
+import { VARIANTS, VARIANT_RULES, type Card, type Variant } from "@/lib/hand"
+import { MAX_EQUITY_PLAYERS, MIN_EQUITY_PLAYERS, type EquityResult } from "@/lib/equity"
+
+const BOARD_LABELS = ["flop card 1", "flop card 2", "flop card 3", "turn", "river"]
+
+// Empty hole card slots for a player in a variant
+const emptyHand = (variant: Variant): (Card | null)[] => new Array(VARIANT_RULES[variant].holeCards).fill(null)
+
+// Five-card PLO runs out of cards before ten players can be dealt in with a full board
+function maxPlayersFor(variant: Variant): number {
+  const { holeCards, shortDeck } = VARIANT_RULES[variant]
+  return Math.min(MAX_EQUITY_PLAYERS, Math.floor(((shortDeck ? 36 : 52) - 5) / holeCards))
+}
+
+export function EquityCalculator() {
+  const [variant, setVariant] = useState<Variant>("nlhe")
+  const [players, setPlayers] = useState<(Card | null)[][]>([emptyHand("nlhe"), emptyHand("nlhe")])
+  const [board, setBoard] = useState<(Card | null)[]>([null, null, null, null, null])
+  const [result, setResult] = useState<{ players: Card[][]; equity: EquityResult } | null>(null)
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const known = (cards: (Card | null)[]) => cards.filter((card): card is Card => card !== null)
+  const taken = [...known(players.flat()), ...known(board)]
+  const rules = VARIANT_RULES[variant]
+  const isComplete = players.every((cards) => known(cards).length === rules.holeCards)
+  const maxPlayers = maxPlayersFor(variant)
+
+  // Cards from another variant may not fit this one, so switching starts over with the same number of players
+  const changeVariant = (next: Variant) => {
+    setVariant(next)
+    setPlayers((prev) => prev.slice(0, maxPlayersFor(next)).map(() => emptyHand(next)))
+    setBoard([null, null, null, null, null])
+    setResult(null)
+    setError(null)
+  }
+
+  const setPlayerCard = (playerIndex: number, cardIndex: number, card: Card | null) => {
+    setPlayers((prev) =>
+      prev.map((cards, index) =>
+        index === playerIndex ? cards.map((current, position) => (position === cardIndex ? card : current)) : cards,
+      ),
+    )
+  }
+
+  const calculate = async () => {
+    setIsCalculating(true)
+    setError(null)
+    try {
+      const holeCards = players.map(known)
+      const response = await fetch("/api/equity", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ players: holeCards, board: known(board), variant }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText)
+      }
+      setResult({ players: holeCards, equity: data })
+    } catch (err) {
+      console.error("Error calculating equity:", err)
+      setError(err instanceof Error ? err.message : "Equity could not be calculated.")
+    } finally {
+      setIsCalculating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-gray-900/50 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-300">Players</h4>
+          <Select value={variant} onValueChange={(value) => changeVariant(value as Variant)}>
+            <SelectTrigger className="w-44 h-8 bg-gray-800 border-gray-700 text-sm" aria-label="Game">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border border-gray-700">
+              {VARIANTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {VARIANT_RULES[option].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {players.map((cards, playerIndex) => (
+          <div key={playerIndex} className="flex items-center gap-2">
+            <span className="text-sm text-gray-400 w-20">Player {playerIndex + 1}</span>
+            {cards.map((card, cardIndex) => (
+              <CardPicker
+                key={cardIndex}
+                label={`player ${playerIndex + 1} card ${cardIndex + 1}`}
+                value={card}
+                taken={taken}
+                shortDeck={rules.shortDeck}
+                onChange={(picked) => setPlayerCard(playerIndex, cardIndex, picked)}
+              />
+            ))}
+            {players.length > MIN_EQUITY_PLAYERS && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPlayers((prev) => prev.filter((_, index) => index !== playerIndex))}
+                className="h-8 px-2 text-gray-500 hover:text-red-300"
+                aria-label={`Remove player ${playerIndex + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setPlayers((prev) => [...prev, emptyHand(variant)])}
+          disabled={players.length >= maxPlayers}
+          className="h-7 px-2 text-xs text-gray-400"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Player
+        </Button>
+      </div>
+
+      <div className="p-4 bg-gray-900/50 rounded-lg space-y-3">
+        <h4 className="text-sm font-medium text-gray-300">Board</h4>
+        <div className="flex items-center gap-1">
+          {board.map((card, index) => (
+            <CardPicker
+              key={index}
+              label={BOARD_LABELS[index]}
+              value={card}
+              taken={taken}
+              shortDeck={rules.shortDeck}
+              onChange={(picked) => setBoard((prev) => prev.map((current, position) => (position === index ? picked : current)))}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">Leave the board empty for preflop, or fill in as many cards as are out.</p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      <Button onClick={calculate} disabled={!isComplete || isCalculating} className="w-full bg-blue-600 hover:bg-blue-700">
+        {isCalculating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Calculator className="w-4 h-4 mr-2" />}
+        {isCalculating ? "Calculating..." : "Calculate Equity"}
+      </Button>
+
+      {result && (
+        <div className="p-4 bg-gray-900/50 rounded-lg space-y-3">
+          <EquityBars
+            players={result.equity.players.map((equity, index) => ({
+              ...equity,
+              label: `Player ${index + 1}`,
+              holeCards: result.players[index],
+            }))}
+          />
+          <p className="text-xs text-gray-500">
+            {result.equity.method === "exhaustive"
+              ? `Exact, from all ${result.equity.samples.toLocaleString()} possible boards.`
+              : `Estimated from ${result.equity.samples.toLocaleString()} random boards.`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -31,12 +31,15 @@ import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import { Save } from "lucide-react"
+import { AI_PROVIDERS, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL, DEFAULT_LOCAL_TRANSCRIPTION_URL } from "@/lib/ai-provider"
+import { ANTE_TYPES, GAME_VARIANTS, gameVariantLabel, type AnteType, type GameVariant } from "@/lib/hand"
 
 // Define the form schema
 const gameSettingsSchema = z.object({
   gameType: z.enum(["cash", "tournament"], {
     required_error: "Please select a game type.",
   }),
+  variant: z.enum(GAME_VARIANTS).default("nlhe"),
   tableSize: z.enum(["2", "6", "8", "9", "10"], {
     required_error: "Please select a table size.",
   }).optional(),
@@ -48,23 +51,81 @@ const gameSettingsSchema = z.object({
   currency: z.enum(["$", "€", "£"], {
     required_error: "Please select a currency.",
   }).default("$"),
+  anteType: z.enum(ANTE_TYPES).default("everyone"),
+  straddle: z.enum(["off", "utg", "mississippi"]).default("off"),
+  bombPots: z.enum(["off", "single", "double"]).default("off"),
+  bombPotAmount: z.string().optional(),
+  runItTwice: z.enum(["off", "on"]).default("off"),
+  aiProvider: z.enum(AI_PROVIDERS).default("openai"),
+  localBaseUrl: z.string().url("Please enter a URL like http://localhost:8080/v1.").optional(),
+  localTranscriptionUrl: z.string().url("Please enter a URL like http://localhost:8081/v1.").optional(),
+  localModel: z.string().optional(),
   aiModel: z.enum(["gpt-3.5-turbo", "gpt-4o", "o1", "o3-mini"], {
     required_error: "Please select an AI model.",
   }).default("gpt-3.5-turbo"),
+  repairAttempts: z.enum(["1", "2", "3", "5"]).default("3"),
+  trimSilence: z.enum(["on", "off"]).default("on"),
+  autoStopSilence: z.enum(["off", "3", "5", "10"]).default("off"),
+  autoSplitSilence: z.enum(["off", "5", "10", "20"]).default("off"),
 })
 
 type GameSettingsValues = z.infer<typeof gameSettingsSchema>
 
+// Game settings as saved in localStorage, where every field may be missing
+export type GameSettingsType = {
+  gameType?: "cash" | "tournament"
+  variant?: GameVariant
+  tableSize?: string
+  smallBlind?: string
+  bigBlind?: string
+  ante?: string
+  buyIn?: string
+  startingStack?: string
+  currency?: string
+  // Who posts the ante, everyone or one player for the whole table
+  anteType?: AnteType
+  // Where straddles are allowed, "off" when they aren't played
+  straddle?: "off" | "utg" | "mississippi"
+  // Whether bomb pots are played and with how many boards
+  bombPots?: "off" | "single" | "double"
+  bombPotAmount?: string
+  runItTwice?: "off" | "on"
+  aiProvider?: "openai" | "local"
+  localBaseUrl?: string
+  localTranscriptionUrl?: string
+  localModel?: string
+  aiModel?: "gpt-3.5-turbo" | "gpt-4o" | "o1" | "o3-mini"
+  repairAttempts?: string
+  trimSilence?: "on" | "off"
+  // Seconds of silence before a single-hand recording stops by itself, or "off"
+  autoStopSilence?: string
+  // Seconds of silence before continuous mode starts a new hand by itself, or "off"
+  autoSplitSilence?: string
+}
+
 // Default values
 const defaultValues: Partial<GameSettingsValues> = {
   gameType: "cash",
+  variant: "nlhe",
   tableSize: "9",
   smallBlind: "1",
   bigBlind: "2",
   ante: "0",
   currency: "$",
   startingStack: "100",
+  anteType: "everyone",
+  straddle: "off",
+  bombPots: "off",
+  runItTwice: "off",
+  aiProvider: "openai",
+  localBaseUrl: DEFAULT_LOCAL_BASE_URL,
+  localTranscriptionUrl: DEFAULT_LOCAL_TRANSCRIPTION_URL,
+  localModel: DEFAULT_LOCAL_MODEL,
   aiModel: "gpt-3.5-turbo",
+  repairAttempts: "3",
+  trimSilence: "on",
+  autoStopSilence: "off",
+  autoSplitSilence: "off",
 }
 
 interface GameSettingsProps {
@@ -139,6 +200,33 @@ export function GameSettings({ onSettingsSaved }: GameSettingsProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="variant"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Game</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a game" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-gray-800 border border-gray-700">
+                      {GAME_VARIANTS.map((variant) => (
+                        <SelectItem key={variant} value={variant}>
+                          {gameVariantLabel(variant)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    In mixed games the variant is worked out from each hand&apos;s description
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -307,29 +395,320 @@ export function GameSettings({ onSettingsSaved }: GameSettingsProps) {
               ) : null}
             </div>
 
+            <div className="border-t pt-4 border-gray-700 mt-4">
+              <h3 className="text-lg font-medium text-gray-300 mb-3">Live Game Structures</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="straddle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Straddles</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select straddles" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="off">Not played</SelectItem>
+                          <SelectItem value="utg">Under the gun</SelectItem>
+                          <SelectItem value="mississippi">Mississippi (any seat, usually the button)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="anteType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ante Posted By</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select who antes" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="everyone">Everyone</SelectItem>
+                          <SelectItem value="button">The button, for the table</SelectItem>
+                          <SelectItem value="big-blind">The big blind, for the table</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="bombPots"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bomb Pots</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select bomb pots" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="off">Not played</SelectItem>
+                          <SelectItem value="single">One board</SelectItem>
+                          <SelectItem value="double">Two boards</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                {form.watch("bombPots") !== "off" && (
+                  <FormField
+                    control={form.control}
+                    name="bombPotAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bomb Pot Amount</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder="10" {...field} className="bg-gray-800 border-gray-700" />
+                        </FormControl>
+                        <FormDescription>
+                          What each player puts in
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="runItTwice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Run It Twice</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select run it twice" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="off">Not allowed</SelectItem>
+                          <SelectItem value="on">Allowed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="border-t pt-4 border-gray-700 mt-4">
+              <h3 className="text-lg font-medium text-gray-300 mb-3">Recording</h3>
+
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="trimSilence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trim Silence</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Trim silence" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="on">On</SelectItem>
+                          <SelectItem value="off">Off</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Cut the silence at the start and end of each recording before it's transcribed
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="autoStopSilence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Auto-stop After Silence</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select delay" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="3">3 seconds</SelectItem>
+                          <SelectItem value="5">5 seconds</SelectItem>
+                          <SelectItem value="10">10 seconds</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Stop a single-hand recording once you've stopped talking for this long
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="autoSplitSilence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Hand After Silence</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select gap" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="5">5 seconds</SelectItem>
+                          <SelectItem value="10">10 seconds</SelectItem>
+                          <SelectItem value="20">20 seconds</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        In continuous mode or when splitting hands automatically, start a new hand whenever you pause for this long
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <div className="border-t pt-4 border-gray-700 mt-4">
               <h3 className="text-lg font-medium text-gray-300 mb-3">AI Settings</h3>
               <FormField
                 control={form.control}
-                name="aiModel"
+                name="aiProvider"
                 render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Hand Analysis Model</FormLabel>
+                  <FormItem className="mb-4">
+                    <FormLabel>AI Provider</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select AI provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-gray-800 border border-gray-700">
+                        <SelectItem value="openai">OpenAI - Needs an API key and internet</SelectItem>
+                        <SelectItem value="local">Local server - Runs offline on this machine</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      A local server must speak the OpenAI API, e.g. llama.cpp and whisper.cpp servers
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("aiProvider") === "local" ? (
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="localBaseUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Language Model Server</FormLabel>
+                        <FormControl>
+                          <Input type="url" placeholder={DEFAULT_LOCAL_BASE_URL} {...field} className="bg-gray-800 border-gray-700" />
+                        </FormControl>
+                        <FormDescription>Used to format and analyze hands</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="localTranscriptionUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Speech-to-Text Server</FormLabel>
+                        <FormControl>
+                          <Input type="url" placeholder={DEFAULT_LOCAL_TRANSCRIPTION_URL} {...field} className="bg-gray-800 border-gray-700" />
+                        </FormControl>
+                        <FormDescription>Must accept uploads at /audio/transcriptions</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="localModel"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Model Name</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder={DEFAULT_LOCAL_MODEL} {...field} className="bg-gray-800 border-gray-700" />
+                        </FormControl>
+                        <FormDescription>Servers that host a single model usually ignore this</FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="aiModel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hand Analysis Model</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select AI model" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-gray-800 border border-gray-700">
+                          <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo - Fast & cost-effective</SelectItem>
+                          <SelectItem value="gpt-4o">GPT-4o - Advanced multimodal capabilities</SelectItem>
+                          <SelectItem value="o1">o1 - Advanced reasoning for complex problems</SelectItem>
+                          <SelectItem value="o3-mini">o3-mini - Fast with strong reasoning</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Select the OpenAI model to use for analyzing poker hands
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="repairAttempts"
+                render={({ field }) => (
+                  <FormItem className="mt-4">
+                    <FormLabel>Auto-correct Attempts</FormLabel>
                     <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select AI model" />
+                          <SelectValue placeholder="Select attempts" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent className="bg-gray-800 border border-gray-700">
-                        <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo - Fast & cost-effective</SelectItem>
-                        <SelectItem value="gpt-4o">GPT-4o - Advanced multimodal capabilities</SelectItem>
-                        <SelectItem value="o1">o1 - Advanced reasoning for complex problems</SelectItem>
-                        <SelectItem value="o3-mini">o3-mini - Fast with strong reasoning</SelectItem>
+                        <SelectItem value="1">1 - Never retry</SelectItem>
+                        <SelectItem value="2">2 attempts</SelectItem>
+                        <SelectItem value="3">3 attempts</SelectItem>
+                        <SelectItem value="5">5 attempts</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormDescription>
-                      Select the OpenAI model to use for analyzing poker hands
+                      How many times to format a hand before giving up when its chips don't add up
                     </FormDescription>
                   </FormItem>
                 )}
@@ -0,0 +1,267 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AccordionItem, AccordionTrigger, AccordionContent } from "@/components/ui/accordion"
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
+import { EquityBars } from "@/components/equity-bars"
+import { HandEditor } from "@/components/hand-editor"
+import { HandReplayer } from "@/components/hand-replayer"
+import { HandTranscript } from "@/components/hand-transcript"
+import { Loader2, Trash2, Copy, AlertCircle, Activity, AlertTriangle, Pencil } from "lucide-react"
+import { PLAYER_COLOR_CLASSES } from "@/components/player-profiles"
+import type { Hand } from "@/lib/hand"
+import type { HandRecord, PlayerProfile } from "@/lib/hand-library"
+import type { HandIssue, ValidationStakes } from "@/lib/hand-validator"
+import { matchPlayer } from "@/lib/player-matching"
+import { allInEv } from "@/lib/all-in-ev"
+import { formatResult } from "@/lib/sessions"
+import { cn } from "@/lib/utils"
+
+interface HandCardProps {
+  hand: HandRecord
+  number: number
+  issues: HandIssue[]
+  stakes: ValidationStakes
+  profiles: PlayerProfile[]
+  analysis?: string
+  analysisModel: string
+  analysisError?: string
+  isAnalyzing: boolean
+  canAnalyze: boolean
+  canReformat: boolean
+  isCopied: boolean
+  onAnalyze: () => void
+  onReformat: (text: string, context: string) => Promise<void>
+  // Saves corrections made in the editor and renders the hand text again
+  onEdit: (hand: Hand) => Promise<void>
+  onCopy: () => void
+  onDelete: () => void
+}
+
+export function HandCard({
+  hand,
+  number,
+  issues,
+  stakes,
+  profiles,
+  analysis,
+  analysisModel,
+  analysisError,
+  isAnalyzing,
+  canAnalyze,
+  canReformat,
+  isCopied,
+  onAnalyze,
+  onReformat,
+  onEdit,
+  onCopy,
+  onDelete,
+}: HandCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const heroEv = hand.hand.game.type === "cash" ? allInEv(hand.hand, hand.equity ?? null) : null
+
+  // Seats whose player matches a saved profile, so their notes are at hand when reviewing
+  const linkedPlayers = hand.hand.seats.flatMap((seat) => {
+    const profile = matchPlayer(seat.player, profiles)
+    return profile ? [{ seat: seat.player, profile }] : []
+  })
+
+  return (
+    <AccordionItem value={hand.id} className="border-gray-700">
+      <AccordionTrigger className="hover:bg-gray-800/30 px-4 rounded-lg">
+        <div className="flex items-center">
+          <span className="text-gray-300 font-medium">Hand #{number}</span>
+          <span className="ml-3 text-xs text-gray-500">{hand.timestamp.toLocaleTimeString()}</span>
+          {issues.length > 0 ? (
+            <span className="ml-3 text-xs px-2 py-0.5 bg-yellow-950/50 rounded-full text-yellow-300 border border-yellow-900 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              Needs review
+            </span>
+          ) : hand.attempts > 1 ? (
+            <span className="ml-3 text-xs px-2 py-0.5 bg-green-950/50 rounded-full text-green-300 border border-green-900">
+              Auto-corrected
+            </span>
+          ) : null}
+          {hand.tags?.map((tag) => (
+            <span
+              key={tag}
+              className="ml-2 text-xs px-2 py-0.5 bg-purple-950/50 rounded-full text-purple-300 border border-purple-900"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      </AccordionTrigger>
+      <AccordionContent className="px-4">
+        {issues.length > 0 && (
+          <div className="mb-2 p-3 bg-yellow-900/20 border border-yellow-800 rounded-md flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0 mt-0.5" />
+            <div>
+              <h4 className="text-sm font-medium text-yellow-400 mb-1">This hand doesn't add up</h4>
+              <ul className="list-disc list-inside space-y-1 text-sm text-yellow-200">
+                {issues.map((issue, issueIndex) => (
+                  <li key={issueIndex}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {linkedPlayers.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {linkedPlayers.map(({ seat, profile }) => (
+              <span
+                key={seat}
+                title={profile.notes || undefined}
+                className="text-xs px-2 py-1 bg-gray-800 rounded-full text-gray-300 border border-gray-700 flex items-center gap-1"
+              >
+                <span
+                  className={cn(
+                    "w-2 h-2 rounded-full",
+                    profile.color ? PLAYER_COLOR_CLASSES[profile.color] : "bg-gray-600",
+                  )}
+                />
+                {seat === profile.name ? seat : `${seat} → ${profile.name}`}
+                {profile.tendencies.length > 0 && (
+                  <span className="text-gray-500">· {profile.tendencies.join(", ")}</span>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {hand.equity && (
+          <div className="mb-2 p-3 bg-gray-900 rounded-md">
+            <h4 className="text-sm font-medium text-gray-300 mb-2">
+              All-in {hand.equity.street === "preflop" ? "preflop" : `on the ${hand.equity.street}`}
+              {hand.equity.board.length > 0 && (
+                <span className="ml-2 font-mono text-xs text-gray-400">[{hand.equity.board.join(" ")}]</span>
+              )}
+            </h4>
+            <EquityBars
+              players={hand.equity.players.map((player) => ({ ...player, label: player.player }))}
+            />
+            {heroEv && (
+              <p className="mt-2 text-xs text-gray-400">
+                Hero's all-in EV {formatResult(heroEv.expected, hand.hand.game.currency)}, actual result{" "}
+                {formatResult(heroEv.actual, hand.hand.game.currency)}
+              </p>
+            )}
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="bg-gray-900 rounded-lg p-4 mb-2">
+            <HandEditor
+              hand={hand.hand}
+              stakes={stakes}
+              onSave={async (edited) => {
+                await onEdit(edited)
+                setIsEditing(false)
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <Tabs defaultValue="text">
+            <TabsList className="bg-gray-900 mb-2">
+              <TabsTrigger value="text">Hand History</TabsTrigger>
+              <TabsTrigger value="replay">Replay</TabsTrigger>
+              <TabsTrigger value="transcript">Transcript</TabsTrigger>
+            </TabsList>
+            <TabsContent value="text">
+              <div className="bg-gray-900 rounded-lg p-4 font-mono text-sm text-gray-300 overflow-auto max-h-96 mb-2">
+                <pre className="whitespace-pre-wrap">{hand.text}</pre>
+              </div>
+            </TabsContent>
+            <TabsContent value="replay">
+              <div className="bg-gray-900 rounded-lg p-4 mb-2">
+                <HandReplayer
+                  hand={hand.hand}
+                  tableSize={hand.settings?.tableSize ? parseInt(hand.settings.tableSize) : undefined}
+                />
+              </div>
+            </TabsContent>
+            <TabsContent value="transcript">
+              <div className="bg-gray-900 rounded-lg p-4 mb-2">
+                <HandTranscript handId={hand.id} canReformat={canReformat} onReformat={onReformat} />
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {analysis && (
+          <div className="mt-4 mb-2">
+            <div className="flex items-center gap-2 mb-2">
+              <h4 className="text-sm font-medium text-blue-400">Hand Analysis</h4>
+              <span className="text-xs px-2 py-1 bg-blue-950/50 rounded-full text-blue-300 border border-blue-900">
+                {analysisModel}
+              </span>
+            </div>
+            <div className="bg-blue-900/20 border border-blue-800/30 rounded-lg p-4 text-sm text-gray-300 overflow-auto max-h-96">
+              <pre className="whitespace-pre-wrap">{analysis.replace(/^Analysis by (OpenAI|Local) .*?:\n\n/, "")}</pre>
+            </div>
+          </div>
+        )}
+
+        {analysisError && (
+          <div className="mt-2 p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+            <p className="text-sm text-red-300">{analysisError}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onAnalyze}
+            disabled={isAnalyzing || !canAnalyze}
+            className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+          >
+            {isAnalyzing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Analyzing...
+              </>
+            ) : (
+              <>
+                <Activity className="w-4 h-4 mr-2" />
+                Analyze
+              </>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsEditing(true)}
+            disabled={isEditing}
+            className="text-gray-300 hover:text-gray-100 hover:bg-gray-700/50"
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCopy}
+            className="text-blue-400 hover:text-blue-300 hover:bg-blue-900/20"
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            {isCopied ? "Copied!" : "Copy"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </AccordionContent>
+    </AccordionItem>
+  )
+}
@@ -0,0 +1,765 @@
+"use client"
+
+import { useState } from "react"
+import { useFieldArray, useForm, type Control } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CardPicker } from "@/components/card-picker"
+import { AlertCircle, AlertTriangle, Calculator, CheckCircle, Loader2, Plus, Save, Trash2, X } from "lucide-react"
+import {
+  POSITIONS,
+  STREETS,
+  VARIANTS,
+  VARIANT_RULES,
+  handSchema,
+  type Action,
+  type ActionType,
+  type Card,
+  type Hand,
+} from "@/lib/hand"
+import { validateHand, type ValidationStakes } from "@/lib/hand-validator"
+import { settlePots } from "@/lib/side-pots"
+
+interface HandEditorProps {
+  hand: Hand
+  // Blinds and antes the hand is checked against, the same ones used for its "Needs review" warnings
+  stakes: ValidationStakes
+  onSave: (hand: Hand) => Promise<void>
+  onCancel: () => void
+}
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  "post-small-blind": "Posts SB",
+  "post-big-blind": "Posts BB",
+  "post-ante": "Posts ante",
+  "post-straddle": "Straddles",
+  fold: "Folds",
+  check: "Checks",
+  call: "Calls",
+  bet: "Bets",
+  raise: "Raises to",
+}
+
+const STREET_LABELS: Record<Action["street"], string> = {
+  preflop: "Preflop",
+  flop: "Flop",
+  turn: "Turn",
+  river: "River",
+}
+
+const selectClassName = "h-8 bg-gray-800 border-gray-700 text-xs"
+const inputClassName = "h-8 bg-gray-800 border-gray-700 text-xs"
+
+// Number inputs that keep an empty box empty rather than turning it into 0, so the schema can flag it
+function NumberInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: number
+  onChange: (value: number) => void
+  label: string
+}) {
+  return (
+    <Input
+      type="number"
+      min={0}
+      step="any"
+      aria-label={label}
+      value={Number.isNaN(value) ? "" : value}
+      onChange={(e) => onChange(e.target.value === "" ? NaN : e.target.valueAsNumber)}
+      className={inputClassName}
+    />
+  )
+}
+
+// Flop, turn and river pickers for the first board or one of the extra boards
+function BoardPickers({
+  control,
+  prefix,
+  taken,
+  shortDeck,
+}: {
+  control: Control<Hand>
+  prefix: "board" | `extraBoards.${number}`
+  taken: Card[]
+  shortDeck: boolean
+}) {
+  return (
+    <div className="flex items-center gap-4">
+      <FormField
+        control={control}
+        name={`${prefix}.flop`}
+        render={({ field: flop }) => (
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-gray-500 mr-1">Flop</span>
+            {[0, 1, 2].map((cardIndex) => (
+              <CardPicker
+                key={cardIndex}
+                label={`flop card ${cardIndex + 1}`}
+                value={flop.value[cardIndex] ?? null}
+                taken={taken}
+                shortDeck={shortDeck}
+                onChange={(card) => {
+                  const cards: (Card | null)[] = [0, 1, 2].map((i) => flop.value[i] ?? null)
+                  cards[cardIndex] = card
+                  flop.onChange(cards.filter((picked): picked is Card => picked !== null))
+                }}
+              />
+            ))}
+          </div>
+        )}
+      />
+      {(["turn", "river"] as const).map((street) => (
+        <FormField
+          key={street}
+          control={control}
+          name={`${prefix}.${street}`}
+          render={({ field: card }) => (
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-gray-500 mr-1">{STREET_LABELS[street]}</span>
+              <CardPicker label={street} value={card.value} taken={taken} shortDeck={shortDeck} onChange={card.onChange} />
+            </div>
+          )}
+        />
+      ))}
+    </div>
+  )
+}
+
+function PotWinners({ control, potIndex, players }: { control: Control<Hand>; potIndex: number; players: string[] }) {
+  const { fields, append, remove } = useFieldArray({ control, name: `pots.${potIndex}.winners` })
+
+  return (
+    <div className="space-y-1">
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid grid-cols-[1fr_6rem_auto] gap-2 items-start">
+          <FormField
+            control={control}
+            name={`pots.${potIndex}.winners.${index}.player`}
+            render={({ field: winner }) => (
+              <FormItem>
+                <Select value={winner.value} onValueChange={winner.onChange}>
+                  <FormControl>
+                    <SelectTrigger className={selectClassName} aria-label="Winner">
+                      <SelectValue placeholder="Winner" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent className="bg-gray-800 border border-gray-700">
+                    {players.map((player) => (
+                      <SelectItem key={player} value={player}>
+                        {player}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`pots.${potIndex}.winners.${index}.amount`}
+            render={({ field: amount }) => (
+              <FormItem>
+                <FormControl>
+                  <NumberInput value={amount.value} onChange={amount.onChange} label="Amount won" />
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => remove(index)}
+            className="h-8 px-2 text-gray-500 hover:text-red-300"
+            aria-label="Remove winner"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => append({ player: players[0] ?? "", amount: 0 })}
+        className="h-7 px-2 text-xs text-gray-400"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add Winner
+      </Button>
+    </div>
+  )
+}
+
+export function HandEditor({ hand, stakes, onSave, onCancel }: HandEditorProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<Hand>({
+    resolver: zodResolver(handSchema),
+    defaultValues: hand,
+    mode: "onChange",
+  })
+  const seats = useFieldArray({ control: form.control, name: "seats" })
+  const actions = useFieldArray({ control: form.control, name: "actions" })
+  const pots = useFieldArray({ control: form.control, name: "pots" })
+  const extraBoards = useFieldArray({ control: form.control, name: "extraBoards" })
+
+  // Check the chips add up on every change, once the form holds a complete hand
+  const values = form.watch()
+  const parsed = handSchema.safeParse(values)
+  const issues = parsed.success ? validateHand(parsed.data, stakes) : []
+
+  const players = (values.seats ?? []).map((seat) => seat.player).filter(Boolean)
+  const rules = VARIANT_RULES[values.game?.variant ?? "nlhe"]
+  const holeCardsTaken: Card[] = (values.seats ?? []).flatMap((seat) => seat.holeCards ?? [])
+  // Later boards repeat the cards they share with the first, so only hole cards are off limits for them
+  const taken: Card[] = [
+    ...holeCardsTaken,
+    ...(values.board?.flop ?? []),
+    ...[values.board?.turn, values.board?.river].filter((card): card is Card => Boolean(card)),
+  ]
+
+  // Actions and pots refer to players by name, so a rename carries over to them
+  const renamePlayer = (from: string, to: string) => {
+    form.getValues("actions").forEach((action, index) => {
+      if (action.player === from) form.setValue(`actions.${index}.player`, to)
+    })
+    form.getValues("pots").forEach((pot, potIndex) => {
+      pot.winners.forEach((winner, index) => {
+        if (winner.player === from) form.setValue(`pots.${potIndex}.winners.${index}.player`, to)
+      })
+    })
+  }
+
+  const addSeat = () => {
+    const used = new Set(form.getValues("seats").map((seat) => seat.seat))
+    const seat = Array.from({ length: 10 }, (_, index) => index + 1).find((number) => !used.has(number))
+    if (!seat) return
+    seats.append({ seat, player: `Seat ${seat}`, position: "MP", stack: 0, holeCards: [], isHero: false })
+  }
+
+  const newAction = (after?: Action): Action => ({
+    street: after?.street ?? "preflop",
+    player: players[0] ?? "",
+    type: "fold",
+    amount: 0,
+    allIn: false,
+  })
+
+  const onSubmit = async (data: Hand) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(data)
+    } catch (err) {
+      console.error("Error saving edited hand:", err)
+      setError("The hand could not be saved. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-300">Seats</h4>
+            <FormField
+              control={form.control}
+              name="game.variant"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0 ml-auto mr-4">
+                  <FormLabel className="text-xs text-gray-400">Game</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={`${selectClassName} w-40`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-gray-800 border border-gray-700">
+                      {VARIANTS.map((variant) => (
+                        <SelectItem key={variant} value={variant}>
+                          {VARIANT_RULES[variant].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="buttonSeat"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormLabel className="text-xs text-gray-400">Button</FormLabel>
+                  <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                    <FormControl>
+                      <SelectTrigger className={`${selectClassName} w-20`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-gray-800 border border-gray-700">
+                      {(values.seats ?? []).map((seat) => (
+                        <SelectItem key={seat.seat} value={String(seat.seat)}>
+                          Seat {seat.seat}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-[3.5rem_1fr_5.5rem_6rem_auto_auto_auto] gap-2 text-xs text-gray-500">
+            <span>Seat</span>
+            <span>Player</span>
+            <span>Position</span>
+            <span>Stack</span>
+            <span>Cards</span>
+            <span>Hero</span>
+            <span />
+          </div>
+          {seats.fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-[3.5rem_1fr_5.5rem_6rem_auto_auto_auto] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`seats.${index}.seat`}
+                render={({ field: seat }) => (
+                  <FormItem>
+                    <FormControl>
+                      <NumberInput value={seat.value} onChange={seat.onChange} label="Seat number" />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`seats.${index}.player`}
+                render={({ field: player }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        aria-label="Player"
+                        value={player.value}
+                        onChange={(e) => {
+                          renamePlayer(player.value, e.target.value)
+                          player.onChange(e.target.value)
+                        }}
+                        className={inputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`seats.${index}.position`}
+                render={({ field: position }) => (
+                  <FormItem>
+                    <Select value={position.value} onValueChange={position.onChange}>
+                      <FormControl>
+                        <SelectTrigger className={selectClassName} aria-label="Position">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-gray-800 border border-gray-700">
+                        {POSITIONS.map((label) => (
+                          <SelectItem key={label} value={label}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`seats.${index}.stack`}
+                render={({ field: stack }) => (
+                  <FormItem>
+                    <FormControl>
+                      <NumberInput value={stack.value} onChange={stack.onChange} label="Stack" />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`seats.${index}.holeCards`}
+                render={({ field: holeCards }) => (
+                  <div className="flex gap-1">
+                    {Array.from({ length: rules.holeCards }, (_, cardIndex) => (
+                      <CardPicker
+                        key={cardIndex}
+                        label={`hole card ${cardIndex + 1}`}
+                        value={holeCards.value[cardIndex] ?? null}
+                        taken={taken}
+                        shortDeck={rules.shortDeck}
+                        onChange={(card) => {
+                          const cards: (Card | null)[] = Array.from(
+                            { length: rules.holeCards },
+                            (_, i) => holeCards.value[i] ?? null,
+                          )
+                          cards[cardIndex] = card
+                          holeCards.onChange(cards.filter((picked): picked is Card => picked !== null))
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`seats.${index}.isHero`}
+                render={({ field: isHero }) => (
+                  <div className="h-8 flex items-center">
+                    <Checkbox
+                      aria-label="Hero"
+                      checked={isHero.value}
+                      onCheckedChange={(checked) => {
+                        // Only one seat can be the hero
+                        if (checked) {
+                          form.getValues("seats").forEach((_, seatIndex) => {
+                            if (seatIndex !== index) form.setValue(`seats.${seatIndex}.isHero`, false)
+                          })
+                        }
+                        isHero.onChange(checked === true)
+                      }}
+                    />
+                  </div>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => seats.remove(index)}
+                disabled={seats.fields.length <= 2}
+                className="h-8 px-2 text-gray-500 hover:text-red-300"
+                aria-label="Remove seat"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={addSeat}
+            disabled={seats.fields.length >= 10}
+            className="h-7 px-2 text-xs text-gray-400"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Seat
+          </Button>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-300">Board</h4>
+            <FormField
+              control={form.control}
+              name="bombPot"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="text-xs text-gray-400">Bomb pot</FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+          <BoardPickers control={form.control} prefix="board" taken={taken} shortDeck={rules.shortDeck} />
+          {extraBoards.fields.map((field, index) => (
+            <div key={field.id} className="flex items-center gap-2">
+              <span className="text-xs text-gray-400 w-14">Board {index + 2}</span>
+              <BoardPickers
+                control={form.control}
+                prefix={`extraBoards.${index}`}
+                taken={holeCardsTaken}
+                shortDeck={rules.shortDeck}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => extraBoards.remove(index)}
+                className="h-8 px-2 ml-auto text-gray-500 hover:text-red-300"
+                aria-label={`Remove board ${index + 2}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => extraBoards.append(structuredClone(form.getValues("board")))}
+            disabled={extraBoards.fields.length >= 2}
+            className="h-7 px-2 text-xs text-gray-400"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Board
+          </Button>
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-300">Actions</h4>
+          {actions.fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-[5.5rem_1fr_7rem_6rem_auto_auto_auto] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`actions.${index}.street`}
+                render={({ field: street }) => (
+                  <FormItem>
+                    <Select value={street.value} onValueChange={street.onChange}>
+                      <FormControl>
+                        <SelectTrigger className={selectClassName} aria-label="Street">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-gray-800 border border-gray-700">
+                        {STREETS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {STREET_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`actions.${index}.player`}
+                render={({ field: player }) => (
+                  <FormItem>
+                    <Select value={player.value} onValueChange={player.onChange}>
+                      <FormControl>
+                        <SelectTrigger className={selectClassName} aria-label="Player">
+                          <SelectValue placeholder="Player" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-gray-800 border border-gray-700">
+                        {players.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`actions.${index}.type`}
+                render={({ field: type }) => (
+                  <FormItem>
+                    <Select
+                      value={type.value}
+                      onValueChange={(value) => {
+                        type.onChange(value)
+                        // Folds and checks never put chips in
+                        if (value === "fold" || value === "check") form.setValue(`actions.${index}.amount`, 0)
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger className={selectClassName} aria-label="Action">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-gray-800 border border-gray-700">
+                        {(Object.keys(ACTION_LABELS) as ActionType[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {ACTION_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`actions.${index}.amount`}
+                render={({ field: amount }) => (
+                  <FormItem>
+                    <FormControl>
+                      <NumberInput value={amount.value} onChange={amount.onChange} label="Amount" />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`actions.${index}.allIn`}
+                render={({ field: allIn }) => (
+                  <label className="h-8 flex items-center gap-1 text-xs text-gray-400">
+                    <Checkbox checked={allIn.value} onCheckedChange={(checked) => allIn.onChange(checked === true)} />
+                    All-in
+                  </label>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => actions.insert(index + 1, newAction(form.getValues(`actions.${index}`)))}
+                className="h-8 px-2 text-gray-500 hover:text-gray-300"
+                aria-label="Insert action below"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => actions.remove(index)}
+                className="h-8 px-2 text-gray-500 hover:text-red-300"
+                aria-label="Remove action"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => actions.append(newAction(form.getValues("actions").at(-1)))}
+            className="h-7 px-2 text-xs text-gray-400"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Action
+          </Button>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-300">Pots</h4>
+            <FormField
+              control={form.control}
+              name="rake"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormLabel className="text-xs text-gray-400">Rake</FormLabel>
+                  <div className="w-24">
+                    <FormControl>
+                      <NumberInput value={field.value} onChange={field.onChange} label="Rake" />
+                    </FormControl>
+                  </div>
+                </FormItem>
+              )}
+            />
+          </div>
+          {pots.fields.map((field, index) => (
+            <div key={field.id} className="p-3 bg-gray-800/50 rounded-md space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-400 w-20">{index === 0 ? "Main pot" : `Side pot ${index}`}</span>
+                <FormField
+                  control={form.control}
+                  name={`pots.${index}.amount`}
+                  render={({ field: amount }) => (
+                    <FormItem className="w-24">
+                      <FormControl>
+                        <NumberInput value={amount.value} onChange={amount.onChange} label="Pot size" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => pots.remove(index)}
+                    className="h-8 px-2 ml-auto text-gray-500 hover:text-red-300"
+                    aria-label="Remove side pot"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <PotWinners control={form.control} potIndex={index} players={players} />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => pots.append({ amount: 0, winners: [] })}
+            className="h-7 px-2 text-xs text-gray-400"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Side Pot
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => parsed.success && pots.replace(settlePots(parsed.data))}
+            disabled={!parsed.success}
+            className="h-7 px-2 text-xs text-gray-400"
+          >
+            <Calculator className="w-3 h-3 mr-1" />
+            Recalculate Pots
+          </Button>
+        </section>
+
+        {parsed.success &&
+          (issues.length > 0 ? (
+            <div className="p-3 bg-yellow-900/20 border border-yellow-800 rounded-md flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0 mt-0.5" />
+              <ul className="list-disc list-inside space-y-1 text-sm text-yellow-200">
+                {issues.map((issue, issueIndex) => (
+                  <li key={issueIndex}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-green-400 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              The chips add up.
+            </p>
+          ))}
+
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving} className="text-gray-400">
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={isSaving} className="bg-blue-600 hover:bg-blue-700">
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Hand
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight, Pause, Play, SkipBack, SkipForward } from "lucide-react"
+import { VARIANT_RULES, type Card, type Hand } from "@/lib/hand"
+import { buildReplay, type ReplaySeat, type ReplayStage } from "@/lib/hand-replay"
+import { cn } from "@/lib/utils"
+
+interface HandReplayerProps {
+  hand: Hand
+  // Seats to draw around the table, usually the table size from the game settings
+  tableSize?: number
+}
+
+const STAGES: { stage: ReplayStage; label: string }[] = [
+  { stage: "preflop", label: "Preflop" },
+  { stage: "flop", label: "Flop" },
+  { stage: "turn", label: "Turn" },
+  { stage: "river", label: "River" },
+  { stage: "showdown", label: "Showdown" },
+]
+
+// How long each step is shown while playing
+const STEP_INTERVAL_MS = 1200
+
+const SUIT_SYMBOLS: Record<string, string> = { s: "♠", h: "♥", d: "♦", c: "♣" }
+
+export function PlayingCard({ card, small = false }: { card?: Card; small?: boolean }) {
+  const size = small ? "w-6 h-8 text-xs" : "w-9 h-12 text-sm"
+  if (!card) {
+    return <div className={cn(size, "rounded border border-blue-700 bg-blue-900")} />
+  }
+
+  const red = card[1] === "h" || card[1] === "d"
+  return (
+    <div
+      className={cn(
+        size,
+        "rounded border border-gray-300 bg-white font-bold flex flex-col items-center justify-center leading-none",
+        red ? "text-red-600" : "text-gray-900",
+      )}
+    >
+      <span>{card[0] === "T" ? "10" : card[0]}</span>
+      <span>{SUIT_SYMBOLS[card[1]]}</span>
+    </div>
+  )
+}
+
+// Places seat numbers evenly around an ellipse, with the hero (or seat 1) at the bottom
+function seatPoint(seat: number, bottomSeat: number, tableSize: number, radiusX: number, radiusY: number) {
+  const angle = Math.PI / 2 + ((seat - bottomSeat) * 2 * Math.PI) / tableSize
+  return { left: `${50 + radiusX * Math.cos(angle)}%`, top: `${50 + radiusY * Math.sin(angle)}%` }
+}
+
+export function HandReplayer({ hand, tableSize }: HandReplayerProps) {
+  const frames = useMemo(() => buildReplay(hand), [hand])
+  const [step, setStep] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const lastStep = frames.length - 1
+  const frame = frames[Math.min(step, lastStep)]
+
+  // Never draw fewer seats than the hand actually uses
+  const seatCount = Math.max(tableSize ?? hand.maxSeats, hand.maxSeats, ...hand.seats.map((seat) => seat.seat))
+  const bottomSeat = hand.seats.find((seat) => seat.isHero)?.seat ?? 1
+  const seatsByNumber = new Map<number, ReplaySeat>(frame.seats.map((seat) => [seat.seat, seat]))
+  const money = (amount: number) => {
+    const value = Number.isInteger(amount) ? String(amount) : amount.toFixed(2)
+    return hand.game.type === "cash" ? `${hand.game.currency}${value}` : value
+  }
+
+  useEffect(() => {
+    setStep(0)
+    setIsPlaying(false)
+  }, [frames])
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (step >= lastStep) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStep((prev) => prev + 1), STEP_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, step, lastStep])
+
+  const jumpTo = (stage: ReplayStage) => {
+    const index = frames.findIndex((candidate) => candidate.stage === stage)
+    if (index !== -1) {
+      setIsPlaying(false)
+      setStep(index)
+    }
+  }
+
+  const togglePlay = () => {
+    if (step >= lastStep) setStep(0)
+    setIsPlaying((prev) => !prev)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full aspect-[16/9] max-h-96 mx-auto">
+        <div className="absolute inset-[12%] rounded-[50%] bg-green-900 border-8 border-amber-950 shadow-inner" />
+
+        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-2">
+          <div className="flex gap-1">
+            {frame.board.map((card, index) => (
+              <PlayingCard key={index} card={card} />
+            ))}
+          </div>
+          {frame.extraBoards.map((runout, boardIndex) => (
+            <div key={boardIndex} className="flex gap-1" aria-label={`Board ${boardIndex + 2}`}>
+              {runout.map((card, index) => (
+                <PlayingCard key={index} card={card} small />
+              ))}
+            </div>
+          ))}
+          {frame.pot > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-900/70 text-yellow-300 transition-all duration-300">
+              Pot {money(frame.pot)}
+            </span>
+          )}
+        </div>
+
+        {Array.from({ length: seatCount }, (_, index) => index + 1).map((seatNumber) => {
+          const seat = seatsByNumber.get(seatNumber)
+          const seatPosition = seatPoint(seatNumber, bottomSeat, seatCount, 44, 42)
+          const betPosition = seatPoint(seatNumber, bottomSeat, seatCount, 28, 24)
+          const buttonPosition = seatPoint(seatNumber + 0.35, bottomSeat, seatCount, 30, 28)
+
+          return (
+            <div key={seatNumber}>
+              <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center"
+                style={seatPosition}
+              >
+                {seat ? (
+                  <>
+                    <div className={cn("flex gap-0.5 mb-0.5 transition-opacity", seat.folded && "opacity-20")}>
+                      {seat.holeCards.length > 0 ? (
+                        seat.holeCards.map((card, index) => <PlayingCard key={index} card={card} small />)
+                      ) : (
+                        Array.from({ length: VARIANT_RULES[hand.game.variant].holeCards }, (_, index) => (
+                          <PlayingCard key={index} small />
+                        ))
+                      )}
+                    </div>
+                    <div
+                      className={cn(
+                        "px-2 py-1 rounded-md border text-center min-w-20 transition-colors duration-300",
+                        frame.actor === seat.player
+                          ? "bg-blue-900 border-blue-500"
+                          : seat.won > 0
+                            ? "bg-green-900 border-green-500"
+                            : "bg-gray-900 border-gray-700",
+                        seat.folded && "opacity-50",
+                      )}
+                    >
+                      <p className="text-xs font-medium text-gray-200 truncate max-w-24">{seat.player}</p>
+                      <p className="text-xs text-gray-400">
+                        {seat.allIn && seat.stack <= 0 ? "All-in" : money(seat.stack)}
+                        <span className="ml-1 text-gray-500">{seat.position}</span>
+                      </p>
+                    </div>
+                  </>
+                ) : (
+                  <div className="w-12 h-8 rounded-md border border-dashed border-gray-700 text-xs text-gray-600 flex items-center justify-center">
+                    {seatNumber}
+                  </div>
+                )}
+              </div>
+
+              {seat && seat.bet > 0 && (
+                <span
+                  className="absolute -translate-x-1/2 -translate-y-1/2 text-xs px-1.5 py-0.5 rounded-full bg-yellow-500 text-gray-900 font-medium transition-all duration-300"
+                  style={betPosition}
+                >
+                  {money(seat.bet)}
+                </span>
+              )}
+
+              {seatNumber === hand.buttonSeat && (
+                <span
+                  className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-white text-gray-900 text-[10px] font-bold flex items-center justify-center"
+                  style={buttonPosition}
+                >
+                  D
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="text-center text-sm text-gray-300 min-h-5">{frame.description}</p>
+
+      <div className="flex justify-center items-center gap-1">
+        <Button variant="ghost" size="sm" onClick={() => setStep(0)} disabled={step === 0} aria-label="First step">
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setStep((prev) => Math.max(prev - 1, 0))}
+          disabled={step === 0}
+          aria-label="Step back"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={togglePlay} aria-label={isPlaying ? "Pause" : "Play"}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setStep((prev) => Math.min(prev + 1, lastStep))}
+          disabled={step >= lastStep}
+          aria-label="Step forward"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setStep(lastStep)}
+          disabled={step >= lastStep}
+          aria-label="Last step"
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+        <span className="ml-2 text-xs text-gray-500">
+          {step + 1}/{frames.length}
+        </span>
+      </div>
+
+      <div className="flex justify-center gap-1">
+        {STAGES.map(({ stage, label }) => (
+          <Button
+            key={stage}
+            variant="outline"
+            size="sm"
+            onClick={() => jumpTo(stage)}
+            disabled={!frames.some((candidate) => candidate.stage === stage)}
+            className={cn(
+              "h-7 px-2 text-xs border-gray-700",
+              frame.stage === stage ? "bg-gray-700 text-gray-100" : "text-gray-400",
+            )}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Loader2, Scissors, Trash2, X } from "lucide-react"
+import type { TranscriptSegment } from "@/lib/ai-provider"
+import { normalizeHandStarts, type HandBoundary } from "@/lib/hand-segmentation"
+
+interface HandSplitReviewProps {
+  segments: TranscriptSegment[]
+  // Where the AI or the cue phrases think each hand starts
+  boundaries: HandBoundary[]
+  // Progress text while the hands are being formatted
+  progress: string | null
+  onConfirm: (starts: number[]) => void
+  onDiscard: () => void
+}
+
+const formatTimestamp = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`
+
+export function HandSplitReview({ segments, boundaries, progress, onConfirm, onDiscard }: HandSplitReviewProps) {
+  const [starts, setStarts] = useState<number[]>([])
+
+  useEffect(() => {
+    setStarts(
+      normalizeHandStarts(
+        boundaries.map((boundary) => boundary.startSegment),
+        segments.length,
+      ),
+    )
+  }, [boundaries, segments])
+
+  const summaries = new Map(boundaries.map((boundary) => [boundary.startSegment, boundary.summary]))
+  const isFormatting = progress !== null
+
+  const toggleSplit = (index: number) => {
+    setStarts((prev) =>
+      prev.includes(index) ? prev.filter((start) => start !== index) : normalizeHandStarts([...prev, index], segments.length),
+    )
+  }
+
+  return (
+    <div className="w-full mb-6 p-4 bg-gray-900/50 rounded-lg">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <h3 className="text-sm font-medium text-gray-300">Review Hand Splits</h3>
+        <span className="text-xs text-gray-500">
+          {starts.length} hand{starts.length === 1 ? "" : "s"} found
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Check where each hand starts before formatting. Click between two lines to add or remove a split.
+      </p>
+
+      <div className="max-h-96 overflow-y-auto pr-1">
+        {segments.map((segment, index) => {
+          const handNumber = starts.indexOf(index)
+          return (
+            <div key={index}>
+              {handNumber !== -1 ? (
+                <div className="flex items-center gap-2 mt-3 mb-1 first:mt-0">
+                  <span className="text-xs font-medium text-blue-300 shrink-0">Hand {handNumber + 1}</span>
+                  {summaries.get(index) && <span className="text-xs text-gray-500 truncate">{summaries.get(index)}</span>}
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleSplit(index)}
+                      disabled={isFormatting}
+                      className="ml-auto h-6 px-2 text-xs text-gray-500 hover:text-red-300"
+                      aria-label={`Merge hand ${handNumber + 1} into the previous hand`}
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Merge
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => toggleSplit(index)}
+                  disabled={isFormatting}
+                  className="group w-full h-3 flex items-center disabled:cursor-not-allowed"
+                  aria-label={`Start a new hand at ${formatTimestamp(segment.start)}`}
+                >
+                  <span className="w-full border-t border-dashed border-transparent group-hover:border-blue-700 group-disabled:border-transparent" />
+                  <Scissors className="w-3 h-3 text-transparent group-hover:text-blue-400 group-disabled:text-transparent shrink-0" />
+                </button>
+              )}
+              <p className="flex gap-2 text-sm text-gray-300">
+                <span className="text-xs text-gray-500 font-mono pt-0.5 shrink-0">{formatTimestamp(segment.start)}</span>
+                <span>{segment.text}</span>
+              </p>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-4">
+        {isFormatting && (
+          <span className="mr-auto flex items-center text-xs text-gray-400">
+            <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+            {progress}
+          </span>
+        )}
+        <Button variant="ghost" size="sm" onClick={onDiscard} disabled={isFormatting} className="text-gray-400">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Discard
+        </Button>
+        <Button size="sm" onClick={() => onConfirm(starts)} disabled={isFormatting} className="bg-blue-600 hover:bg-blue-700">
+          Format {starts.length} Hand{starts.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  )
+}
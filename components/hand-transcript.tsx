@@ -0,0 +1,168 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { AlertCircle, Loader2, RefreshCw, RotateCcw } from "lucide-react"
+import { getTranscriptions, type TranscriptionRecord } from "@/lib/hand-library"
+import { cn } from "@/lib/utils"
+
+interface HandTranscriptProps {
+  handId: string
+  canReformat: boolean
+  // Formats the hand again from the edited text and saves it as a new version of the transcription
+  onReformat: (text: string, context: string) => Promise<void>
+}
+
+export function HandTranscript({ handId, canReformat, onReformat }: HandTranscriptProps) {
+  const [versions, setVersions] = useState<TranscriptionRecord[]>([])
+  const [selected, setSelected] = useState(0)
+  const [text, setText] = useState("")
+  const [context, setContext] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReformatting, setIsReformatting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const showVersion = (records: TranscriptionRecord[], index: number) => {
+    setSelected(index)
+    setText(records[index]?.text ?? "")
+    setContext(records[index]?.context ?? "")
+  }
+
+  // Loads every version, newest selected
+  const loadVersions = useCallback(async () => {
+    try {
+      const records = await getTranscriptions(handId)
+      setVersions(records)
+      showVersion(records, records.length - 1)
+    } catch (err) {
+      console.error("Error loading transcriptions:", err)
+      setError("The transcript for this hand could not be loaded.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [handId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const current = versions[selected]
+  const isChanged = text !== (current?.text ?? "") || context !== (current?.context ?? "")
+
+  const reformat = async () => {
+    setIsReformatting(true)
+    setError(null)
+    try {
+      await onReformat(text.trim(), context.trim())
+      await loadVersions()
+    } catch (err) {
+      console.error("Error re-formatting hand:", err)
+      setError(err instanceof Error ? err.message : "The hand could not be re-formatted.")
+    } finally {
+      setIsReformatting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-4 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Loading transcript...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {versions.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {versions.map((version, index) => (
+            <Button
+              key={version.id}
+              variant="outline"
+              size="sm"
+              onClick={() => showVersion(versions, index)}
+              className={cn(
+                "h-7 px-2 text-xs border-gray-700",
+                index === selected ? "bg-gray-700 text-gray-100" : "text-gray-400",
+              )}
+            >
+              {version.edited
+                ? `Edit ${versions.slice(0, index + 1).filter((earlier) => earlier.edited).length}`
+                : "Original"}{" "}
+              · {version.timestamp.toLocaleTimeString()}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {versions.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No transcript was saved with this hand. You can still type one in and format the hand from it.
+        </p>
+      )}
+
+      <div>
+        <Label htmlFor={`${handId}-context`} className="text-xs text-gray-400">
+          Game context
+        </Label>
+        <Textarea
+          id={`${handId}-context`}
+          value={context}
+          onChange={(e) => setContext(e.target.value)}
+          placeholder="Additional context: Game type: Cash Game. Stakes: $1/$2."
+          rows={2}
+          className="bg-gray-900 border-gray-700 text-sm"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${handId}-transcript`} className="text-xs text-gray-400">
+          Transcript
+        </Label>
+        <Textarea
+          id={`${handId}-transcript`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          className="bg-gray-900 border-gray-700 text-sm"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => showVersion(versions, selected)}
+          disabled={!isChanged || isReformatting}
+          className="text-gray-400"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Undo Changes
+        </Button>
+        <Button
+          size="sm"
+          onClick={reformat}
+          disabled={!canReformat || !text.trim() || isReformatting}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {isReformatting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          {isReformatting ? "Re-formatting..." : "Re-format Hand"}
+        </Button>
+      </div>
+    </div>
+  )
+}
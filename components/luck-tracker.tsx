@@ -0,0 +1,115 @@
+"use client"
+
+import { useMemo } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { StatTile } from "@/components/results-dashboard"
+import type { HandRecord, SessionRecord } from "@/lib/hand-library"
+import { computeLuck, type SessionLuck } from "@/lib/all-in-ev"
+import { formatResult, summarizeSession } from "@/lib/sessions"
+
+interface LuckTrackerProps {
+  hands: HandRecord[]
+  sessions: SessionRecord[]
+}
+
+const luckConfig = {
+  cumulativeActual: { label: "Actual winnings", color: "#3b82f6" },
+  cumulativeExpected: { label: "All-in EV winnings", color: "#f59e0b" },
+} satisfies ChartConfig
+
+// Sums this small are rounding, not luck
+const LUCK_THRESHOLD = 0.5
+
+// Puts a session's result next to its luck, e.g. whether a losing night was down to the cards
+function describeLuck(luck: SessionLuck, currency: string): string {
+  if (luck.allInHands === 0) return "No all-ins before the river"
+  if (Math.abs(luck.luck) < LUCK_THRESHOLD) return "Ran right at equity in all-ins"
+  return `${luck.luck < 0 ? "Ran bad" : "Ran good"} in all-ins: ${formatResult(luck.luck, currency)} against equity`
+}
+
+export function LuckTracker({ hands, sessions }: LuckTrackerProps) {
+  const luck = useMemo(() => computeLuck(hands), [hands])
+  const currency = hands.find((record) => record.hand.game.type === "cash")?.hand.game.currency ?? "$"
+  const sessionsById = new Map(sessions.map((session) => [session.id, session]))
+
+  if (luck.points.length === 0) return null
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-200">All-in Luck</h3>
+        <p className="text-xs text-gray-500">
+          Compares what you won in your recorded cash hands with what your all-ins before the river were worth.
+          Hands without an all-in count the same either way.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <StatTile label="Actual winnings" value={formatResult(luck.actual, currency)} positive={luck.actual >= 0} />
+        <StatTile label="All-in EV winnings" value={formatResult(luck.expected, currency)} positive={luck.expected >= 0} />
+        <StatTile
+          label={`Luck over ${luck.allInHands} all-in${luck.allInHands === 1 ? "" : "s"}`}
+          value={formatResult(luck.luck, currency)}
+          positive={luck.luck >= 0}
+        />
+      </div>
+
+      <div className="p-4 bg-gray-900/50 rounded-lg">
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Actual vs All-in EV</h4>
+        <ChartContainer config={luckConfig} className="aspect-[2/1] w-full">
+          <LineChart data={luck.points}>
+            <CartesianGrid vertical={false} stroke="#374151" />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} hide />
+            <YAxis tickLine={false} axisLine={false} width={50} />
+            <ChartTooltip
+              content={<ChartTooltipContent formatter={(value) => formatResult(Number(value), currency)} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line dataKey="cumulativeActual" type="monotone" stroke="var(--color-cumulativeActual)" strokeWidth={2} dot={false} />
+            <Line
+              dataKey="cumulativeExpected"
+              type="monotone"
+              stroke="var(--color-cumulativeExpected)"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div className="p-4 bg-gray-900/50 rounded-lg">
+        <h4 className="text-sm font-medium text-gray-300 mb-3">By Session</h4>
+        <ul className="space-y-2 text-sm">
+          {[...luck.sessions].reverse().map((sessionLuck) => {
+            const session = sessionLuck.sessionId ? sessionsById.get(sessionLuck.sessionId) : undefined
+            const net = session ? summarizeSession(session).net : null
+            return (
+              <li key={sessionLuck.sessionId ?? "none"} className="flex justify-between gap-4">
+                <div>
+                  <p className="text-gray-300">
+                    {session
+                      ? `${session.startedAt.toLocaleDateString()} ${session.venue}`
+                      : sessionLuck.sessionId
+                        ? "Deleted session"
+                        : "Outside a session"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {sessionLuck.hands} hand{sessionLuck.hands === 1 ? "" : "s"}
+                    {net !== null && ` • session result ${formatResult(net, currency)}`} •{" "}
+                    {describeLuck(sessionLuck, currency)}
+                  </p>
+                </div>
+                <div className="text-right text-xs shrink-0">
+                  <p className="text-gray-300">{formatResult(sessionLuck.actual, currency)} actual</p>
+                  <p className="text-gray-500">{formatResult(sessionLuck.expected, currency)} EV</p>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { PLAYER_COLORS, type PlayerColor, type PlayerProfile } from "@/lib/hand-library"
+import { cn } from "@/lib/utils"
+
+export const PLAYER_COLOR_CLASSES: Record<PlayerColor, string> = {
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  yellow: "bg-yellow-500",
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+}
+
+const TENDENCIES = ["Tight", "Loose", "Passive", "Aggressive", "Calling station", "Nit", "Maniac", "Bluffer", "Reg", "Recreational"]
+
+interface PlayerProfilesProps {
+  profiles: PlayerProfile[]
+  onSave: (profile: PlayerProfile) => void
+  onDelete: (id: string) => void
+}
+
+const newProfile = (): PlayerProfile => ({
+  id: `player-${Date.now()}`,
+  name: "",
+  aliases: [],
+  notes: "",
+  color: null,
+  tendencies: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+export function PlayerProfiles({ profiles, onSave, onDelete }: PlayerProfilesProps) {
+  const [editing, setEditing] = useState<PlayerProfile | null>(null)
+  const [aliasText, setAliasText] = useState("")
+
+  const openEditor = (profile: PlayerProfile) => {
+    setEditing(profile)
+    setAliasText(profile.aliases.join(", "))
+  }
+
+  const saveEditing = () => {
+    if (!editing || !editing.name.trim()) return
+    onSave({
+      ...editing,
+      name: editing.name.trim(),
+      aliases: aliasText
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+    })
+    setEditing(null)
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-medium text-gray-300">Player Profiles</h3>
+        <Button variant="outline" size="sm" onClick={() => openEditor(newProfile())} className="text-gray-300 border-gray-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Player
+        </Button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add the regulars you play with. Names and aliases mentioned in your recordings are linked to their profile.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="p-3 bg-gray-900/50 rounded-lg flex items-start gap-3">
+              <span
+                className={cn(
+                  "w-3 h-3 rounded-full mt-1.5 shrink-0",
+                  profile.color ? PLAYER_COLOR_CLASSES[profile.color] : "bg-gray-600",
+                )}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-300">{profile.name}</p>
+                {profile.aliases.length > 0 && (
+                  <p className="text-xs text-gray-500">aka {profile.aliases.join(", ")}</p>
+                )}
+                {profile.tendencies.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {profile.tendencies.map((tendency) => (
+                      <span
+                        key={tendency}
+                        className="text-xs px-2 py-0.5 bg-gray-800 rounded-full text-gray-300 border border-gray-700"
+                      >
+                        {tendency}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {profile.notes && <p className="mt-1 text-sm text-gray-400 whitespace-pre-wrap">{profile.notes}</p>}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openEditor(profile)}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-900/20"
+                  aria-label={`Edit ${profile.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete(profile.id)}
+                  className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                  aria-label={`Delete ${profile.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-gray-900 border-gray-700 text-gray-300">
+          <DialogHeader>
+            <DialogTitle>{profiles.some((profile) => profile.id === editing?.id) ? "Edit Player" : "Add Player"}</DialogTitle>
+            <DialogDescription>Notes and names are shared with the formatter to label seats consistently.</DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="player-name">Name</Label>
+                <Input
+                  id="player-name"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  placeholder="e.g. Mike"
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div>
+                <Label htmlFor="player-aliases">Aliases</Label>
+                <Input
+                  id="player-aliases"
+                  value={aliasText}
+                  onChange={(e) => setAliasText(e.target.value)}
+                  placeholder="e.g. the guy in the red hat, Big Mike"
+                  className="bg-gray-800 border-gray-700"
+                />
+                <p className="mt-1 text-xs text-gray-500">Separate aliases with commas</p>
+              </div>
+              <div>
+                <Label>Color</Label>
+                <div className="flex gap-2 mt-1">
+                  {PLAYER_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setEditing({ ...editing, color: editing.color === color ? null : color })}
+                      className={cn(
+                        "w-6 h-6 rounded-full border-2",
+                        PLAYER_COLOR_CLASSES[color],
+                        editing.color === color ? "border-white" : "border-transparent",
+                      )}
+                      aria-label={color}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Tendencies</Label>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {TENDENCIES.map((tendency) => {
+                    const selected = editing.tendencies.includes(tendency)
+                    return (
+                      <button
+                        key={tendency}
+                        type="button"
+                        onClick={() =>
+                          setEditing({
+                            ...editing,
+                            tendencies: selected
+                              ? editing.tendencies.filter((existing) => existing !== tendency)
+                              : [...editing.tendencies, tendency],
+                          })
+                        }
+                        className={cn(
+                          "text-xs px-2 py-1 rounded-full border",
+                          selected ? "bg-blue-900/50 border-blue-700 text-blue-200" : "border-gray-700 text-gray-400",
+                        )}
+                      >
+                        {tendency}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="player-notes">Notes</Label>
+                <Textarea
+                  id="player-notes"
+                  value={editing.notes}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  placeholder="e.g. Overbets the river with missed draws"
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} className="border-gray-700">
+              Cancel
+            </Button>
+            <Button onClick={saveEditing} disabled={!editing?.name.trim()} className="bg-blue-600 hover:bg-blue-700">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import type { Hand } from "@/lib/hand"
+import { computePlayerStats, statPercent, type PlayerStats, type StatCount } from "@/lib/player-stats"
+import { cn } from "@/lib/utils"
+
+interface PlayerStatsTableProps {
+  hands: Hand[]
+}
+
+type ColumnKey = "player" | "hands" | "vpip" | "pfr" | "threeBet" | "foldToThreeBet" | "cbet" | "aggressionFactor" | "wtsd" | "wsd"
+
+const COLUMNS: { key: ColumnKey; label: string; title: string }[] = [
+  { key: "player", label: "Player", title: "Player name" },
+  { key: "hands", label: "Hands", title: "Recorded hands" },
+  { key: "vpip", label: "VPIP", title: "Voluntarily put money in the pot preflop" },
+  { key: "pfr", label: "PFR", title: "Raised preflop" },
+  { key: "threeBet", label: "3B", title: "3-bet when facing an open raise" },
+  { key: "foldToThreeBet", label: "F3B", title: "Folded to a 3-bet after opening" },
+  { key: "cbet", label: "CB", title: "Continuation bet on the flop as the preflop aggressor" },
+  { key: "aggressionFactor", label: "AF", title: "Postflop bets and raises per call" },
+  { key: "wtsd", label: "WTSD", title: "Went to showdown after seeing the flop" },
+  { key: "wsd", label: "W$SD", title: "Won money at showdown" },
+]
+
+// The value a column sorts by, with missing stats sorted last
+function sortValue(stats: PlayerStats, key: ColumnKey): number | string {
+  if (key === "player") return stats.player.toLowerCase()
+  if (key === "hands") return stats.hands
+  if (key === "aggressionFactor") return stats.aggressionFactor ?? -1
+  return statPercent(stats[key]) ?? -1
+}
+
+function StatCell({ stat }: { stat: StatCount }) {
+  const percent = statPercent(stat)
+  return (
+    <TableCell className="p-2 text-right">
+      {percent === null ? (
+        <span className="text-gray-600">-</span>
+      ) : (
+        <>
+          <span className="text-gray-300">{Math.round(percent)}</span>
+          <span className="ml-1 text-xs text-gray-500">
+            {stat.count}/{stat.opportunities}
+          </span>
+        </>
+      )}
+    </TableCell>
+  )
+}
+
+export function PlayerStatsTable({ hands }: PlayerStatsTableProps) {
+  const [sortKey, setSortKey] = useState<ColumnKey>("hands")
+  const [descending, setDescending] = useState(true)
+
+  const stats = useMemo(() => computePlayerStats(hands), [hands])
+
+  const sorted = useMemo(() => {
+    return [...stats].sort((a, b) => {
+      const left = sortValue(a, sortKey)
+      const right = sortValue(b, sortKey)
+      const order = left < right ? -1 : left > right ? 1 : 0
+      return descending ? -order : order
+    })
+  }, [stats, sortKey, descending])
+
+  const toggleSort = (key: ColumnKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev)
+    } else {
+      setSortKey(key)
+      setDescending(key !== "player")
+    }
+  }
+
+  if (stats.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-gray-400">
+        <p>No player stats yet</p>
+        <p className="mt-2 text-xs text-gray-500">Stats are built from the actions in your recorded hands</p>
+      </div>
+    )
+  }
+
+  return (
+    <Table>
+      <TableCaption className="text-xs text-gray-500">
+        Percentages with the sample size, count/opportunities. Small samples are unreliable.
+      </TableCaption>
+      <TableHeader>
+        <TableRow className="border-gray-700 hover:bg-transparent">
+          {COLUMNS.map((column) => (
+            <TableHead
+              key={column.key}
+              title={column.title}
+              onClick={() => toggleSort(column.key)}
+              className={cn(
+                "p-2 h-10 cursor-pointer select-none text-gray-400 hover:text-gray-200",
+                column.key !== "player" && "text-right",
+              )}
+            >
+              <span className="inline-flex items-center gap-1">
+                {column.label}
+                {sortKey === column.key &&
+                  (descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+              </span>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map((row) => (
+          <TableRow key={row.player} className="border-gray-800 hover:bg-gray-800/30">
+            <TableCell className="p-2 font-medium text-gray-300">{row.player}</TableCell>
+            <TableCell className="p-2 text-right text-gray-300">{row.hands}</TableCell>
+            <StatCell stat={row.vpip} />
+            <StatCell stat={row.pfr} />
+            <StatCell stat={row.threeBet} />
+            <StatCell stat={row.foldToThreeBet} />
+            <StatCell stat={row.cbet} />
+            <TableCell className="p-2 text-right text-gray-300">
+              {row.aggressionFactor === null ? <span className="text-gray-600">-</span> : row.aggressionFactor.toFixed(1)}
+            </TableCell>
+            <StatCell stat={row.wtsd} />
+            <StatCell stat={row.wsd} />
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
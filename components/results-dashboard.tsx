@@ -0,0 +1,163 @@
+"use client"
+
+import { useMemo } from "react"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { SessionRecord } from "@/lib/hand-library"
+import { computeResults, LIVE_HANDS_PER_HOUR, type ResultGroup } from "@/lib/results"
+import { formatDuration, formatResult } from "@/lib/sessions"
+import { cn } from "@/lib/utils"
+
+interface ResultsDashboardProps {
+  sessions: SessionRecord[]
+}
+
+const profitConfig = {
+  cumulative: { label: "Cumulative profit", color: "#3b82f6" },
+} satisfies ChartConfig
+
+const drawdownConfig = {
+  drawdown: { label: "Drawdown", color: "#ef4444" },
+} satisfies ChartConfig
+
+const groupConfig = {
+  net: { label: "Net result", color: "#a855f7" },
+} satisfies ChartConfig
+
+export function StatTile({ label, value, positive }: { label: string; value: string; positive?: boolean }) {
+  return (
+    <div className="p-3 bg-gray-900/50 rounded-lg">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p
+        className={cn(
+          "text-lg font-medium",
+          positive === undefined ? "text-gray-300" : positive ? "text-green-400" : "text-red-400",
+        )}
+      >
+        {value}
+      </p>
+    </div>
+  )
+}
+
+function GroupChart({ title, groups, currency }: { title: string; groups: ResultGroup[]; currency: string }) {
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg">
+      <h4 className="text-sm font-medium text-gray-300 mb-3">{title}</h4>
+      <ChartContainer config={groupConfig} className="aspect-[2/1] w-full">
+        <BarChart data={groups}>
+          <CartesianGrid vertical={false} stroke="#374151" />
+          <XAxis dataKey="name" tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={50} />
+          <ChartTooltip
+            content={<ChartTooltipContent formatter={(value) => formatResult(Number(value), currency)} />}
+          />
+          <Bar dataKey="net" radius={4}>
+            {groups.map((group) => (
+              <Cell key={group.name} fill={group.net >= 0 ? "#22c55e" : "#ef4444"} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <ul className="mt-2 space-y-1 text-xs text-gray-400">
+        {groups.map((group) => (
+          <li key={group.name} className="flex justify-between">
+            <span>
+              {group.name} • {group.sessions} session{group.sessions === 1 ? "" : "s"} • {formatDuration(group.hours)}
+            </span>
+            <span>{group.hourlyRate !== null ? `${formatResult(group.hourlyRate, currency)}/h` : "-"}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function ResultsDashboard({ sessions }: ResultsDashboardProps) {
+  const results = useMemo(() => computeResults(sessions), [sessions])
+  const currency = sessions.find((session) => session.settings?.currency)?.settings?.currency || "$"
+
+  if (results.points.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-gray-400">
+        <p>No finished sessions yet</p>
+        <p className="mt-2 text-xs text-gray-500">Start a session on the Record tab and cash out to see your results</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <StatTile label="Net result" value={formatResult(results.totalNet, currency)} positive={results.totalNet >= 0} />
+        <StatTile
+          label="Hourly rate"
+          value={results.hourlyRate !== null ? `${formatResult(results.hourlyRate, currency)}/h` : "-"}
+          positive={results.hourlyRate !== null ? results.hourlyRate >= 0 : undefined}
+        />
+        <StatTile
+          label="bb/100 (estimated)"
+          value={results.bbPer100 !== null ? results.bbPer100.toFixed(1) : "-"}
+          positive={results.bbPer100 !== null ? results.bbPer100 >= 0 : undefined}
+        />
+        <StatTile
+          label="Biggest downswing"
+          value={formatResult(results.maxDrawdown, currency)}
+          positive={results.maxDrawdown >= 0}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {results.points.length} session{results.points.length === 1 ? "" : "s"} • {formatDuration(results.totalHours)}{" "}
+        played
+      </p>
+      {results.bbPer100 !== null && (
+        <p className="text-xs text-gray-500">
+          Sessions don&apos;t record how many hands were dealt, so bb/100 assumes {LIVE_HANDS_PER_HOUR} hands an hour, about{" "}
+          {Math.round(results.estimatedHands)} hands in cash games
+        </p>
+      )}
+
+      <div className="p-4 bg-gray-900/50 rounded-lg">
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Cumulative Profit</h4>
+        <ChartContainer config={profitConfig} className="aspect-[2/1] w-full">
+          <LineChart data={results.points}>
+            <CartesianGrid vertical={false} stroke="#374151" />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} hide />
+            <YAxis tickLine={false} axisLine={false} width={50} />
+            <ChartTooltip
+              content={<ChartTooltipContent formatter={(value) => formatResult(Number(value), currency)} />}
+            />
+            <Line dataKey="cumulative" type="monotone" stroke="var(--color-cumulative)" strokeWidth={2} dot />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div className="p-4 bg-gray-900/50 rounded-lg">
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Drawdown</h4>
+        <ChartContainer config={drawdownConfig} className="aspect-[3/1] w-full">
+          <AreaChart data={results.points}>
+            <CartesianGrid vertical={false} stroke="#374151" />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} hide />
+            <YAxis tickLine={false} axisLine={false} width={50} />
+            <ChartTooltip
+              content={<ChartTooltipContent formatter={(value) => formatResult(Number(value), currency)} />}
+            />
+            <Area
+              dataKey="drawdown"
+              type="stepAfter"
+              stroke="var(--color-drawdown)"
+              fill="var(--color-drawdown)"
+              fillOpacity={0.3}
+            />
+          </AreaChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <GroupChart title="By Stake" groups={results.byStake} currency={currency} />
+        <GroupChart title="By Game Type" groups={results.byGameType} currency={currency} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Play, Square, Plus, MapPin } from "lucide-react"
+import type { SessionRecord } from "@/lib/hand-library"
+import { describeSessionGame, formatDuration, summarizeSession } from "@/lib/sessions"
+import type { GameSettingsType } from "@/components/game-settings"
+
+interface SessionPanelProps {
+  activeSession: SessionRecord | null
+  gameSettings: GameSettingsType | null
+  handCount: number
+  onStart: (venue: string, buyIn: number) => void
+  onRebuy: (amount: number) => void
+  onEnd: (cashOut: number) => void
+}
+
+// Accepts "200", "$200" or "1,500"
+const parseMoney = (value: string) => parseFloat(value.replace(/[^0-9.]/g, ""))
+
+export function SessionPanel({ activeSession, gameSettings, handCount, onStart, onRebuy, onEnd }: SessionPanelProps) {
+  const [venue, setVenue] = useState("")
+  const [buyIn, setBuyIn] = useState("")
+  const [rebuy, setRebuy] = useState("")
+  const [cashOut, setCashOut] = useState("")
+  const [now, setNow] = useState(() => new Date())
+
+  // Keep the running duration up to date while a session is open
+  useEffect(() => {
+    if (!activeSession) return
+    const interval = setInterval(() => setNow(new Date()), 30_000)
+    return () => clearInterval(interval)
+  }, [activeSession])
+
+  const currency = activeSession?.settings?.currency || gameSettings?.currency || "$"
+
+  if (!activeSession) {
+    return (
+      <div className="w-full mb-6 p-4 bg-gray-900/50 rounded-lg">
+        <h3 className="text-sm font-medium text-gray-300 mb-3">Start a Session</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem_auto] gap-2 items-end">
+          <div>
+            <Label htmlFor="session-venue" className="text-xs text-gray-400">
+              Venue
+            </Label>
+            <Input
+              id="session-venue"
+              value={venue}
+              onChange={(e) => setVenue(e.target.value)}
+              placeholder="e.g. Bellagio"
+              className="bg-gray-800 border-gray-700"
+            />
+          </div>
+          <div>
+            <Label htmlFor="session-buy-in" className="text-xs text-gray-400">
+              Buy-in ({currency})
+            </Label>
+            <Input
+              id="session-buy-in"
+              inputMode="decimal"
+              value={buyIn}
+              onChange={(e) => setBuyIn(e.target.value)}
+              placeholder="200"
+              className="bg-gray-800 border-gray-700"
+            />
+          </div>
+          <Button
+            onClick={() => {
+              onStart(venue.trim() || "Unnamed venue", parseMoney(buyIn) || 0)
+              setVenue("")
+              setBuyIn("")
+            }}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start
+          </Button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Hands you record are grouped into the session. The game comes from your Game Setup.
+        </p>
+      </div>
+    )
+  }
+
+  const summary = summarizeSession(activeSession, now)
+
+  return (
+    <div className="w-full mb-6 p-4 bg-gray-900/50 rounded-lg border border-blue-900/50">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-300 flex items-center">
+            <MapPin className="w-4 h-4 mr-1 text-blue-400" />
+            {activeSession.venue}
+          </h3>
+          <p className="text-xs text-gray-500">
+            {describeSessionGame(activeSession)} • {formatDuration(summary.durationHours)} • {handCount} hand
+            {handCount === 1 ? "" : "s"}
+          </p>
+        </div>
+        <span className="text-xs px-2 py-1 bg-blue-950/50 rounded-full text-blue-300 border border-blue-900">
+          In for {currency}
+          {summary.invested}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="flex gap-2">
+          <Input
+            inputMode="decimal"
+            value={rebuy}
+            onChange={(e) => setRebuy(e.target.value)}
+            placeholder="Rebuy amount"
+            aria-label="Rebuy amount"
+            className="bg-gray-800 border-gray-700"
+          />
+          <Button
+            variant="outline"
+            disabled={!(parseMoney(rebuy) > 0)}
+            onClick={() => {
+              onRebuy(parseMoney(rebuy))
+              setRebuy("")
+            }}
+            className="text-gray-300 border-gray-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Rebuy
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            inputMode="decimal"
+            value={cashOut}
+            onChange={(e) => setCashOut(e.target.value)}
+            placeholder="Cash-out amount"
+            aria-label="Cash-out amount"
+            className="bg-gray-800 border-gray-700"
+          />
+          <Button
+            variant="outline"
+            disabled={cashOut.trim() === "" || isNaN(parseMoney(cashOut))}
+            onClick={() => {
+              onEnd(parseMoney(cashOut))
+              setCashOut("")
+            }}
+            className="text-red-400 border-gray-700 hover:bg-red-900/20 hover:text-red-300"
+          >
+            <Square className="w-4 h-4 mr-1" />
+            End
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,36 +1,232 @@
 "use client"
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
-import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from "@/components/ui/accordion"
+import { Accordion } from "@/components/ui/accordion"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 import { cn } from "@/lib/utils"
-import { transcribeAudio, formatHandHistory } from "@/lib/transcription"
-import { Loader2, StopCircle, Mic, Volume2, Save, Trash2, Copy, AlertCircle, Settings, XCircle, Activity, X } from "lucide-react"
-import { GameSettings } from "@/components/game-settings"
+import {
+  transcribeAudio,
+  formatHandHistory,
+  segmentHands,
+  type FormatOptions,
+  type KnownPlayer,
+} from "@/lib/transcription"
+import { validateHand, type HandIssue, type ValidationStakes } from "@/lib/hand-validator"
+import { renderHandHistory } from "@/lib/hand-history"
+import { allInEquityInBackground } from "@/lib/background-equity"
+import { gameVariantLabel, type Hand } from "@/lib/hand"
+import {
+  Loader2,
+  StopCircle,
+  Mic,
+  Volume2,
+  Save,
+  Trash2,
+  AlertCircle,
+  Settings,
+  XCircle,
+  X,
+  LineChart,
+  Users,
+  Pause,
+  Play,
+  Tag,
+  Calculator,
+} from "lucide-react"
+import { GameSettings, type GameSettingsType } from "@/components/game-settings"
+import { HandCard } from "@/components/hand-card"
+import { SessionPanel } from "@/components/session-panel"
+import { ResultsDashboard } from "@/components/results-dashboard"
+import { LuckTracker } from "@/components/luck-tracker"
+import { PlayerStatsTable } from "@/components/player-stats-table"
+import { EquityCalculator } from "@/components/equity-calculator"
+import { PlayerProfiles } from "@/components/player-profiles"
+import { AudioUpload, type UploadStage } from "@/components/audio-upload"
+import { HandSplitReview } from "@/components/hand-split-review"
+import { useHandLibrary } from "@/hooks/use-hand-library"
+import { useSessions } from "@/hooks/use-sessions"
+import { usePlayerProfiles } from "@/hooks/use-player-profiles"
+import { useVoiceCommands } from "@/hooks/use-voice-commands"
+import { useVocabulary } from "@/hooks/use-vocabulary"
+import { VocabularySettings } from "@/components/vocabulary-settings"
+import type { HandRecord, PlayerProfile, SessionRecord } from "@/lib/hand-library"
+import { findMentionedPlayers } from "@/lib/player-matching"
+import { DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL, type ProviderSettings, type TranscriptSegment } from "@/lib/ai-provider"
+import { sliceAudio } from "@/lib/audio-chunks"
+import { TRANSCRIPTION_UPLOAD_LIMIT_BYTES } from "@/lib/audio-files"
+import { SPEECH_LEVEL, trimSilence } from "@/lib/voice-activity"
+import { normalizeTranscript, type VocabularyEntry } from "@/lib/poker-vocabulary"
+import { detectPauseStarts, splitAtSentences, splitTranscript, type HandBoundary, type HandSplit } from "@/lib/hand-segmentation"
+import type { VoiceCommand } from "@/lib/voice-commands"
+import { describeSessionGame, formatDuration, formatResult, summarizeSession } from "@/lib/sessions"
 import { z } from "zod"
 
-// Define a type for game settings
-type GameSettingsType = {
-  gameType?: "cash" | "tournament"
-  tableSize?: string
-  smallBlind?: string
-  bigBlind?: string
-  ante?: string
-  buyIn?: string
-  startingStack?: string
-  currency?: string
-  aiModel?: "gpt-3.5-turbo" | "gpt-4o" | "o1" | "o3-mini"
+// Blinds and antes from the game settings, used to check formatted hands
+function settingsStakes(settings: GameSettingsType | null): ValidationStakes {
+  const stakes: ValidationStakes = {}
+  if (settings?.gameType === "cash") {
+    const toNumber = (value?: string) => (value && !isNaN(parseFloat(value)) ? parseFloat(value) : undefined)
+    stakes.smallBlind = toNumber(settings.smallBlind)
+    stakes.bigBlind = toNumber(settings.bigBlind)
+    stakes.ante = toNumber(settings.ante)
+  }
+  return stakes
+}
+
+// The AI backend chosen in the settings, with the key or local server addresses the routes need
+function providerSettings(settings: GameSettingsType | null, apiKey: string): ProviderSettings {
+  if (settings?.aiProvider === "local") {
+    return {
+      provider: "local",
+      baseUrl: settings.localBaseUrl || undefined,
+      transcriptionUrl: settings.localTranscriptionUrl || undefined,
+      model: settings.localModel || undefined,
+    }
+  }
+  return { provider: "openai", apiKey }
+}
+
+// Every saved player by name, with notes and tendencies only for the players mentioned in this transcription
+function knownPlayers(transcription: string, profiles: PlayerProfile[]): KnownPlayer[] {
+  const mentioned = new Set(findMentionedPlayers(transcription, profiles).map((profile) => profile.id))
+  return profiles.map((profile) => ({
+    name: profile.name,
+    aliases: profile.aliases,
+    notes: mentioned.has(profile.id) ? profile.notes || undefined : undefined,
+    tendencies: mentioned.has(profile.id) && profile.tendencies.length > 0 ? profile.tendencies : undefined,
+  }))
 }
 
+// Words the speech model should spell right: the user's custom vocabulary and every saved player's name
+function vocabularyTerms(vocabulary: VocabularyEntry[], profiles: PlayerProfile[]): string[] {
+  return [...vocabulary.map((entry) => entry.written), ...profiles.map((profile) => profile.name)]
+}
+
+// Options passed to the format route so it can check and auto-correct the hand
+function formatOptions(settings: GameSettingsType | null, transcription: string, profiles: PlayerProfile[]): FormatOptions {
+  return {
+    stakes: settingsStakes(settings),
+    maxAttempts: settings?.repairAttempts ? parseInt(settings.repairAttempts) : undefined,
+    knownPlayers: knownPlayers(transcription, profiles),
+  }
+}
+
+// Describes the game settings for the formatter, so it can fill in what wasn't said
+function gameContext(settings: GameSettingsType | null): string {
+  if (!settings) return ""
+
+  const { gameType, variant, tableSize, smallBlind, bigBlind, ante, startingStack, currency } = settings
+  const { anteType, straddle, bombPots, bombPotAmount, runItTwice } = settings
+
+  // Add game settings context to the transcription
+  let settingsContext = "Additional context: "
+
+  if (gameType) {
+    settingsContext += `Game type: ${gameType === "cash" ? "Cash Game" : "Tournament"}. `
+  }
+
+  if (variant === "mixed") {
+    settingsContext += "Game: mixed games, the variant changes from hand to hand. "
+  } else if (variant) {
+    settingsContext += `Game: ${gameVariantLabel(variant)}. `
+  }
+
+  if (gameType === "cash" && smallBlind && bigBlind) {
+    settingsContext += `Stakes: ${currency || "$"}${smallBlind}/${currency || "$"}${bigBlind}. `
+
+    if (ante && ante !== "0") {
+      const poster = anteType === "button" ? "the button" : anteType === "big-blind" ? "the big blind" : null
+      settingsContext += `Ante: ${currency || "$"}${ante}${poster ? `, posted by ${poster} for the table` : ""}. `
+    }
+  }
+
+  if (straddle === "utg") {
+    settingsContext += "Under the gun straddles are played. "
+  } else if (straddle === "mississippi") {
+    settingsContext += "Mississippi straddles are played, from any seat and usually the button. "
+  }
+
+  if (bombPots && bombPots !== "off") {
+    const amount = bombPotAmount ? ` of ${currency || "$"}${bombPotAmount} each` : ""
+    settingsContext += `Bomb pots${amount} are played${bombPots === "double" ? " with two boards" : ""}. `
+  }
+
+  if (runItTwice === "on") {
+    settingsContext += "Players may run it twice. "
+  }
+
+  if (tableSize) {
+    settingsContext += `${tableSize}-max table. `
+  }
+
+  if (startingStack) {
+    settingsContext += `Starting stack: ${startingStack}${gameType === "cash" ? "BB" : " chips"}. `
+  }
+
+  return settingsContext.trim()
+}
+
+// Prepends the game settings to a transcription so the formatter can fill in what wasn't said
+function withSettingsContext(transcription: string, context: string): string {
+  return context ? `${context}\n\n${transcription}` : transcription
+}
+
+// Cuts the silence off both ends of a recording before it's transcribed, unless the settings turn that off
+async function withoutSilence(
+  blob: Blob,
+  fileName: string,
+  settings: GameSettingsType | null,
+): Promise<{ audio: Blob; fileName: string } | null> {
+  // Recordings too big for one upload are split at pauses anyway
+  if (settings?.trimSilence === "off" || blob.size > TRANSCRIPTION_UPLOAD_LIMIT_BYTES) {
+    return { audio: blob, fileName }
+  }
+
+  const audio = await trimSilence(blob)
+  if (!audio) return null
+  // A trimmed recording is re-encoded as WAV, and the extension tells the server the format
+  return { audio, fileName: audio === blob ? fileName : fileName.replace(/\.\w+$/, "") + ".wav" }
+}
+
+const NO_SPEECH_ERROR = "No speech was detected in the recording"
+
+// Seconds from a silence setting like "5", or null when it's off
+const silenceSeconds = (value?: string) => (value && value !== "off" ? parseInt(value) : null)
+
 export function Transcriber() {
   const [isRecording, setIsRecording] = useState(false)
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null)
   const [transcription, setTranscription] = useState("")
-  const [formattedHands, setFormattedHands] = useState<{ id: string; text: string; timestamp: Date }[]>([])
+  const {
+    hands: formattedHands,
+    analyses,
+    isLoading: isLibraryLoading,
+    error: libraryError,
+    addHand,
+    removeHand,
+    clearHands,
+    storeAnalysis,
+    reviseHand,
+    updateHand,
+  } = useHandLibrary()
+  const { sessions, activeSession, startSession, addRebuy, endSession, removeSession } = useSessions()
+  const { profiles, saveProfile, removeProfile } = usePlayerProfiles()
+  const { vocabulary, saveVocabulary } = useVocabulary()
   const [isProcessing, setIsProcessing] = useState(false)
   const [recordingTime, setRecordingTime] = useState(0)
   const [copied, setCopied] = useState<string | null>(null)
@@ -40,7 +236,21 @@ export function Transcriber() {
     start: 0,
     isProcessing: false,
   })
-  const [processingQueue, setProcessingQueue] = useState<{ blob: Blob; start: number; end: number }[]>([])
+  const [processingQueue, setProcessingQueue] = useState<{ blob: Blob; start: number; end: number; tags: string[] }[]>([])
+  // Hands-free control of continuous recording
+  const [voiceCommandsEnabled, setVoiceCommandsEnabled] = useState(false)
+  const [lastVoiceCommand, setLastVoiceCommand] = useState<string | null>(null)
+  const [isPaused, setIsPaused] = useState(false)
+  // Tags for the hand currently being recorded
+  const [segmentTags, setSegmentTags] = useState<string[]>([])
+  // One recording of several hands, split into hands after it's transcribed
+  const [autoSplitMode, setAutoSplitMode] = useState(false)
+  const [pendingSplit, setPendingSplit] = useState<{
+    blob: Blob
+    segments: TranscriptSegment[]
+    boundaries: HandBoundary[]
+  } | null>(null)
+  const [splitProgress, setSplitProgress] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<string>("record")
 
   // Add a cancellation flag
@@ -53,6 +263,17 @@ export function Transcriber() {
   const [apiKey, setApiKey] = useState<string>("")
   const [apiKeyStatus, setApiKeyStatus] = useState<"unset" | "set" | "validating" | "invalid">("unset")
   const [apiKeyError, setApiKeyError] = useState<string | null>(null)
+  const [localServerStatus, setLocalServerStatus] = useState<"unknown" | "checking" | "ok" | "error">("unknown")
+
+  // A local server needs no key, so recording is only blocked on a missing OpenAI key
+  const isLocalProvider = gameSettings?.aiProvider === "local"
+  const isProviderReady = isLocalProvider || apiKeyStatus === "set"
+  const provider = useMemo(() => providerSettings(gameSettings, apiKey), [gameSettings, apiKey])
+
+  // A new server address hasn't been tested yet
+  useEffect(() => {
+    setLocalServerStatus("unknown")
+  }, [provider])
 
   // Recording state and errors
   const [recordingError, setRecordingError] = useState<string | null>(null)
@@ -71,6 +292,19 @@ export function Transcriber() {
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const micStreamRef = useRef<MediaStream | null>(null)
+  // When speech was last heard, for voice activity detection
+  const speechRef = useRef({ heard: false, lastAt: 0 })
+  // The audio meter runs outside React's render cycle, so it calls the latest level handler through this
+  const audioLevelHandlerRef = useRef<(level: number) => void>(() => {})
+  // Set just before the recorder is stopped at the end of a hand in continuous mode, so the stop handler knows
+  // whether to queue the hand, throw it away, and start recording the next one
+  const segmentEndRef = useRef<{
+    start: number
+    end: number
+    tags: string[]
+    discard: boolean
+    restart: boolean
+  } | null>(null)
 
   // Load API key and game settings from localStorage on component mount
   useEffect(() => {
@@ -133,24 +367,45 @@ export function Transcriber() {
   // Process the queue of audio segments
   useEffect(() => {
     const processQueue = async () => {
-      if (processingQueue.length > 0 && !isProcessing && apiKeyStatus === "set" && !isCancelling) {
+      if (processingQueue.length > 0 && !isProcessing && isProviderReady && !isCancelling) {
         setIsProcessing(true)
         const segment = processingQueue[0]
 
         try {
-          // Process the segment
-          const transcribedText = await transcribeAudio(segment.blob, apiKey)
-          const formatted = await formatHandHistory(transcribedText, apiKey)
+          // Hands with nothing but silence in them are dropped rather than paid for
+          const trimmed = await withoutSilence(segment.blob, "recording.webm", gameSettings)
+          if (!trimmed) {
+            setProcessingQueue((prev) => prev.slice(1))
+            return
+          }
 
-          // Add the formatted hand to our list
-          setFormattedHands((prev) => [
-            ...prev,
+          // Process the segment
+          const transcript = await transcribeAudio(trimmed.audio, provider, {
+            fileName: trimmed.fileName,
+            vocabulary: vocabularyTerms(vocabulary, profiles),
+          })
+          const transcribedText = normalizeTranscript(transcript.text, vocabulary)
+          const formatted = await formatHandHistory(
+            transcribedText,
+            provider,
+            formatOptions(gameSettings, transcribedText, profiles),
+          )
+
+          // Add the formatted hand to the library, along with what it was made from
+          await addHand(
             {
               id: `hand-${Date.now()}`,
-              text: formatted,
+              hand: formatted.hand,
+              text: formatted.text,
+              attempts: formatted.attempts,
+              equity: formatted.equity,
               timestamp: new Date(),
+              settings: gameSettings,
+              sessionId: activeSession?.id ?? null,
+              tags: segment.tags.length > 0 ? segment.tags : undefined,
             },
-          ])
+            { transcription: transcribedText, audio: segment.blob },
+          )
 
           // Remove the processed segment from the queue
           setProcessingQueue((prev) => prev.slice(1))
@@ -164,36 +419,49 @@ export function Transcriber() {
     }
 
     processQueue()
-  }, [processingQueue, isProcessing, apiKey, apiKeyStatus, isCancelling])
+  }, [
+    processingQueue,
+    isProcessing,
+    provider,
+    isProviderReady,
+    isCancelling,
+    gameSettings,
+    addHand,
+    activeSession,
+    profiles,
+    vocabulary,
+  ])
 
   // Set up audio visualization
   const setupAudioVisualization = (stream: MediaStream) => {
     try {
-      if (!audioContextRef.current) {
+      if (!audioContextRef.current || audioContextRef.current.state === "closed") {
         audioContextRef.current = new AudioContext()
-        analyserRef.current = audioContextRef.current.createAnalyser()
-        analyserRef.current.fftSize = 256
-
-        const source = audioContextRef.current.createMediaStreamSource(stream)
-        source.connect(analyserRef.current)
+      }
 
-        const updateAudioLevel = () => {
-          if (!analyserRef.current || !isRecording) return
+      // Each recording gets a fresh analyser for its own microphone stream
+      const analyser = audioContextRef.current.createAnalyser()
+      analyser.fftSize = 256
+      audioContextRef.current.createMediaStreamSource(stream).connect(analyser)
+      analyserRef.current = analyser
 
-          const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount)
-          analyserRef.current.getByteFrequencyData(dataArray)
+      const updateAudioLevel = () => {
+        // Stop once the microphone is released or a newer recording has taken over
+        if (analyserRef.current !== analyser || micStreamRef.current !== stream) return
 
-          // Calculate average level
-          const average = dataArray.reduce((acc, val) => acc + val, 0) / dataArray.length
-          setAudioLevel(average / 128) // Normalize to 0-1
+        const dataArray = new Uint8Array(analyser.frequencyBinCount)
+        analyser.getByteFrequencyData(dataArray)
 
-          if (isRecording) {
-            requestAnimationFrame(updateAudioLevel)
-          }
-        }
+        // Calculate average level
+        const average = dataArray.reduce((acc, val) => acc + val, 0) / dataArray.length
+        const level = average / 128 // Normalize to 0-1
+        setAudioLevel(level)
+        audioLevelHandlerRef.current(level)
 
-        updateAudioLevel()
+        requestAnimationFrame(updateAudioLevel)
       }
+
+      updateAudioLevel()
     } catch (error) {
       console.error("Error setting up audio visualization:", error)
       // Continue without visualization if it fails
@@ -219,7 +487,7 @@ export function Transcriber() {
     }
 
     // Check if API key is set
-    if (apiKeyStatus !== "set") {
+    if (!isProviderReady) {
       setApiKeyError("Please set your OpenAI API key first")
       return
     }
@@ -244,6 +512,7 @@ export function Transcriber() {
 
       console.log("Microphone access granted")
       micStreamRef.current = stream
+      speechRef.current = { heard: false, lastAt: Date.now() }
 
       // Set up audio visualization
       setupAudioVisualization(stream)
@@ -274,6 +543,28 @@ export function Transcriber() {
 
       mediaRecorderRef.current.onstop = () => {
         console.log("MediaRecorder stopped")
+
+        // The end of a hand in continuous mode. The recorder only hands over its audio once stopped.
+        const segmentEnd = segmentEndRef.current
+        if (segmentEnd) {
+          segmentEndRef.current = null
+          const segmentBlob = new Blob(audioChunksRef.current, { type: "audio/webm" })
+          audioChunksRef.current = []
+
+          if (!segmentEnd.discard && segmentBlob.size > 0) {
+            setProcessingQueue((prev) => [
+              ...prev,
+              { blob: segmentBlob, start: segmentEnd.start, end: segmentEnd.end, tags: segmentEnd.tags },
+            ])
+          }
+
+          // Carry on with the next hand, unless recording was stopped in the meantime
+          if (segmentEnd.restart && micStreamRef.current && mediaRecorderRef.current?.state === "inactive") {
+            mediaRecorderRef.current.start()
+          }
+          return
+        }
+
         if (audioChunksRef.current.length === 0) {
           console.warn("No audio data collected")
           setRecordingError("No audio data was recorded. Please try again.")
@@ -340,6 +631,17 @@ export function Transcriber() {
     setIsCancelling(false)
 
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      // In continuous mode the last hand is queued like the others
+      if (continuousMode) {
+        segmentEndRef.current = {
+          start: currentSegment.start,
+          end: recordingTime,
+          tags: segmentTags,
+          discard: false,
+          restart: false,
+        }
+      }
+
       try {
         mediaRecorderRef.current.stop()
         console.log("MediaRecorder stopped")
@@ -368,6 +670,9 @@ export function Transcriber() {
     }
 
     setAudioLevel(0)
+    setIsPaused(false)
+    setSegmentTags([])
+    setLastVoiceCommand(null)
   }
 
   // Cancel recording without processing
@@ -416,6 +721,9 @@ export function Transcriber() {
     setAudioBlob(null)
     setRecordingTime(0)
     setAudioLevel(0)
+    setIsPaused(false)
+    setSegmentTags([])
+    setLastVoiceCommand(null)
     
     console.log("Recording canceled and discarded")
   }
@@ -434,12 +742,12 @@ export function Transcriber() {
 
     try {
       // Test the API key with a simple request
-      const response = await fetch("https://api.openai.com/v1/models", {
-        method: "GET",
+      const response = await fetch("/api/validate-key", {
+        method: "POST",
         headers: {
-          Authorization: `Bearer ${apiKey}`,
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ provider: { provider: "openai", apiKey } }),
       })
 
       if (!response.ok) {
@@ -457,6 +765,24 @@ export function Transcriber() {
     }
   }
 
+  // Check that the local server answers before relying on it mid-session
+  const testLocalServer = async () => {
+    setLocalServerStatus("checking")
+    try {
+      const response = await fetch("/api/validate-key", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ provider }),
+      })
+      setLocalServerStatus(response.ok ? "ok" : "error")
+    } catch (error) {
+      console.error("Error checking local server:", error)
+      setLocalServerStatus("error")
+    }
+  }
+
   // Clear API key
   const clearApiKey = () => {
     localStorage.removeItem("openai-api-key")
@@ -470,116 +796,324 @@ export function Transcriber() {
     setActiveTab("record") // Switch back to record tab after saving settings
   }
 
+  // Transcribes audio, formats it with the game settings as context and saves the hand to the library
+  const transcribeAndSave = async (
+    blob: Blob,
+    fileName?: string,
+    onStage?: (stage: UploadStage, detail?: string) => void,
+  ) => {
+    onStage?.("transcribing")
+    const trimmed = await withoutSilence(blob, fileName ?? "recording.webm", gameSettings)
+    if (!trimmed) {
+      throw new Error(NO_SPEECH_ERROR)
+    }
+
+    const transcript = await transcribeAudio(trimmed.audio, provider, {
+      fileName: trimmed.fileName,
+      vocabulary: vocabularyTerms(vocabulary, profiles),
+      onProgress: (completed, total) => onStage?.("transcribing", `Transcribed part ${completed} of ${total}...`),
+    })
+    // Spoken cards, positions and actions are rewritten into standard notation before formatting
+    const transcribedText = normalizeTranscript(transcript.text, vocabulary)
+    setTranscription(transcribedText)
+
+    // Format hand history with the context
+    onStage?.("formatting")
+    const context = gameContext(gameSettings)
+    const formatted = await formatHandHistory(
+      withSettingsContext(transcribedText, context),
+      provider,
+      formatOptions(gameSettings, transcribedText, profiles),
+    )
+
+    // Add the formatted hand to the library, along with what it was made from
+    await addHand(
+      {
+        id: `hand-${Date.now()}`,
+        hand: formatted.hand,
+        text: formatted.text,
+        attempts: formatted.attempts,
+        equity: formatted.equity,
+        timestamp: new Date(),
+        settings: gameSettings,
+        sessionId: activeSession?.id ?? null,
+      },
+      { transcription: transcribedText, context, audio: blob },
+    )
+  }
+
+  // Formats a hand again from its corrected transcript, keeping the earlier transcript as a previous version
+  const reformatHand = async (hand: HandRecord, text: string, context: string) => {
+    const formatted = await formatHandHistory(
+      withSettingsContext(text, context),
+      provider,
+      formatOptions(hand.settings, text, profiles),
+    )
+    await reviseHand(
+      {
+        ...hand,
+        hand: formatted.hand,
+        text: formatted.text,
+        attempts: formatted.attempts,
+        equity: formatted.equity,
+      },
+      {
+        id: `${hand.id}-transcription-${Date.now()}`,
+        handId: hand.id,
+        text,
+        context: context || undefined,
+        edited: true,
+        timestamp: new Date(),
+      },
+    )
+  }
+
+  // Saves a hand corrected in the editor, with its text rendered again from the corrected structure
+  const editHand = async (record: HandRecord, hand: Hand) => {
+    await updateHand({
+      ...record,
+      hand,
+      text: renderHandHistory(hand, { playedAt: record.timestamp }),
+      equity: await allInEquityInBackground(hand),
+    })
+  }
+
+  // Hands saved before equities were kept with them get theirs worked out once, off the main thread, and saved
+  const equityBackfilled = useRef(new Set<string>())
+  useEffect(() => {
+    for (const record of formattedHands) {
+      if (record.equity !== undefined || equityBackfilled.current.has(record.id)) continue
+      equityBackfilled.current.add(record.id)
+      allInEquityInBackground(record.hand).then((equity) => updateHand({ ...record, equity }))
+    }
+  }, [formattedHands, updateHand])
+
+  // Transcribes a recording of several hands and finds where each one starts, for the user to review
+  const transcribeForSplitting = async (blob: Blob) => {
+    const trimmed = await withoutSilence(blob, "recording.webm", gameSettings)
+    if (!trimmed) {
+      throw new Error(NO_SPEECH_ERROR)
+    }
+
+    const transcript = await transcribeAudio(trimmed.audio, provider, {
+      fileName: trimmed.fileName,
+      vocabulary: vocabularyTerms(vocabulary, profiles),
+    })
+    // Cutting the segments at sentences lets a hand start where it was announced, not at the next segment
+    const segments = splitAtSentences(transcript.segments).map((segment) => ({
+      ...segment,
+      text: normalizeTranscript(segment.text, vocabulary),
+    }))
+    setTranscription(segments.map((segment) => segment.text).join(" "))
+
+    // The segment times are measured on the trimmed audio, so that's what gets sliced into hands
+    const boundaries = await segmentHands(segments, provider)
+
+    // Long pauses start a new hand too, wherever the AI didn't already put one
+    const gap = silenceSeconds(gameSettings?.autoSplitSilence)
+    const pauseStarts = gap === null ? [] : detectPauseStarts(segments, gap)
+    const found = new Set(boundaries.map((boundary) => boundary.startSegment))
+    const pauseBoundaries = pauseStarts
+      .filter((startSegment) => !found.has(startSegment))
+      .map((startSegment) => ({ startSegment, summary: "" }))
+    setPendingSplit({
+      blob: trimmed.audio,
+      segments,
+      boundaries: [...boundaries, ...pauseBoundaries].sort((a, b) => a.startSegment - b.startSegment),
+    })
+  }
+
+  // Formats and saves each hand of a reviewed split, one at a time
+  const formatSplitHands = async (starts: number[]) => {
+    if (!pendingSplit) return
+
+    const hands = splitTranscript(pendingSplit.segments, starts)
+    // Each hand keeps its own stretch of audio, or the whole recording if the browser can't decode it
+    const audio = await sliceAudio(pendingSplit.blob, hands).catch((error) => {
+      console.error("Error slicing audio into hands:", error)
+      return null
+    })
+
+    const context = gameContext(gameSettings)
+    const failed: HandSplit[] = []
+    for (let index = 0; index < hands.length; index++) {
+      const hand = hands[index]
+      setSplitProgress(`Formatting hand ${index + 1} of ${hands.length}...`)
+
+      try {
+        const formatted = await formatHandHistory(
+          withSettingsContext(hand.text, context),
+          provider,
+          formatOptions(gameSettings, hand.text, profiles),
+        )
+        await addHand(
+          {
+            id: `hand-${Date.now()}-${index}`,
+            hand: formatted.hand,
+            text: formatted.text,
+            attempts: formatted.attempts,
+            equity: formatted.equity,
+            timestamp: new Date(),
+            settings: gameSettings,
+            sessionId: activeSession?.id ?? null,
+          },
+          { transcription: hand.text, context, audio: audio?.[index] ?? pendingSplit.blob },
+        )
+      } catch (error) {
+        console.error("Error formatting split hand:", error)
+        failed.push(hand)
+      }
+    }
+
+    setSplitProgress(null)
+    if (failed.length === 0) {
+      setPendingSplit(null)
+      return
+    }
+
+    // Keep the hands that didn't format up for review so they can be tried again
+    let startSegment = 0
+    const boundaries = failed.map((hand) => {
+      const boundary = { startSegment, summary: "" }
+      startSegment += hand.segments.length
+      return boundary
+    })
+    setPendingSplit({ blob: pendingSplit.blob, segments: failed.flatMap((hand) => hand.segments), boundaries })
+    setGeneralError(`${failed.length} of ${hands.length} hands could not be formatted. They're still waiting for review.`)
+  }
+
   // Function to format transcribed text with game settings context
   const processRecording = async (blob: Blob) => {
     setIsProcessing(true)
     setTranscription("")
     
     try {
-      // Transcribe audio
-      const transcribedText = await transcribeAudio(blob, apiKey)
-      setTranscription(transcribedText)
-      
-      // Prepare context with game settings if available
-      let contextPrompt = transcribedText
-      
-      if (gameSettings) {
-        const { gameType, tableSize, smallBlind, bigBlind, ante, startingStack, currency } = gameSettings
-        
-        // Add game settings context to the transcription
-        let settingsContext = "Additional context: "
-        
-        if (gameType) {
-          settingsContext += `Game type: ${gameType === "cash" ? "Cash Game" : "Tournament"}. `
-        }
-        
-        if (gameType === "cash" && smallBlind && bigBlind) {
-          settingsContext += `Stakes: ${currency || "$"}${smallBlind}/${currency || "$"}${bigBlind}. `
-          
-          if (ante && ante !== "0") {
-            settingsContext += `Ante: ${currency || "$"}${ante}. `
-          }
-        }
-        
-        if (tableSize) {
-          settingsContext += `${tableSize}-max table. `
-        }
-        
-        if (startingStack) {
-          settingsContext += `Starting stack: ${startingStack}${gameType === "cash" ? "BB" : " chips"}. `
-        }
-        
-        // Prepend the context to the transcription
-        contextPrompt = `${settingsContext}\n\n${transcribedText}`
+      if (autoSplitMode) {
+        await transcribeForSplitting(blob)
+      } else {
+        await transcribeAndSave(blob)
       }
-
-      // Format hand history with the context
-      const formatted = await formatHandHistory(contextPrompt, apiKey)
-      
-      // Add the formatted hand to our list
-      setFormattedHands((prev) => [
-        ...prev,
-        {
-          id: `hand-${Date.now()}`,
-          text: formatted,
-          timestamp: new Date(),
-        },
-      ])
     } catch (error) {
       console.error("Error processing recording:", error)
-      setApiKeyError("Error processing recording. Please check your API key.")
+      if (error instanceof Error && error.message === NO_SPEECH_ERROR) {
+        setRecordingError(`${NO_SPEECH_ERROR}. Please try again.`)
+      } else {
+        setApiKeyError("Error processing recording. Please check your API key.")
+      }
     } finally {
       setIsProcessing(false)
     }
   }
 
-  const markNewHand = () => {
-    if (!isRecording || !mediaRecorderRef.current || isCancelling) return
+  // Ends the hand being recorded in continuous mode and starts recording the next one
+  const endSegment = (discard: boolean) => {
+    const recorder = mediaRecorderRef.current
+    // Ignore a second request while the recorder is still handing over the last hand
+    if (!isRecording || !recorder || recorder.state === "inactive" || isCancelling || segmentEndRef.current) return
 
-    // Stop the current recording
-    mediaRecorderRef.current.stop()
+    segmentEndRef.current = { start: currentSegment.start, end: recordingTime, tags: segmentTags, discard, restart: true }
+    recorder.stop()
 
-    // Create a blob from the current chunks
-    const audioBlob = new Blob(audioChunksRef.current, { type: "audio/webm" })
+    setCurrentSegment({
+      start: recordingTime,
+      isProcessing: !discard,
+    })
+    setSegmentTags([])
+    speechRef.current = { heard: false, lastAt: Date.now() }
 
-    // Only add to processing queue if we're not cancelling
-    if (!isCancelling) {
-      // Add this segment to the processing queue
-      setProcessingQueue((prev) => [
-        ...prev,
-        {
-          blob: audioBlob,
-          start: currentSegment.start,
-          end: recordingTime,
-        },
-      ])
+    // The next hand is recorded straight away, even if this one was paused
+    if (isPaused) {
+      timerRef.current = setInterval(() => {
+        setRecordingTime((prev) => prev + 1)
+      }, 1000)
+      setIsPaused(false)
     }
-    
-    // Reset audio chunks for the next segment
-    audioChunksRef.current = []
+  }
 
-    // Start a new recording segment if in continuous mode
-    if (continuousMode) {
-      // Start recording again
-      mediaRecorderRef.current.start()
+  const markNewHand = () => endSegment(false)
 
-      // Update the current segment
-      setCurrentSegment({
-        start: recordingTime,
-        isProcessing: true,
-      })
-    } else {
-      setIsRecording(false)
+  // Throws away the hand being recorded and starts it over
+  const scratchSegment = () => endSegment(true)
 
-      // Stop microphone
-      if (micStreamRef.current) {
-        micStreamRef.current.getTracks().forEach((track) => track.stop())
-      }
+  const pauseRecording = () => {
+    const recorder = mediaRecorderRef.current
+    if (!isRecording || !recorder || recorder.state !== "recording") return
 
-      setAudioLevel(0)
+    recorder.pause()
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
     }
+    setIsPaused(true)
+  }
+
+  const resumeRecording = () => {
+    const recorder = mediaRecorderRef.current
+    if (!isRecording || !recorder || recorder.state !== "paused") return
+
+    recorder.resume()
+    timerRef.current = setInterval(() => {
+      setRecordingTime((prev) => prev + 1)
+    }, 1000)
+    setIsPaused(false)
   }
 
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case "new-hand":
+        markNewHand()
+        setLastVoiceCommand("New hand")
+        break
+      case "scratch":
+        scratchSegment()
+        setLastVoiceCommand("Scratched that hand")
+        break
+      case "pause":
+        pauseRecording()
+        setLastVoiceCommand("Paused")
+        break
+      case "resume":
+        resumeRecording()
+        setLastVoiceCommand("Resumed")
+        break
+      case "tag":
+        setSegmentTags((prev) => (prev.includes(command.tag) ? prev : [...prev, command.tag]))
+        setLastVoiceCommand(`Tagged "${command.tag}"`)
+        break
+    }
+  }
+
+  const voiceCommands = useVoiceCommands(isRecording && continuousMode && voiceCommandsEnabled, handleVoiceCommand)
+
+  // Voice activity detection: stops a recording, or starts a new hand in continuous mode, once the speaker goes quiet.
+  // Nothing happens until some speech has been heard, so a slow start or a long break between hands is fine.
+  // A recording split automatically keeps going through pauses, which start new hands once the transcript is split.
+  const handleAudioLevel = (level: number) => {
+    const now = Date.now()
+    if (level >= SPEECH_LEVEL) {
+      speechRef.current = { heard: true, lastAt: now }
+      return
+    }
+    // Time spent paused doesn't count as silence
+    if (isPaused) {
+      speechRef.current.lastAt = now
+      return
+    }
+    if (autoSplitMode || !speechRef.current.heard) return
+
+    const silentFor = (now - speechRef.current.lastAt) / 1000
+    const limit = silenceSeconds(continuousMode ? gameSettings?.autoSplitSilence : gameSettings?.autoStopSilence)
+    if (limit === null || silentFor < limit) return
+
+    speechRef.current = { heard: false, lastAt: now }
+    if (continuousMode) {
+      markNewHand()
+    } else {
+      stopRecording()
+    }
+  }
+  audioLevelHandlerRef.current = handleAudioLevel
+
   const copyToClipboard = (id: string) => {
     const hand = formattedHands.find((h) => h.id === id)
     if (hand) {
@@ -589,18 +1123,17 @@ export function Transcriber() {
     }
   }
 
-  const exportAllHands = () => {
-    const allHands = formattedHands
-      .map((hand, index) => {
-        return `--- Hand #${index + 1} (${hand.timestamp.toLocaleString()}) ---\n\n${hand.text}\n\n`
-      })
-      .join("\n")
+  const exportHands = (hands: HandRecord[], session?: SessionRecord | null) => {
+    // PokerStars files separate hands with blank lines, which lets trackers import the export directly
+    const allHands = hands.map((hand) => hand.text).join("\n\n\n")
 
     const blob = new Blob([allHands], { type: "text/plain" })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = `poker-hands-${new Date().toISOString().split("T")[0]}.txt`
+    const venue = session ? `-${session.venue.toLowerCase().replace(/[^a-z0-9]+/g, "-")}` : ""
+    const date = (session?.startedAt ?? new Date()).toISOString().split("T")[0]
+    a.download = `poker-hands${venue}-${date}.txt`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -608,16 +1141,53 @@ export function Transcriber() {
   }
 
   const deleteHand = (id: string) => {
-    setFormattedHands((prev) => prev.filter((hand) => hand.id !== id))
+    removeHand(id)
   }
 
   const resetAll = () => {
     setTranscription("")
-    setFormattedHands([])
+    clearHands()
+    setAnalysisResults({})
     setAudioBlob(null)
     setProcessingQueue([])
   }
 
+  // Check every hand against the blinds and antes it was recorded with, so changing stakes later doesn't flag old
+  // hands. Hands recorded without a settings snapshot use the current settings.
+  const handStakes = useMemo(() => {
+    const stakes: Record<string, ValidationStakes> = {}
+    for (const hand of formattedHands) {
+      stakes[hand.id] = settingsStakes(hand.settings ?? gameSettings)
+    }
+    return stakes
+  }, [formattedHands, gameSettings])
+  const handIssues = useMemo(() => {
+    const issues: Record<string, HandIssue[]> = {}
+    for (const hand of formattedHands) {
+      issues[hand.id] = validateHand(hand.hand, handStakes[hand.id])
+    }
+    return issues
+  }, [formattedHands, handStakes])
+
+  // Group hands by the session they were recorded in, newest session first
+  const handGroups = useMemo(() => {
+    const groups: { session: SessionRecord | null; hands: HandRecord[] }[] = [...sessions]
+      .reverse()
+      .map((session) => ({
+        session,
+        hands: formattedHands.filter((hand) => hand.sessionId === session.id),
+      }))
+
+    const sessionIds = new Set(sessions.map((session) => session.id))
+    const unsorted = formattedHands.filter((hand) => !hand.sessionId || !sessionIds.has(hand.sessionId))
+    if (unsorted.length > 0) {
+      groups.push({ session: null, hands: unsorted })
+    }
+    return groups
+  }, [formattedHands, sessions])
+
+  const libraryHands = useMemo(() => formattedHands.map((record) => record.hand), [formattedHands])
+
   // Format seconds to MM:SS
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
@@ -632,14 +1202,23 @@ export function Transcriber() {
     }
 
     if (isRecording) {
-      return continuousMode ? "Recording continuously... Click stop when finished" : "Recording... Click to stop"
+      if (isPaused) return "Paused... Click resume or say \"resume\" to carry on"
+      if (continuousMode) return "Recording continuously... Click stop when finished"
+      if (autoSplitMode) {
+        const gap = silenceSeconds(gameSettings?.autoSplitSilence)
+        const cue = gap === null ? "Say \"next hand\"" : `Say "next hand" or pause for ${gap} seconds`
+        return `Recording... ${cue} between hands and click stop when finished`
+      }
+      const autoStop = silenceSeconds(gameSettings?.autoStopSilence)
+      if (autoStop !== null) return `Recording... Stops after ${autoStop} seconds of silence, or click to stop`
+      return "Recording... Click to stop"
     }
 
     if (isProcessing) {
       return "Processing your recording..."
     }
 
-    if (apiKeyStatus !== "set") {
+    if (!isProviderReady) {
       return "Set your API key to start recording"
     }
 
@@ -652,7 +1231,7 @@ export function Transcriber() {
 
   const analyzeHand = async (id: string) => {
     const hand = formattedHands.find((h) => h.id === id)
-    if (!hand || !apiKey) return
+    if (!hand || !isProviderReady) return
     
     setAnalyzingHand(id)
     setAnalysisError((prev) => ({ ...prev, [id]: '' }))
@@ -661,8 +1240,10 @@ export function Transcriber() {
     try {
       console.log("Analyzing hand:", id)
       
-      // Use the selected model or default to gpt-3.5-turbo
-      const modelToUse = gameSettings?.aiModel || "gpt-3.5-turbo"
+      // Use the selected model or default to gpt-3.5-turbo, or whatever the local server hosts
+      const modelToUse = isLocalProvider
+        ? gameSettings?.localModel || DEFAULT_LOCAL_MODEL
+        : gameSettings?.aiModel || "gpt-3.5-turbo"
       console.log("Using AI model:", modelToUse)
       
       const response = await fetch("/api/analyze-hand", {
@@ -672,7 +1253,8 @@ export function Transcriber() {
         },
         body: JSON.stringify({
           handText: hand.text,
-          apiKey,
+          equity: hand.equity ?? null,
+          provider,
           model: modelToUse,
         }),
       })
@@ -691,7 +1273,7 @@ export function Transcriber() {
       const reader = response.body?.getReader()
       if (!reader) throw new Error("Failed to get response reader")
       
-      let analysis = `Analysis by OpenAI ${modelToUse}:\n\n`
+      let analysis = `Analysis by ${isLocalProvider ? "Local" : "OpenAI"} ${modelToUse}:\n\n`
       while (true) {
         const { done, value } = await reader.read()
         if (done) break
@@ -705,6 +1287,7 @@ export function Transcriber() {
       }
       
       console.log("Analysis complete for hand:", id)
+      await storeAnalysis({ handId: id, model: modelToUse, text: analysis, timestamp: new Date() })
     } catch (error) {
       console.error("Error analyzing hand:", error)
       setAnalysisError((prev) => ({ 
@@ -740,9 +1323,40 @@ export function Transcriber() {
         <Card className="bg-gray-800/50 border-gray-700 backdrop-blur-sm p-6 rounded-xl shadow-xl">
           {/* API Key Section - Always visible at the top */}
           <div className="mb-6 p-4 bg-gray-900/50 rounded-lg">
-            <h3 className="text-lg font-medium text-gray-300 mb-3">OpenAI API Key</h3>
-
-            {apiKeyStatus !== "set" ? (
+            <h3 className="text-lg font-medium text-gray-300 mb-3">
+              {isLocalProvider ? "Local AI Server" : "OpenAI API Key"}
+            </h3>
+
+            {isLocalProvider ? (
+              <div className="flex justify-between items-center gap-2">
+                <p className="text-sm text-gray-400 flex items-center min-w-0">
+                  <span
+                    className={cn(
+                      "w-2 h-2 rounded-full mr-2 shrink-0",
+                      localServerStatus === "ok"
+                        ? "bg-green-400"
+                        : localServerStatus === "error"
+                          ? "bg-red-400"
+                          : "bg-gray-500",
+                    )}
+                  ></span>
+                  <span className="truncate">
+                    {localServerStatus === "error" ? "Server not reachable at " : "Using the server at "}
+                    {gameSettings?.localBaseUrl || DEFAULT_LOCAL_BASE_URL}
+                  </span>
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={testLocalServer}
+                  disabled={localServerStatus === "checking"}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-900/20 shrink-0"
+                >
+                  {localServerStatus === "checking" ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                  Test Connection
+                </Button>
+              </div>
+            ) : apiKeyStatus !== "set" ? (
               <div className="space-y-3">
                 <p className="text-sm text-gray-400">
                   Enter your OpenAI API key to enable transcription. Your key is stored locally in your browser.
@@ -799,7 +1413,7 @@ export function Transcriber() {
           </div>
 
           <Tabs defaultValue="record" value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-3 mb-6 bg-gray-900/50">
+            <TabsList className="grid w-full grid-cols-6 mb-6 bg-gray-900/50">
               <TabsTrigger value="record" className="flex items-center gap-2">
                 <Mic className="h-4 w-4" />
                 Record
@@ -808,6 +1422,18 @@ export function Transcriber() {
                 <Save className="h-4 w-4" />
                 History
               </TabsTrigger>
+              <TabsTrigger value="players" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Players
+              </TabsTrigger>
+              <TabsTrigger value="results" className="flex items-center gap-2">
+                <LineChart className="h-4 w-4" />
+                Results
+              </TabsTrigger>
+              <TabsTrigger value="equity" className="flex items-center gap-2">
+                <Calculator className="h-4 w-4" />
+                Equity
+              </TabsTrigger>
               <TabsTrigger value="settings" className="flex items-center gap-2">
                 <Settings className="h-4 w-4" />
                 Game Setup
@@ -816,16 +1442,56 @@ export function Transcriber() {
 
             <TabsContent value="record" className="mt-0">
               <div className="flex flex-col items-center mb-6">
-                <div className="flex items-center space-x-2 mb-4">
-                  <Switch
-                    id="continuous-mode"
-                    checked={continuousMode}
-                    onCheckedChange={setContinuousMode}
-                    disabled={isRecording}
-                  />
-                  <Label htmlFor="continuous-mode" className="text-gray-300">
-                    Continuous Recording Mode
-                  </Label>
+                <SessionPanel
+                  activeSession={activeSession}
+                  gameSettings={gameSettings}
+                  handCount={activeSession ? formattedHands.filter((hand) => hand.sessionId === activeSession.id).length : 0}
+                  onStart={(venue, buyIn) => startSession(venue, buyIn, gameSettings)}
+                  onRebuy={(amount) => activeSession && addRebuy(activeSession, amount)}
+                  onEnd={(cashOut) => activeSession && endSession(activeSession, cashOut)}
+                />
+
+                <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 mb-4">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="continuous-mode"
+                      checked={continuousMode}
+                      onCheckedChange={(checked) => {
+                        setContinuousMode(checked)
+                        if (checked) setAutoSplitMode(false)
+                      }}
+                      disabled={isRecording}
+                    />
+                    <Label htmlFor="continuous-mode" className="text-gray-300">
+                      Continuous Recording Mode
+                    </Label>
+                  </div>
+                  {continuousMode && voiceCommands.isSupported && (
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="voice-commands"
+                        checked={voiceCommandsEnabled}
+                        onCheckedChange={setVoiceCommandsEnabled}
+                      />
+                      <Label htmlFor="voice-commands" className="text-gray-300">
+                        Voice Commands
+                      </Label>
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="auto-split-mode"
+                      checked={autoSplitMode}
+                      onCheckedChange={(checked) => {
+                        setAutoSplitMode(checked)
+                        if (checked) setContinuousMode(false)
+                      }}
+                      disabled={isRecording || pendingSplit !== null}
+                    />
+                    <Label htmlFor="auto-split-mode" className="text-gray-300">
+                      Split Hands Automatically
+                    </Label>
+                  </div>
                 </div>
 
                 {/* Recording button */}
@@ -833,13 +1499,13 @@ export function Transcriber() {
                   <Button
                     type="button"
                     onClick={isRecording ? stopRecording : startRecording}
-                    disabled={isInitializingRecording || apiKeyStatus !== "set" || micPermissionStatus === "denied"}
+                    disabled={isInitializingRecording || !isProviderReady || micPermissionStatus === "denied"}
                     className={cn(
                       "w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 border-0",
                       isRecording
                         ? "bg-red-500/20 shadow-[0_0_15px_rgba(239,68,68,0.5)] hover:bg-red-500/30"
                         : "bg-blue-500/20 shadow-[0_0_10px_rgba(59,130,246,0.3)] hover:bg-blue-500/30",
-                      (isInitializingRecording || apiKeyStatus !== "set" || micPermissionStatus === "denied") &&
+                      (isInitializingRecording || !isProviderReady || micPermissionStatus === "denied") &&
                         "opacity-70 cursor-not-allowed",
                     )}
                     aria-label={isRecording ? "Stop recording" : "Start recording"}
@@ -888,6 +1554,15 @@ export function Transcriber() {
 
                 <p className="text-gray-400 text-center mt-2">{getRecordingStatusText()}</p>
 
+                {!isRecording && (
+                  <div className="w-full mt-6">
+                    <AudioUpload
+                      disabled={!isProviderReady}
+                      onProcess={(file, onStage) => transcribeAndSave(file, file.name, onStage)}
+                    />
+                  </div>
+                )}
+
                 {/* Recording error message */}
                 {recordingError && (
                   <div className="mt-4 p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2 max-w-md">
@@ -909,13 +1584,58 @@ export function Transcriber() {
                     </div>
 
                     {continuousMode && (
-                      <Button
-                        onClick={markNewHand}
-                        variant="outline"
-                        className="border-blue-700 bg-blue-900/30 text-blue-300 hover:bg-blue-800/50"
-                      >
-                        Mark New Hand
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          onClick={markNewHand}
+                          variant="outline"
+                          className="border-blue-700 bg-blue-900/30 text-blue-300 hover:bg-blue-800/50"
+                        >
+                          Mark New Hand
+                        </Button>
+                        <Button
+                          onClick={isPaused ? resumeRecording : pauseRecording}
+                          variant="outline"
+                          className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                          aria-label={isPaused ? "Resume recording" : "Pause recording"}
+                        >
+                          {isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                          {isPaused ? "Resume" : "Pause"}
+                        </Button>
+                      </div>
+                    )}
+
+                    {continuousMode && segmentTags.length > 0 && (
+                      <div className="flex flex-wrap justify-center gap-1 mt-3">
+                        {segmentTags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="text-xs px-2 py-0.5 bg-purple-950/50 rounded-full text-purple-300 border border-purple-900 flex items-center gap-1"
+                          >
+                            <Tag className="w-3 h-3" />
+                            {tag}
+                            <button
+                              type="button"
+                              onClick={() => setSegmentTags((prev) => prev.filter((existing) => existing !== tag))}
+                              className="hover:text-purple-100"
+                              aria-label={`Remove tag ${tag}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {continuousMode && voiceCommandsEnabled && (
+                      <p className="mt-3 text-xs text-gray-500">
+                        {voiceCommands.error
+                          ? voiceCommands.error
+                          : voiceCommands.isListening
+                            ? lastVoiceCommand
+                              ? `Heard: ${lastVoiceCommand}`
+                              : "Listening for voice commands..."
+                            : "Starting voice commands..."}
+                      </p>
                     )}
                   </div>
                 )}
@@ -932,7 +1652,17 @@ export function Transcriber() {
                 </div>
               )}
 
-              {!isRecording && formattedHands.length === 0 && !isProcessing && (
+              {pendingSplit && (
+                <HandSplitReview
+                  segments={pendingSplit.segments}
+                  boundaries={pendingSplit.boundaries}
+                  progress={splitProgress}
+                  onConfirm={formatSplitHands}
+                  onDiscard={() => setPendingSplit(null)}
+                />
+              )}
+
+              {!isRecording && formattedHands.length === 0 && !isProcessing && !pendingSplit && (
                 <div className="bg-gray-900/50 rounded-lg p-4 text-gray-400 text-sm">
                   <h3 className="font-medium text-gray-300 mb-2">How to use:</h3>
                   <ol className="list-decimal list-inside space-y-2">
@@ -941,6 +1671,14 @@ export function Transcriber() {
                     <li>Click the microphone button to start recording</li>
                     <li>Clearly describe your poker hand (positions, actions, bet sizes)</li>
                     <li>In continuous mode, click "Mark New Hand" when you finish describing a hand</li>
+                    <li>
+                      With "Voice Commands" on, say "new hand", "scratch that", "pause", "resume" or "tag this as
+                      bluff" instead, with a short pause before and after
+                    </li>
+                    <li>
+                      Or turn on "Split Hands Automatically", describe every hand in one go, and review where each hand
+                      starts once you stop
+                    </li>
                     <li>Click the stop button when you're done recording all hands</li>
                     <li>View your formatted hands in the "History" tab</li>
                   </ol>
@@ -953,7 +1691,18 @@ export function Transcriber() {
             </TabsContent>
 
             <TabsContent value="history">
-              {formattedHands.length > 0 ? (
+              {libraryError && (
+                <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-300">{libraryError}</p>
+                </div>
+              )}
+
+              {isLibraryLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 text-blue-400 animate-spin" />
+                </div>
+              ) : formattedHands.length > 0 || sessions.length > 0 ? (
                 <div className="space-y-4">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-lg font-medium text-gray-300">Recorded Hands</h3>
@@ -961,102 +1710,136 @@ export function Transcriber() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={exportAllHands}
+                        onClick={() => exportHands(formattedHands)}
+                        disabled={formattedHands.length === 0}
                         className="text-gray-300 border-gray-700"
                       >
                         <Save className="w-4 h-4 mr-2" />
                         Export All
                       </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={resetAll}
-                        className="text-red-400 border-gray-700 hover:bg-red-900/20 hover:text-red-300"
-                      >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Clear All
-                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={formattedHands.length === 0}
+                            className="text-red-400 border-gray-700 hover:bg-red-900/20 hover:text-red-300"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Clear All
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-gray-900 border-gray-700 text-gray-300">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete all hands?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This permanently removes {formattedHands.length} saved hand
+                              {formattedHands.length > 1 ? "s" : ""} with their transcriptions, analyses and audio.
+                              Export them first if you want to keep a copy.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="border-gray-700">Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={resetAll} className="bg-red-600 hover:bg-red-700">
+                              Delete All
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
                     </div>
                   </div>
 
-                  <Accordion type="single" collapsible className="w-full">
-                    {formattedHands.map((hand, index) => (
-                      <AccordionItem key={hand.id} value={hand.id} className="border-gray-700">
-                        <AccordionTrigger className="hover:bg-gray-800/30 px-4 rounded-lg">
-                          <div className="flex items-center">
-                            <span className="text-gray-300 font-medium">Hand #{formattedHands.length - index}</span>
-                            <span className="ml-3 text-xs text-gray-500">{hand.timestamp.toLocaleTimeString()}</span>
-                          </div>
-                        </AccordionTrigger>
-                        <AccordionContent className="px-4">
-                          <div className="bg-gray-900 rounded-lg p-4 font-mono text-sm text-gray-300 overflow-auto max-h-96 mb-2">
-                            <pre className="whitespace-pre-wrap">{hand.text}</pre>
+                  {handGroups.map(({ session, hands }) => {
+                    const summary = session ? summarizeSession(session) : null
+                    const currency = session?.settings?.currency || "$"
+
+                    return (
+                      <div key={session?.id ?? "unsorted"} className="space-y-2">
+                        <div className="flex justify-between items-center p-3 bg-gray-900/50 rounded-lg">
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-300">
+                              {session ? session.venue : "Hands outside a session"}
+                            </h4>
+                            {session && summary && (
+                              <p className="text-xs text-gray-500">
+                                {session.startedAt.toLocaleDateString()} • {describeSessionGame(session)} •{" "}
+                                {formatDuration(summary.durationHours)} • {hands.length} hand{hands.length === 1 ? "" : "s"}
+                              </p>
+                            )}
                           </div>
-                          
-                          {analysisResults[hand.id] && (
-                            <div className="mt-4 mb-2">
-                              <div className="flex items-center gap-2 mb-2">
-                                <h4 className="text-sm font-medium text-blue-400">Hand Analysis</h4>
-                                <span className="text-xs px-2 py-1 bg-blue-950/50 rounded-full text-blue-300 border border-blue-900">
-                                  {gameSettings?.aiModel || "gpt-3.5-turbo"}
-                                </span>
-                              </div>
-                              <div className="bg-blue-900/20 border border-blue-800/30 rounded-lg p-4 text-sm text-gray-300 overflow-auto max-h-96">
-                                <pre className="whitespace-pre-wrap">{analysisResults[hand.id].replace(/^Analysis by OpenAI .*?:\n\n/, '')}</pre>
-                              </div>
-                            </div>
-                          )}
-                          
-                          {analysisError[hand.id] && (
-                            <div className="mt-2 p-3 bg-red-900/20 border border-red-800 rounded-md flex items-start gap-2">
-                              <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
-                              <p className="text-sm text-red-300">{analysisError[hand.id]}</p>
-                            </div>
-                          )}
-                          
-                          <div className="flex justify-end gap-2 mt-2">
+                          <div className="flex items-center gap-2">
+                            {summary && summary.net !== null ? (
+                              <span
+                                className={cn(
+                                  "text-sm font-medium",
+                                  summary.net >= 0 ? "text-green-400" : "text-red-400",
+                                )}
+                              >
+                                {formatResult(summary.net, currency)}
+                                {summary.hourlyRate !== null && (
+                                  <span className="ml-1 text-xs text-gray-500">
+                                    ({formatResult(summary.hourlyRate, currency)}/h)
+                                  </span>
+                                )}
+                              </span>
+                            ) : session ? (
+                              <span className="text-xs px-2 py-0.5 bg-blue-950/50 rounded-full text-blue-300 border border-blue-900">
+                                In progress
+                              </span>
+                            ) : null}
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => analyzeHand(hand.id)}
-                              disabled={analyzingHand === hand.id || !apiKey}
-                              className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                              onClick={() => exportHands(hands, session)}
+                              disabled={hands.length === 0}
+                              className="text-gray-400 hover:text-gray-300"
+                              aria-label="Export hands"
                             >
-                              {analyzingHand === hand.id ? (
-                                <>
-                                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                                  Analyzing...
-                                </>
-                              ) : (
-                                <>
-                                  <Activity className="w-4 h-4 mr-2" />
-                                  Analyze
-                                </>
-                              )}
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => copyToClipboard(hand.id)}
-                              className="text-blue-400 hover:text-blue-300 hover:bg-blue-900/20"
-                            >
-                              <Copy className="w-4 h-4 mr-2" />
-                              {copied === hand.id ? "Copied!" : "Copy"}
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => deleteHand(hand.id)}
-                              className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Delete
+                              <Save className="w-4 h-4" />
                             </Button>
+                            {session && session.endedAt && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeSession(session.id)}
+                                className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                                aria-label="Delete session"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
-                        </AccordionContent>
-                      </AccordionItem>
-                    ))}
-                  </Accordion>
+                        </div>
+
+                        {hands.length > 0 && (
+                          <Accordion type="single" collapsible className="w-full">
+                            {hands.map((hand, index) => (
+                              <HandCard
+                                key={hand.id}
+                                hand={hand}
+                                number={hands.length - index}
+                                issues={handIssues[hand.id] ?? []}
+                                stakes={handStakes[hand.id] ?? {}}
+                                profiles={profiles}
+                                analysis={analysisResults[hand.id] || analyses[hand.id]?.text}
+                                analysisModel={analyses[hand.id]?.model || gameSettings?.aiModel || "gpt-3.5-turbo"}
+                                analysisError={analysisError[hand.id]}
+                                isAnalyzing={analyzingHand === hand.id}
+                                canAnalyze={isProviderReady}
+                                canReformat={isProviderReady}
+                                isCopied={copied === hand.id}
+                                onAnalyze={() => analyzeHand(hand.id)}
+                                onReformat={(text, context) => reformatHand(hand, text, context)}
+                                onEdit={(edited) => editHand(hand, edited)}
+                                onCopy={() => copyToClipboard(hand.id)}
+                                onDelete={() => deleteHand(hand.id)}
+                              />
+                            ))}
+                          </Accordion>
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center py-8 text-gray-400">
@@ -1078,8 +1861,23 @@ export function Transcriber() {
               )}
             </TabsContent>
 
+            <TabsContent value="players">
+              <PlayerProfiles profiles={profiles} onSave={saveProfile} onDelete={removeProfile} />
+              <PlayerStatsTable hands={libraryHands} />
+            </TabsContent>
+
+            <TabsContent value="results">
+              <ResultsDashboard sessions={sessions} />
+              <LuckTracker hands={formattedHands} sessions={sessions} />
+            </TabsContent>
+
+            <TabsContent value="equity">
+              <EquityCalculator />
+            </TabsContent>
+
             <TabsContent value="settings">
               <GameSettings onSettingsSaved={handleGameSettingsSaved} />
+              <VocabularySettings vocabulary={vocabulary} onSave={saveVocabulary} />
             </TabsContent>
           </Tabs>
         </Card>
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Plus, Save, Trash2 } from "lucide-react"
+import type { VocabularyEntry } from "@/lib/poker-vocabulary"
+
+interface VocabularySettingsProps {
+  vocabulary: VocabularyEntry[]
+  onSave: (entries: VocabularyEntry[]) => void
+}
+
+export function VocabularySettings({ vocabulary, onSave }: VocabularySettingsProps) {
+  const [entries, setEntries] = useState<VocabularyEntry[]>(vocabulary)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    setEntries(vocabulary)
+  }, [vocabulary])
+
+  const updateEntry = (index: number, changes: Partial<VocabularyEntry>) => {
+    setEntries((prev) => prev.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...changes } : entry)))
+    setSaved(false)
+  }
+
+  const removeEntry = (index: number) => {
+    setEntries((prev) => prev.filter((_, entryIndex) => entryIndex !== index))
+    setSaved(false)
+  }
+
+  return (
+    <Card className="w-full mt-6">
+      <CardHeader>
+        <CardTitle>Custom Vocabulary</CardTitle>
+        <CardDescription>
+          Teach the transcriber your local slang and nicknames. Whatever is heard on the left is written as the right,
+          and the right-hand words are suggested to the speech model so it spells them correctly.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">
+            No custom words yet, e.g. "the whale" written as "Mike", or "ship it" written as "all-in".
+          </p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {entries.map((entry, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <Input
+                  value={entry.spoken}
+                  onChange={(e) => updateEntry(index, { spoken: e.target.value })}
+                  placeholder="Heard as, e.g. the whale"
+                  aria-label="Heard as"
+                  className="bg-gray-800 border-gray-700"
+                />
+                <Input
+                  value={entry.written}
+                  onChange={(e) => updateEntry(index, { written: e.target.value })}
+                  placeholder="Written as, e.g. Mike"
+                  aria-label="Written as"
+                  className="bg-gray-800 border-gray-700"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeEntry(index)}
+                  className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                  aria-label={`Remove ${entry.spoken || "word"}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEntries((prev) => [...prev, { spoken: "", written: "" }])
+              setSaved(false)
+            }}
+            className="text-gray-300 border-gray-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Word
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(entries)
+              setSaved(true)
+            }}
+            className="flex-1 bg-blue-600 hover:bg-blue-700"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saved ? "Saved" : "Save Vocabulary"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
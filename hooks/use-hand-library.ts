@@ -0,0 +1,108 @@
+import * as React from "react"
+
+import {
+  clearLibrary,
+  deleteHand,
+  listAnalyses,
+  listHands,
+  saveAnalysis,
+  saveHand,
+  saveHandRevision,
+  type AnalysisRecord,
+  type HandRecord,
+  type TranscriptionRecord,
+} from "@/lib/hand-library"
+
+export function useHandLibrary() {
+  const [hands, setHands] = React.useState<HandRecord[]>([])
+  const [analyses, setAnalyses] = React.useState<Record<string, AnalysisRecord>>({})
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    Promise.all([listHands(), listAnalyses()])
+      .then(([savedHands, savedAnalyses]) => {
+        if (cancelled) return
+        setHands(savedHands)
+        setAnalyses(Object.fromEntries(savedAnalyses.map((analysis) => [analysis.handId, analysis])))
+      })
+      .catch((err) => {
+        console.error("Error loading hand library:", err)
+        if (!cancelled) setError("Saved hands could not be loaded. New hands will only last until the page is closed.")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const addHand = React.useCallback(
+    async (record: HandRecord, sources?: { transcription?: string; context?: string; audio?: Blob | null }) => {
+      // Show the hand straight away, even if saving it fails
+      setHands((prev) => [...prev, record])
+      try {
+        await saveHand(record, sources)
+      } catch (err) {
+        console.error("Error saving hand:", err)
+        setError("This hand could not be saved and will be lost when the page is closed.")
+      }
+    },
+    [],
+  )
+
+  const reviseHand = React.useCallback(async (record: HandRecord, transcription: TranscriptionRecord) => {
+    setHands((prev) => prev.map((hand) => (hand.id === record.id ? record : hand)))
+    try {
+      await saveHandRevision(record, transcription)
+    } catch (err) {
+      console.error("Error saving revised hand:", err)
+      setError("The re-formatted hand could not be saved and will be lost when the page is closed.")
+    }
+  }, [])
+
+  const updateHand = React.useCallback(async (record: HandRecord) => {
+    setHands((prev) => prev.map((hand) => (hand.id === record.id ? record : hand)))
+    try {
+      await saveHand(record)
+    } catch (err) {
+      console.error("Error saving edited hand:", err)
+      setError("The edited hand could not be saved and will be lost when the page is closed.")
+    }
+  }, [])
+
+  const removeHand = React.useCallback(async (id: string) => {
+    setHands((prev) => prev.filter((hand) => hand.id !== id))
+    setAnalyses(({ [id]: _removed, ...rest }) => rest)
+    try {
+      await deleteHand(id)
+    } catch (err) {
+      console.error("Error deleting hand:", err)
+    }
+  }, [])
+
+  const clearHands = React.useCallback(async () => {
+    setHands([])
+    setAnalyses({})
+    try {
+      await clearLibrary()
+    } catch (err) {
+      console.error("Error clearing hand library:", err)
+    }
+  }, [])
+
+  const storeAnalysis = React.useCallback(async (record: AnalysisRecord) => {
+    setAnalyses((prev) => ({ ...prev, [record.handId]: record }))
+    try {
+      await saveAnalysis(record)
+    } catch (err) {
+      console.error("Error saving analysis:", err)
+    }
+  }, [])
+
+  return { hands, analyses, isLoading, error, addHand, reviseHand, updateHand, removeHand, clearHands, storeAnalysis }
+}
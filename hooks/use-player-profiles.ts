@@ -0,0 +1,37 @@
+import * as React from "react"
+
+import { deletePlayer, listPlayers, savePlayer, type PlayerProfile } from "@/lib/hand-library"
+
+export function usePlayerProfiles() {
+  const [profiles, setProfiles] = React.useState<PlayerProfile[]>([])
+
+  React.useEffect(() => {
+    listPlayers()
+      .then(setProfiles)
+      .catch((err) => console.error("Error loading player profiles:", err))
+  }, [])
+
+  const saveProfile = React.useCallback(async (profile: PlayerProfile) => {
+    const updated = { ...profile, updatedAt: new Date() }
+    setProfiles((prev) => {
+      const others = prev.filter((existing) => existing.id !== updated.id)
+      return [...others, updated].sort((a, b) => a.name.localeCompare(b.name))
+    })
+    try {
+      await savePlayer(updated)
+    } catch (err) {
+      console.error("Error saving player profile:", err)
+    }
+  }, [])
+
+  const removeProfile = React.useCallback(async (id: string) => {
+    setProfiles((prev) => prev.filter((profile) => profile.id !== id))
+    try {
+      await deletePlayer(id)
+    } catch (err) {
+      console.error("Error deleting player profile:", err)
+    }
+  }, [])
+
+  return { profiles, saveProfile, removeProfile }
+}
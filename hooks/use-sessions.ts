@@ -0,0 +1,72 @@
+import * as React from "react"
+
+import { deleteSession, listSessions, saveSession, type SessionRecord } from "@/lib/hand-library"
+import type { GameSettingsType } from "@/components/game-settings"
+
+export function useSessions() {
+  const [sessions, setSessions] = React.useState<SessionRecord[]>([])
+
+  React.useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => console.error("Error loading sessions:", err))
+  }, [])
+
+  // Only one session can be open at a time
+  const activeSession = sessions.find((session) => session.endedAt === null) ?? null
+
+  const updateSession = React.useCallback(async (session: SessionRecord) => {
+    setSessions((prev) => {
+      const exists = prev.some((existing) => existing.id === session.id)
+      return exists ? prev.map((existing) => (existing.id === session.id ? session : existing)) : [...prev, session]
+    })
+    try {
+      await saveSession(session)
+    } catch (err) {
+      console.error("Error saving session:", err)
+    }
+  }, [])
+
+  const startSession = React.useCallback(
+    async (venue: string, buyIn: number, settings: GameSettingsType | null) => {
+      const session: SessionRecord = {
+        id: `session-${Date.now()}`,
+        venue,
+        settings,
+        buyIn,
+        rebuys: [],
+        cashOut: null,
+        startedAt: new Date(),
+        endedAt: null,
+      }
+      await updateSession(session)
+      return session
+    },
+    [updateSession],
+  )
+
+  const addRebuy = React.useCallback(
+    async (session: SessionRecord, amount: number) => {
+      await updateSession({ ...session, rebuys: [...session.rebuys, { amount, timestamp: new Date() }] })
+    },
+    [updateSession],
+  )
+
+  const endSession = React.useCallback(
+    async (session: SessionRecord, cashOut: number) => {
+      await updateSession({ ...session, cashOut, endedAt: new Date() })
+    },
+    [updateSession],
+  )
+
+  const removeSession = React.useCallback(async (id: string) => {
+    setSessions((prev) => prev.filter((session) => session.id !== id))
+    try {
+      await deleteSession(id)
+    } catch (err) {
+      console.error("Error deleting session:", err)
+    }
+  }, [])
+
+  return { sessions, activeSession, startSession, addRebuy, endSession, removeSession }
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+
+import type { VocabularyEntry } from "@/lib/poker-vocabulary"
+
+const STORAGE_KEY = "poker-vocabulary"
+
+export function useVocabulary() {
+  const [vocabulary, setVocabulary] = React.useState<VocabularyEntry[]>([])
+
+  React.useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (!saved) return
+    try {
+      setVocabulary(JSON.parse(saved))
+    } catch (err) {
+      console.error("Error parsing saved vocabulary:", err)
+    }
+  }, [])
+
+  const saveVocabulary = React.useCallback((entries: VocabularyEntry[]) => {
+    const cleaned = entries
+      .map((entry) => ({ spoken: entry.spoken.trim(), written: entry.written.trim() }))
+      .filter((entry) => entry.spoken && entry.written)
+    setVocabulary(cleaned)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cleaned))
+  }, [])
+
+  return { vocabulary, saveVocabulary }
+}
@@ -0,0 +1,106 @@
+import * as React from "react"
+
+import { parseVoiceCommand, type VoiceCommand } from "@/lib/voice-commands"
+
+// The parts of the Web Speech API used here, which TypeScript's DOM types don't include yet
+interface SpeechRecognitionLike {
+  continuous: boolean
+  interimResults: boolean
+  lang: string
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === "undefined") return null
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null
+}
+
+/**
+ * Listens for spoken commands with the browser's speech recognition while enabled
+ * @param enabled Whether to listen, e.g. only while recording in continuous mode
+ * @param onCommand Called with each command heard, always the latest callback passed in
+ */
+export function useVoiceCommands(enabled: boolean, onCommand: (command: VoiceCommand) => void) {
+  const [isSupported, setIsSupported] = React.useState(false)
+  const [isListening, setIsListening] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Always act with the latest state, the recogniser outlives many renders
+  const onCommandRef = React.useRef(onCommand)
+  onCommandRef.current = onCommand
+
+  React.useEffect(() => {
+    setIsSupported(getSpeechRecognition() !== null)
+  }, [])
+
+  React.useEffect(() => {
+    const SpeechRecognition = getSpeechRecognition()
+    if (!enabled || !SpeechRecognition) return
+
+    let stopped = false
+    const recognition = new SpeechRecognition()
+    recognition.continuous = true
+    recognition.interimResults = false
+    recognition.lang = "en-US"
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (!result.isFinal) continue
+        const command = parseVoiceCommand(result[0].transcript)
+        if (command) onCommandRef.current(command)
+      }
+    }
+
+    recognition.onerror = (event) => {
+      // Silence and aborts are routine, the recogniser is simply restarted
+      if (event.error === "no-speech" || event.error === "aborted") return
+      console.error("Speech recognition error:", event.error)
+      if (event.error === "not-allowed" || event.error === "service-not-allowed") {
+        stopped = true
+        setError("Voice commands need speech recognition permission.")
+      }
+    }
+
+    // Browsers end recognition after a while even in continuous mode, so keep it going until disabled
+    recognition.onend = () => {
+      if (stopped) {
+        setIsListening(false)
+        return
+      }
+      try {
+        recognition.start()
+      } catch (err) {
+        console.error("Error restarting speech recognition:", err)
+        setIsListening(false)
+      }
+    }
+
+    try {
+      recognition.start()
+      setIsListening(true)
+      setError(null)
+    } catch (err) {
+      console.error("Error starting speech recognition:", err)
+      setError("Voice commands could not be started.")
+    }
+
+    return () => {
+      stopped = true
+      recognition.stop()
+      setIsListening(false)
+    }
+  }, [enabled])
+
+  return { isSupported, isListening, error }
+}
@@ -0,0 +1,101 @@
+// This file defines the AI backends the app can talk to and the settings used to pick one
+
+import { z } from "zod"
+
+export const AI_PROVIDERS = ["openai", "local"] as const
+
+// A local OpenAI-compatible server, e.g. llama.cpp's llama-server
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:8080/v1"
+// whisper.cpp and most other local speech servers run separately from the language model
+export const DEFAULT_LOCAL_TRANSCRIPTION_URL = "http://localhost:8081/v1"
+export const DEFAULT_LOCAL_MODEL = "local-model"
+
+export const providerSettingsSchema = z.object({
+  provider: z.enum(AI_PROVIDERS).default("openai"),
+  apiKey: z.string().trim().optional(),
+  baseUrl: z.string().trim().url().optional(),
+  transcriptionUrl: z.string().trim().url().optional(),
+  model: z.string().trim().min(1).optional(),
+})
+
+export type AIProviderName = (typeof AI_PROVIDERS)[number]
+export type ProviderSettings = z.infer<typeof providerSettingsSchema>
+
+// A single spoken word, with times in seconds from the start of the recording
+export interface TranscriptWord {
+  start: number
+  end: number
+  word: string
+}
+
+// A stretch of speech, with times in seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+  // The segment's words in order, when the speech model gives word timestamps
+  words?: TranscriptWord[]
+}
+
+export interface Transcript {
+  text: string
+  segments: TranscriptSegment[]
+}
+
+export interface TranscribeOptions {
+  // Example text the speech model leans towards, e.g. poker terms and player names it should spell right
+  prompt?: string
+}
+
+export interface ObjectRequest<T> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  schemaName: string
+  schemaDescription: string
+  prompt: string
+}
+
+export interface CompletionOptions {
+  model?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+// Everything the routes need from an AI backend
+export interface AIProvider {
+  name: AIProviderName
+  // Human-readable name of the backend and model, e.g. "OpenAI gpt-4o"
+  describe(model?: string): string
+  transcribe(audio: Blob, fileName: string, options?: TranscribeOptions): Promise<Transcript>
+  generateObject<T>(request: ObjectRequest<T>): Promise<T>
+  streamCompletion(prompt: string, options?: CompletionOptions): AsyncIterable<string>
+  // Checks the credentials or that the local server is reachable
+  validate(): Promise<boolean>
+}
+
+/**
+ * Reads the provider settings sent with a request, treating a bare API key as the OpenAI provider
+ * @param value The `provider` field of the request, if any
+ * @param apiKey The top-level `apiKey` field older clients send
+ * @returns The settings, and why they can't be used if they're incomplete or invalid
+ */
+export function parseProviderSettings(
+  value: unknown,
+  apiKey?: unknown,
+): { settings: ProviderSettings; error: string | null } {
+  const parsed = providerSettingsSchema.safeParse(value ?? {})
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { settings: { provider: "openai" }, error: `Invalid provider settings: ${issue.path.join(".")} ${issue.message}` }
+  }
+
+  const settings = parsed.data
+  if (!settings.apiKey && typeof apiKey === "string" && apiKey.trim()) {
+    settings.apiKey = apiKey.trim()
+  }
+
+  if (settings.provider === "openai") {
+    if (!settings.apiKey) return { settings, error: "No API key provided" }
+    if (!settings.apiKey.startsWith("sk-")) return { settings, error: "Invalid API key format" }
+  }
+  return { settings, error: null }
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest"
+import { allInEv, computeLuck } from "./all-in-ev"
+import type { AllInEquity } from "./equity"
+import type { Hand } from "./hand"
+import type { HandRecord } from "./hand-library"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+
+// Hero gets it in preflop with ace king against queens and loses
+const coinFlip: Hand = {
+  game: { type: "cash", variant: "nlhe", currency: "$", smallBlind: 1, bigBlind: 2, ante: 0, anteType: "everyone" },
+  maxSeats: 6,
+  buttonSeat: 1,
+  seats: [
+    { seat: 1, player: "Hero", position: "BTN", stack: 100, holeCards: ["Ah", "Kd"], isHero: true },
+    { seat: 2, player: "Bob", position: "BB", stack: 150, holeCards: ["Qs", "Qc"], isHero: false },
+  ],
+  actions: [
+    { street: "preflop", player: "Hero", type: "post-small-blind", amount: 1, allIn: false },
+    { street: "preflop", player: "Bob", type: "post-big-blind", amount: 2, allIn: false },
+    { street: "preflop", player: "Hero", type: "raise", amount: 100, allIn: true },
+    { street: "preflop", player: "Bob", type: "call", amount: 98, allIn: false },
+  ],
+  board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+  extraBoards: [],
+  bombPot: false,
+  pots: [{ amount: 200, winners: [{ player: "Bob", amount: 200 }] }],
+  rake: 0,
+}
+
+const coinFlipEquity: AllInEquity = {
+  street: "preflop",
+  board: [],
+  players: [
+    { player: "Hero", holeCards: ["Ah", "Kd"], win: 0.46, tie: 0, equity: 0.46 },
+    { player: "Bob", holeCards: ["Qs", "Qc"], win: 0.54, tie: 0, equity: 0.54 },
+  ],
+  method: "monte-carlo",
+  samples: 20000,
+}
+
+const record = (id: string, hand: Hand, equity: AllInEquity | null, sessionId: string | null, minute: number): HandRecord => ({
+  id,
+  hand,
+  text: "",
+  attempts: 1,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 20, minute)),
+  settings: null,
+  sessionId,
+  equity,
+})
+
+describe("allInEv", () => {
+  it("values the hero's share of the pot at their equity", () => {
+    expect(allInEv(coinFlip, coinFlipEquity)).toEqual({ actual: -100, expected: -8 })
+  })
+
+  it("takes the rake out of the expected share", () => {
+    const raked = { ...coinFlip, pots: [{ amount: 190, winners: [{ player: "Bob", amount: 190 }] }], rake: 10 }
+
+    expect(allInEv(raked, coinFlipEquity)?.expected).toBeCloseTo(0.46 * 190 - 100)
+  })
+
+  it("only counts what the hero can win from a bigger stack", () => {
+    // Bob put in 148 against Hero's 100, the extra 48 isn't Hero's to win
+    const bigCall = {
+      ...coinFlip,
+      actions: [...coinFlip.actions.slice(0, 3), { ...coinFlip.actions[3], amount: 146 }],
+    }
+
+    expect(allInEv(bigCall, coinFlipEquity)).toEqual({ actual: -100, expected: -8 })
+  })
+
+  it("skips all-ins the hero isn't part of, and river all-ins", () => {
+    const bobOnly = { ...coinFlipEquity, players: coinFlipEquity.players.slice(1) }
+
+    expect(allInEv(coinFlip, bobOnly)).toBeNull()
+    expect(allInEv(coinFlip, { ...coinFlipEquity, street: "river" })).toBeNull()
+    expect(allInEv(coinFlip, null)).toBeNull()
+  })
+
+  it("counts the hero calling a villain's all-in, but not a villain's all-in that leaves the hero a side pot", () => {
+    // Bob shoves and Hero calls with chips behind, so nobody is left to bet against Hero
+    const heroCalls: Hand = {
+      ...coinFlip,
+      seats: coinFlip.seats.map((seat) => ({ ...seat, stack: seat.isHero ? 150 : 100 })),
+      actions: [
+        ...coinFlip.actions.slice(0, 2),
+        { street: "preflop", player: "Hero", type: "raise", amount: 6, allIn: false },
+        { street: "preflop", player: "Bob", type: "raise", amount: 100, allIn: true },
+        { street: "preflop", player: "Hero", type: "call", amount: 94, allIn: false },
+      ],
+    }
+    // Short shoves, and Hero and Bob call then play on with a side pot
+    const sidePot: Hand = {
+      ...coinFlip,
+      seats: [
+        ...coinFlip.seats,
+        { seat: 3, player: "Short", position: "UTG", stack: 20, holeCards: ["7h", "7d"], isHero: false },
+      ],
+      actions: [
+        ...coinFlip.actions.slice(0, 2),
+        { street: "preflop", player: "Short", type: "raise", amount: 20, allIn: true },
+        { street: "preflop", player: "Hero", type: "call", amount: 19, allIn: false },
+        { street: "preflop", player: "Bob", type: "call", amount: 18, allIn: false },
+        { street: "flop", player: "Hero", type: "bet", amount: 30, allIn: false },
+        { street: "flop", player: "Bob", type: "fold", amount: 0, allIn: false },
+      ],
+    }
+    const threeWay: AllInEquity = {
+      ...coinFlipEquity,
+      players: [...coinFlipEquity.players, { player: "Short", holeCards: ["7h", "7d"], win: 0.2, tie: 0, equity: 0.2 }],
+    }
+
+    expect(allInEv(heroCalls, coinFlipEquity)).not.toBeNull()
+    expect(allInEv(sidePot, threeWay)).toBeNull()
+  })
+})
+
+describe("computeLuck", () => {
+  const hands = [
+    record("hand-2", coinFlip, coinFlipEquity, "session-1", 30),
+    record("hand-1", handFixture as Hand, null, "session-1", 10),
+    record("hand-3", handFixture as Hand, null, null, 50),
+  ]
+
+  it("adds up actual and all-in adjusted winnings in order", () => {
+    const luck = computeLuck(hands)
+
+    // Hero wins 15 net in the fixture hand, and loses 100 where the all-in was worth -8
+    expect(luck.points.map((point) => point.handId)).toEqual(["hand-1", "hand-2", "hand-3"])
+    expect(luck.points.map((point) => point.cumulativeActual)).toEqual([15, -85, -70])
+    expect(luck.points.map((point) => point.cumulativeExpected)).toEqual([15, 7, 22])
+    expect(luck).toMatchObject({ allInHands: 1, actual: -70, expected: 22, luck: -92 })
+  })
+
+  it("totals each session separately", () => {
+    expect(computeLuck(hands).sessions).toEqual([
+      { sessionId: "session-1", hands: 2, allInHands: 1, actual: -85, expected: 7, luck: -92 },
+      { sessionId: null, hands: 1, allInHands: 0, actual: 15, expected: 15, luck: 0 },
+    ])
+  })
+
+  it("leaves out tournament hands", () => {
+    const tournament = { ...coinFlip, game: { ...coinFlip.game, type: "tournament" as const } }
+
+    expect(computeLuck([record("hand-1", tournament, coinFlipEquity, null, 0)]).points).toEqual([])
+  })
+})
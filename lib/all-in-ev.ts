@@ -0,0 +1,147 @@
+// This file compares what the hero won with what their all-in equity was worth, to tell bad luck from bad play
+
+import { STREETS, roundChips, type Hand } from "@/lib/hand"
+import type { HandRecord } from "@/lib/hand-library"
+import type { AllInEquity } from "@/lib/equity"
+import { contributions } from "@/lib/side-pots"
+
+export interface HandEv {
+  // What the hero won or lost in the hand
+  actual: number
+  // What the hero would have won or lost on average had the board been run out many times
+  expected: number
+}
+
+export interface LuckPoint {
+  handId: string
+  label: string
+  cumulativeActual: number
+  // Actual winnings with every all-in hand counted at its expected value instead
+  cumulativeExpected: number
+}
+
+export interface SessionLuck {
+  // Hands recorded outside a session are grouped under null
+  sessionId: string | null
+  hands: number
+  allInHands: number
+  actual: number
+  expected: number
+  // Positive when the hero ran above their all-in equity
+  luck: number
+}
+
+export interface LuckSummary {
+  points: LuckPoint[]
+  sessions: SessionLuck[]
+  allInHands: number
+  actual: number
+  expected: number
+  luck: number
+}
+
+// Everything a player collected from the pots
+function winnings(hand: Hand, player: string): number {
+  return hand.pots.reduce(
+    (sum, pot) => sum + pot.winners.filter((winner) => winner.player === player).reduce((total, winner) => total + winner.amount, 0),
+    0,
+  )
+}
+
+/**
+ * Works out the hero's actual and all-in adjusted result for a hand where they were all-in before the river
+ * @param equity The equities computed for the hand's all-in, see allInEquity
+ * @returns The two results, or null when the hero wasn't in an all-in before the river
+ */
+export function allInEv(hand: Hand, equity: AllInEquity | null): HandEv | null {
+  const hero = hand.seats.find((seat) => seat.isHero)
+  const heroEquity = equity?.players.find((player) => player.player === hero?.player)
+  if (!hero || !equity || !heroEquity || equity.street === "river") return null
+
+  // The hero's money is only all in when they're all-in themselves, or they called an all-in with nobody else left to
+  // bet against. Otherwise a villain's all-in leaves the hero playing a side pot, which their equity doesn't value.
+  const allInBy = STREETS.indexOf(equity.street)
+  const allIn = new Set(
+    hand.actions
+      .filter((action) => action.allIn && STREETS.indexOf(action.street) <= allInBy)
+      .map((action) => action.player),
+  )
+  const withChips = equity.players.filter((player) => !allIn.has(player.player))
+  if (!allIn.has(hero.player) && withChips.length > 1) return null
+
+  const contributed = contributions(hand)
+  const paid = contributed.get(hero.player) ?? 0
+
+  // The hero can only win up to their own contribution from each player, less their share of the rake.
+  // Their equity against everyone still in is used for all of it, which is exact without side pots.
+  const eligible = [...contributed.values()].reduce((sum, amount) => sum + Math.min(amount, paid), 0)
+  const potsTotal = hand.pots.reduce((sum, pot) => sum + pot.amount, 0)
+  const afterRake = potsTotal + hand.rake > 0 ? eligible * (potsTotal / (potsTotal + hand.rake)) : 0
+
+  return {
+    actual: roundChips(winnings(hand, hero.player) - paid),
+    expected: roundChips(heroEquity.equity * afterRake - paid),
+  }
+}
+
+/**
+ * Totals the hero's actual and all-in adjusted winnings over every cash hand in the library, oldest first,
+ * per session and overall. Tournament chips aren't money, so tournament hands are left out.
+ */
+export function computeLuck(hands: HandRecord[]): LuckSummary {
+  const sorted = hands
+    .filter((record) => record.hand.game.type === "cash" && record.hand.seats.some((seat) => seat.isHero))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+  const points: LuckPoint[] = []
+  const sessions = new Map<string | null, SessionLuck>()
+  let actual = 0
+  let expected = 0
+  let allInHands = 0
+
+  for (const record of sorted) {
+    // Hands saved before equities were computed count without an all-in until theirs is worked out and saved
+    const equity = record.equity ?? null
+    const ev = allInEv(record.hand, equity)
+    const handActual = ev?.actual ?? heroResult(record.hand)
+    const handExpected = ev?.expected ?? handActual
+
+    actual = roundChips(actual + handActual)
+    expected = roundChips(expected + handExpected)
+    if (ev) allInHands++
+
+    const sessionId = record.sessionId ?? null
+    const session = sessions.get(sessionId) ?? { sessionId, hands: 0, allInHands: 0, actual: 0, expected: 0, luck: 0 }
+    session.hands++
+    if (ev) session.allInHands++
+    session.actual = roundChips(session.actual + handActual)
+    session.expected = roundChips(session.expected + handExpected)
+    session.luck = roundChips(session.actual - session.expected)
+    sessions.set(sessionId, session)
+
+    points.push({
+      handId: record.id,
+      label: record.timestamp.toLocaleString(),
+      cumulativeActual: actual,
+      cumulativeExpected: expected,
+    })
+  }
+
+  return {
+    points,
+    sessions: [...sessions.values()],
+    allInHands,
+    actual,
+    expected,
+    luck: roundChips(actual - expected),
+  }
+}
+
+// What the hero won less what they put in
+function heroResult(hand: Hand): number {
+  const hero = hand.seats.find((seat) => seat.isHero)
+  if (!hero) return 0
+
+  const paid = contributions(hand).get(hero.player) ?? 0
+  return roundChips(winnings(hand, hero.player) - paid)
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { encodeWav, planChunks, stitchTranscripts } from "./audio-chunks"
+
+const SAMPLE_RATE = 100
+
+// A constant tone with silent stretches at the given times, in seconds
+function tone(seconds: number, silences: [number, number][] = []) {
+  const samples = new Float32Array(seconds * SAMPLE_RATE).fill(0.5)
+  for (const [from, to] of silences) samples.fill(0, from * SAMPLE_RATE, to * SAMPLE_RATE)
+  return samples
+}
+
+describe("planChunks", () => {
+  it("keeps a short recording whole", () => {
+    expect(planChunks(tone(30), SAMPLE_RATE, 60)).toEqual([{ start: 0, end: 30 }])
+  })
+
+  it("cuts at a pause before the limit", () => {
+    const ranges = planChunks(tone(100, [[50, 51]]), SAMPLE_RATE, 60)
+
+    expect(ranges).toHaveLength(2)
+    expect(ranges[0].end).toBeGreaterThanOrEqual(50)
+    expect(ranges[0].end).toBeLessThanOrEqual(51)
+    expect(ranges[1]).toEqual({ start: ranges[0].end, end: 100 })
+  })
+
+  it("never makes a chunk longer than the limit", () => {
+    const ranges = planChunks(tone(250), SAMPLE_RATE, 60)
+
+    expect(ranges[0].start).toBe(0)
+    expect(ranges[ranges.length - 1].end).toBe(250)
+    for (const range of ranges) expect(range.end - range.start).toBeLessThanOrEqual(60)
+  })
+})
+
+describe("encodeWav", () => {
+  it("writes a 44 byte header followed by 16-bit samples", async () => {
+    const blob = encodeWav(new Float32Array([0, 1, -1]), 16000)
+    const view = new DataView(await blob.arrayBuffer())
+
+    expect(blob.size).toBe(50)
+    expect(view.getUint32(24, true)).toBe(16000)
+    expect(view.getInt16(46, true)).toBe(0x7fff)
+    expect(view.getInt16(48, true)).toBe(-0x8000)
+  })
+})
+
+describe("stitchTranscripts", () => {
+  it("drops speech heard twice in the overlap", () => {
+    const transcript = stitchTranscripts([
+      {
+        range: { start: 0, end: 60 },
+        transcript: {
+          text: "",
+          segments: [
+            { start: 50, end: 58, text: "Mike raises to 10" },
+            { start: 59, end: 62, text: "I call" },
+          ],
+        },
+      },
+      {
+        range: { start: 60, end: 90 },
+        transcript: {
+          text: "",
+          segments: [
+            { start: 59, end: 62, text: "I call" },
+            { start: 63, end: 70, text: "Flop comes ace king four" },
+          ],
+        },
+      },
+    ])
+
+    expect(transcript.text).toBe("Mike raises to 10 I call Flop comes ace king four")
+    expect(transcript.segments).toHaveLength(3)
+  })
+})
@@ -0,0 +1,179 @@
+// This file splits long recordings into chunks small enough to transcribe and stitches the transcripts back together
+
+import type { Transcript, TranscriptSegment } from "@/lib/ai-provider"
+
+// Chunks are re-encoded as 16 kHz mono 16-bit WAV, about 1.9 MB a minute, so ten minutes stays well under 25 MB
+export const CHUNK_SAMPLE_RATE = 16000
+export const MAX_CHUNK_SECONDS = 600
+
+// Each chunk also carries this much audio from its neighbours, so words at a cut aren't lost
+export const CHUNK_OVERLAP_SECONDS = 2
+
+// How far back from the longest allowed chunk to look for a pause to cut at
+const SILENCE_SEARCH_SECONDS = 60
+// Length of the quiet stretch being looked for
+const SILENCE_WINDOW_SECONDS = 0.5
+// Loudness is measured over frames of this length
+const FRAME_SECONDS = 0.05
+
+// A stretch of the recording, with its boundaries in seconds
+export interface ChunkRange {
+  start: number
+  end: number
+}
+
+export interface AudioChunk extends ChunkRange {
+  // Where the chunk's audio actually starts, which is before `start` by the overlap
+  offset: number
+  blob: Blob
+}
+
+// Root mean square loudness of each frame
+function frameLoudness(samples: Float32Array, sampleRate: number): Float32Array {
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate))
+  const loudness = new Float32Array(Math.ceil(samples.length / frameLength))
+  for (let frame = 0; frame < loudness.length; frame++) {
+    const from = frame * frameLength
+    const to = Math.min(from + frameLength, samples.length)
+    let sum = 0
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i]
+    loudness[frame] = Math.sqrt(sum / (to - from))
+  }
+  return loudness
+}
+
+/**
+ * Decides where to cut a recording so no chunk is longer than the limit, preferring the quietest pause near each limit
+ * @param samples Mono audio samples
+ * @param sampleRate Samples per second
+ * @param maxChunkSeconds Longest allowed chunk, not counting the overlap
+ * @returns Back-to-back ranges covering the whole recording
+ */
+export function planChunks(samples: Float32Array, sampleRate: number, maxChunkSeconds = MAX_CHUNK_SECONDS): ChunkRange[] {
+  const duration = samples.length / sampleRate
+  if (duration <= maxChunkSeconds) return [{ start: 0, end: duration }]
+
+  const loudness = frameLoudness(samples, sampleRate)
+  const windowFrames = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS / FRAME_SECONDS))
+  const searchSeconds = Math.min(SILENCE_SEARCH_SECONDS, maxChunkSeconds / 2)
+
+  const ranges: ChunkRange[] = []
+  let start = 0
+  while (duration - start > maxChunkSeconds) {
+    // Slide a window over the search area and cut in the middle of the quietest one
+    const firstFrame = Math.floor((start + maxChunkSeconds - searchSeconds) / FRAME_SECONDS)
+    const lastFrame = Math.floor((start + maxChunkSeconds) / FRAME_SECONDS) - windowFrames
+    let cutFrame = lastFrame + windowFrames
+    let quietest = Infinity
+    for (let frame = firstFrame; frame <= lastFrame; frame++) {
+      let sum = 0
+      for (let i = frame; i < frame + windowFrames; i++) sum += loudness[i] ?? 0
+      if (sum < quietest) {
+        quietest = sum
+        cutFrame = frame + Math.floor(windowFrames / 2)
+      }
+    }
+
+    const end = Math.min(cutFrame * FRAME_SECONDS, start + maxChunkSeconds)
+    ranges.push({ start, end })
+    start = end
+  }
+  ranges.push({ start, end: duration })
+  return ranges
+}
+
+/**
+ * Encodes mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2)
+  const view = new DataView(buffer)
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+  }
+
+  writeString(0, "RIFF")
+  view.setUint32(4, 36 + samples.length * 2, true)
+  writeString(8, "WAVE")
+  writeString(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // Mono
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeString(36, "data")
+  view.setUint32(40, samples.length * 2, true)
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]))
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+  }
+
+  return new Blob([buffer], { type: "audio/wav" })
+}
+
+/**
+ * Decodes any format the browser can play into mono samples at the chunk sample rate. Only works in the browser.
+ */
+export async function decodeMono(blob: Blob): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, CHUNK_SAMPLE_RATE)
+  const audio = await context.decodeAudioData(await blob.arrayBuffer())
+
+  const mono = new Float32Array(audio.length)
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / audio.numberOfChannels
+  }
+  return mono
+}
+
+/**
+ * Splits a recording into overlapping WAV chunks cut at pauses. Only works in the browser.
+ */
+export async function splitAudio(blob: Blob, maxChunkSeconds = MAX_CHUNK_SECONDS): Promise<AudioChunk[]> {
+  const samples = await decodeMono(blob)
+  const duration = samples.length / CHUNK_SAMPLE_RATE
+
+  return planChunks(samples, CHUNK_SAMPLE_RATE, maxChunkSeconds).map(({ start, end }) => {
+    const offset = Math.max(0, start - CHUNK_OVERLAP_SECONDS)
+    const to = Math.min(duration, end + CHUNK_OVERLAP_SECONDS)
+    const chunkSamples = samples.subarray(Math.floor(offset * CHUNK_SAMPLE_RATE), Math.ceil(to * CHUNK_SAMPLE_RATE))
+    return { start, end, offset, blob: encodeWav(chunkSamples, CHUNK_SAMPLE_RATE) }
+  })
+}
+
+/**
+ * Cuts stretches out of a recording as separate WAV files, e.g. one per hand. Only works in the browser.
+ */
+export async function sliceAudio(blob: Blob, ranges: ChunkRange[]): Promise<Blob[]> {
+  const samples = await decodeMono(blob)
+  return ranges.map(({ start, end }) =>
+    encodeWav(
+      samples.subarray(Math.floor(start * CHUNK_SAMPLE_RATE), Math.ceil(end * CHUNK_SAMPLE_RATE)),
+      CHUNK_SAMPLE_RATE,
+    ),
+  )
+}
+
+/**
+ * Joins the transcripts of overlapping chunks, keeping each segment from the chunk it mostly belongs to
+ * @param parts Each chunk's range with its transcript, whose times are already relative to the whole recording
+ */
+export function stitchTranscripts(parts: { range: ChunkRange; transcript: Transcript }[]): Transcript {
+  const segments: TranscriptSegment[] = []
+
+  parts.forEach(({ range, transcript }, index) => {
+    const isLast = index === parts.length - 1
+    for (const segment of transcript.segments) {
+      // Speech in the overlap was heard twice, so only the chunk that owns its midpoint keeps it
+      const middle = (segment.start + segment.end) / 2
+      if (middle >= range.start && (middle < range.end || isLast) && segment.text) {
+        segments.push(segment)
+      }
+    }
+  })
+
+  return { text: segments.map((segment) => segment.text).join(" "), segments }
+}
@@ -0,0 +1,55 @@
+// This file checks audio files picked or dropped by the user before they're sent for transcription
+
+// Voice memo formats phones and recorders produce, all of which Whisper accepts
+export const AUDIO_FILE_TYPES: Record<string, string[]> = {
+  mp3: ["audio/mpeg", "audio/mp3"],
+  m4a: ["audio/mp4", "audio/x-m4a", "audio/m4a", "audio/aac"],
+  wav: ["audio/wav", "audio/x-wav", "audio/wave"],
+  webm: ["audio/webm", "video/webm"],
+  ogg: ["audio/ogg", "application/ogg"],
+}
+
+// OpenAI rejects transcription uploads above 25 MB, so bigger recordings are split into chunks first
+export const TRANSCRIPTION_UPLOAD_LIMIT_BYTES = 25 * 1024 * 1024
+
+// Splitting decodes the whole file in memory, which gets impractical beyond a few hours of audio
+export const MAX_AUDIO_FILE_BYTES = 500 * 1024 * 1024
+
+// Value for the file input's accept attribute
+export const AUDIO_FILE_ACCEPT = [
+  ...Object.keys(AUDIO_FILE_TYPES).map((extension) => `.${extension}`),
+  ...Object.values(AUDIO_FILE_TYPES).flat(),
+].join(",")
+
+const fileExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? ""
+
+/**
+ * Formats a byte count for display, e.g. "4.2 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Checks that a file is a supported audio format and small enough to upload
+ * @returns Why the file can't be used, or null if it's fine
+ */
+export function audioFileError(file: File): string | null {
+  // Some browsers leave the type empty for m4a files, so the extension is checked too
+  const extension = fileExtension(file.name)
+  const knownType = Object.values(AUDIO_FILE_TYPES).some((types) => types.includes(file.type))
+  if (!(extension in AUDIO_FILE_TYPES) && !knownType) {
+    return `Unsupported file type. Use ${Object.keys(AUDIO_FILE_TYPES).join(", ")}`
+  }
+
+  if (file.size === 0) {
+    return "File is empty"
+  }
+
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    return `File is ${formatFileSize(file.size)}, the limit is ${formatFileSize(MAX_AUDIO_FILE_BYTES)}`
+  }
+
+  return null
+}
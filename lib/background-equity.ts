@@ -0,0 +1,41 @@
+// This file works out all-in equity in a web worker, since sampling Omaha boards can hold up the page for a second
+
+import { allInEquity, type AllInEquity } from "@/lib/equity"
+import type { Hand } from "@/lib/hand"
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { hand: Hand; resolve: (equity: AllInEquity | null) => void }>()
+
+function startWorker(): Worker {
+  const started = new Worker(new URL("./equity.worker.ts", import.meta.url))
+  started.onmessage = (event: MessageEvent<{ id: number; equity: AllInEquity | null }>) => {
+    pending.get(event.data.id)?.resolve(event.data.equity)
+    pending.delete(event.data.id)
+  }
+  // A worker that fails to load or crashes leaves its hands to be worked out here instead
+  started.onerror = (error) => {
+    console.error("Equity worker failed, working out equity on the page:", error)
+    started.terminate()
+    worker = null
+    for (const [id, { hand, resolve }] of pending) {
+      resolve(allInEquity(hand))
+      pending.delete(id)
+    }
+  }
+  return started
+}
+
+/**
+ * Works out everyone's equity at the point an all-in was called without blocking the page, see allInEquity
+ */
+export function allInEquityInBackground(hand: Hand): Promise<AllInEquity | null> {
+  if (typeof Worker === "undefined") return Promise.resolve(allInEquity(hand))
+
+  worker ??= startWorker()
+  const id = nextId++
+  return new Promise((resolve) => {
+    pending.set(id, { hand, resolve })
+    worker?.postMessage({ id, hand })
+  })
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest"
+import { allInEquity, calculateEquity, checkEquityInput, maxIterations } from "./equity"
+import type { Hand } from "./hand"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+
+const cards = (text: string) => text.split(" ")
+
+// A small linear congruential generator, so sampled results are the same on every run
+function seededRandom(seed = 1) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+describe("calculateEquity", () => {
+  it("deals every river when there's one card to come", () => {
+    const result = calculateEquity([cards("As Ad"), cards("Kc Kh")], cards("Ah Kd 7c 2s"))
+
+    expect(result.method).toBe("exhaustive")
+    expect(result.samples).toBe(44)
+    // Only the last king beats the set of aces
+    expect(result.players[1].equity).toBeCloseTo(1 / 44)
+    expect(result.players[0].equity).toBeCloseTo(43 / 44)
+  })
+
+  it("splits the pot when everyone plays the board", () => {
+    const result = calculateEquity([cards("2c 3d"), cards("4c 5d")], cards("Ts Js Qs Ks As"))
+
+    expect(result.samples).toBe(1)
+    expect(result.players).toEqual([
+      { win: 0, tie: 1, equity: 0.5 },
+      { win: 0, tie: 1, equity: 0.5 },
+    ])
+  })
+
+  it("samples boards preflop", () => {
+    const result = calculateEquity([cards("Ah As"), cards("Kd Kc")], [], { iterations: 20000, random: seededRandom() })
+
+    expect(result.method).toBe("monte-carlo")
+    expect(result.samples).toBe(20000)
+    // Aces are about an 82% favourite over kings
+    expect(result.players[0].equity).toBeGreaterThan(0.8)
+    expect(result.players[0].equity).toBeLessThan(0.84)
+    expect(result.players[0].equity + result.players[1].equity).toBeCloseTo(1)
+  })
+
+  it("samples fewer boards the more work each one takes", () => {
+    const plo5 = [cards("Ah As Kh Qd 2s"), cards("Kd Kc 9s 9d 3s"), cards("7h 8h 6c 5c 4s"), cards("2c 3c Jh Th 5s")]
+    const result = calculateEquity(plo5, [], { iterations: 200000, variant: "plo5", random: seededRandom() })
+
+    expect(maxIterations("plo5", 4)).toBe(7500)
+    expect(maxIterations("nlhe", 2)).toBeGreaterThan(20000)
+    expect(result.samples).toBe(7500)
+  })
+
+  it("handles more than two players", () => {
+    const result = calculateEquity([cards("Ah As"), cards("Kd Kc"), cards("7h 8h")], cards("2c 9h Th"))
+    const total = result.players.reduce((sum, player) => sum + player.equity, 0)
+
+    expect(result.method).toBe("exhaustive")
+    expect(total).toBeCloseTo(1)
+  })
+
+  it("rejects a card dealt twice", () => {
+    expect(checkEquityInput([cards("Ah As"), cards("Ah Kc")], [])).toBe("Ah is used more than once")
+    expect(() => calculateEquity([cards("Ah As"), cards("Kd Kc")], cards("As 2c 3c"))).toThrow("As is used more than once")
+  })
+
+  it("rejects too few players or missing hole cards", () => {
+    expect(checkEquityInput([cards("Ah As")], [])).toBe("Equity needs 2 to 10 players")
+    expect(checkEquityInput([cards("Ah As"), ["Kd"]], [])).toBe(
+      "Every player needs exactly 2 hole cards in No Limit Hold'em",
+    )
+  })
+
+  it("makes Omaha hands from exactly two hole cards", () => {
+    // The ace of hearts would make a flush in Hold'em, but Omaha needs two hearts from the hand, so the straight wins
+    const result = calculateEquity([cards("Ah Kc Qd Jc"), cards("2c 2d 7s 8s")], cards("3h 6h 9h Th 4c"), {
+      variant: "plo",
+    })
+
+    expect(result.samples).toBe(1)
+    expect(result.players.map((player) => player.equity)).toEqual([0, 1])
+  })
+
+  it("deals short deck runouts from a 36-card deck", () => {
+    const result = calculateEquity([cards("As Ad"), cards("Kc Kh")], cards("Ah Kd 7c 6s"), { variant: "short-deck" })
+
+    // 36 cards less the eight that are out
+    expect(result.samples).toBe(28)
+  })
+
+  it("checks hole cards and the deck for the variant", () => {
+    expect(checkEquityInput([cards("Ah As"), cards("Kd Kc")], [], "plo")).toBe(
+      "Every player needs exactly 4 hole cards in Pot Limit Omaha",
+    )
+    expect(checkEquityInput([cards("Ah As"), cards("Kd 5c")], [], "short-deck")).toBe("5c isn't in a short deck")
+  })
+})
+
+describe("allInEquity", () => {
+  const fixture = handFixture as Hand
+
+  // Hero shoves the flop and Bob calls with a flush draw
+  const allInHand: Hand = {
+    ...fixture,
+    seats: fixture.seats.map((seat) => (seat.player === "Bob" ? { ...seat, holeCards: ["8c", "9c"] } : seat)),
+    actions: [
+      ...fixture.actions.slice(0, 6),
+      { street: "flop", player: "Hero", type: "bet", amount: 194, allIn: true },
+      { street: "flop", player: "Bob", type: "call", amount: 194, allIn: false },
+    ],
+    board: { flop: ["As", "7c", "2c"], turn: "Kh", river: "3d" },
+  }
+
+  it("works out equity on the street the money went in", () => {
+    const equity = allInEquity(allInHand)
+
+    expect(equity?.street).toBe("flop")
+    expect(equity?.board).toEqual(["As", "7c", "2c"])
+    expect(equity?.method).toBe("exhaustive")
+    expect(equity?.players.map((player) => player.player)).toEqual(["Hero", "Bob"])
+    expect(equity?.players[0].equity).toBeGreaterThan(0.5)
+  })
+
+  it("uses the street the all-in was called on when the others go on to play a side pot", () => {
+    const sidePot: Hand = {
+      ...fixture,
+      seats: [
+        { ...fixture.seats[0], player: "Hero", stack: 50, holeCards: ["Ah", "Ad"], isHero: true },
+        { ...fixture.seats[1], player: "B", stack: 300, holeCards: ["Kh", "Kd"], isHero: false },
+        { ...fixture.seats[2], player: "C", stack: 300, holeCards: ["Qh", "Qd"], isHero: false },
+      ],
+      actions: [
+        { street: "preflop", player: "B", type: "post-small-blind", amount: 1, allIn: false },
+        { street: "preflop", player: "C", type: "post-big-blind", amount: 2, allIn: false },
+        { street: "preflop", player: "Hero", type: "raise", amount: 50, allIn: true },
+        { street: "preflop", player: "B", type: "call", amount: 49, allIn: false },
+        { street: "preflop", player: "C", type: "call", amount: 48, allIn: false },
+        ...(["flop", "turn", "river"] as const).flatMap((street) => [
+          { street, player: "B", type: "check" as const, amount: 0, allIn: false },
+          { street, player: "C", type: "check" as const, amount: 0, allIn: false },
+        ]),
+      ],
+      board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+    }
+
+    const equity = allInEquity(sidePot, { random: seededRandom(), iterations: 2000 })
+
+    expect(equity?.street).toBe("preflop")
+    expect(equity?.board).toEqual([])
+    expect(equity?.players.map((player) => player.player)).toEqual(["Hero", "B", "C"])
+  })
+
+  it("leaves out a seat that never acted", () => {
+    const sittingOut: Hand = {
+      ...allInHand,
+      seats: [...allInHand.seats, { seat: 4, player: "Away", position: "UTG", stack: 100, holeCards: [], isHero: false }],
+    }
+
+    expect(allInEquity(sittingOut)?.players.map((player) => player.player)).toEqual(["Hero", "Bob"])
+  })
+
+  it("skips hands without an all-in", () => {
+    expect(allInEquity(fixture)).toBeNull()
+  })
+
+  it("skips all-ins where a remaining player's cards aren't known", () => {
+    const unknown = { ...allInHand, seats: fixture.seats }
+    expect(allInEquity(unknown)).toBeNull()
+  })
+})
@@ -0,0 +1,250 @@
+// This file computes each player's share of the pot from known hole cards and a partial board
+
+import {
+  SHORT_DECK_MISSING_RANKS,
+  STREETS,
+  VARIANT_RULES,
+  boardThrough,
+  type Card,
+  type Hand,
+  type Street,
+  type Variant,
+} from "@/lib/hand"
+import { cardIndex, scoreHolding } from "@/lib/hand-evaluator"
+
+export interface PlayerEquity {
+  // Fractions from 0 to 1 of the boards where the player wins outright, or ties for the best hand
+  win: number
+  tie: number
+  // The player's expected share of the pot, counting a tie as their share of a split
+  equity: number
+}
+
+export interface EquityResult {
+  players: PlayerEquity[]
+  // Every remaining board is dealt when there are few enough, otherwise a random sample of them
+  method: "exhaustive" | "monte-carlo"
+  samples: number
+}
+
+export interface EquityOptions {
+  // Boards dealt when sampling, capped by maxIterations
+  iterations?: number
+  // Deal every remaining board when there are no more than this many
+  exhaustiveLimit?: number
+  // Returns numbers from 0 up to 1, Math.random unless a test needs repeatable samples
+  random?: () => number
+  // No Limit Hold'em unless given, which decides the deck, the hole cards and how hands rank
+  variant?: Variant
+}
+
+export interface AllInPlayer extends PlayerEquity {
+  player: string
+  holeCards: Card[]
+}
+
+// Equity of everyone still in the hand once the money went in
+export interface AllInEquity {
+  street: Street
+  board: Card[]
+  players: AllInPlayer[]
+  method: EquityResult["method"]
+  samples: number
+}
+
+export const MIN_EQUITY_PLAYERS = 2
+export const MAX_EQUITY_PLAYERS = 10
+
+const DEFAULT_ITERATIONS = 20000
+const DEFAULT_EXHAUSTIVE_LIMIT = 50000
+
+// Five-card hands scored per sample, summed over the players, that keep sampling to about a second.
+// A 4-way PLO5 hand scores 400 per board, so it gets 7500 boards where heads-up Hold'em gets the full default.
+const MAX_SAMPLING_WORK = 3_000_000
+
+// The first card index of a short deck, the 6 of spades, since cards are numbered rank times four plus suit
+const SHORT_DECK_FIRST_CARD = SHORT_DECK_MISSING_RANKS.length * 4
+
+// Number of ways to choose k of n
+function combinations(n: number, k: number): number {
+  let result = 1
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1)
+  }
+  return Math.round(result)
+}
+
+/**
+ * The most boards worth sampling for this many players in the variant, as Omaha scores every two cards from the
+ * hand with every three from the board, while Hold'em picks the best five of seven
+ */
+export function maxIterations(variant: Variant, players: number): number {
+  const rules = VARIANT_RULES[variant]
+  const handsPerPlayer = rules.omaha ? combinations(rules.holeCards, 2) * combinations(5, 3) : combinations(7, 5)
+  return Math.max(1, Math.floor(MAX_SAMPLING_WORK / (handsPerPlayer * Math.max(players, 1))))
+}
+
+/**
+ * Checks that equity can be calculated for these cards
+ * @returns A message saying what's wrong, or null when the cards are usable
+ */
+export function checkEquityInput(holeCards: Card[][], board: Card[], variant: Variant = "nlhe"): string | null {
+  const rules = VARIANT_RULES[variant]
+  if (holeCards.length < MIN_EQUITY_PLAYERS || holeCards.length > MAX_EQUITY_PLAYERS) {
+    return `Equity needs ${MIN_EQUITY_PLAYERS} to ${MAX_EQUITY_PLAYERS} players`
+  }
+  if (holeCards.some((cards) => cards.length !== rules.holeCards)) {
+    return `Every player needs exactly ${rules.holeCards} hole cards in ${rules.label}`
+  }
+  if (board.length > 5) {
+    return "The board has at most five cards"
+  }
+
+  const seen = new Set<Card>()
+  for (const card of [...holeCards.flat(), ...board]) {
+    if (seen.has(card)) return `${card} is used more than once`
+    if (rules.shortDeck && SHORT_DECK_MISSING_RANKS.includes(card[0])) return `${card} isn't in a short deck`
+    seen.add(card)
+  }
+
+  const deckSize = rules.shortDeck ? 52 - SHORT_DECK_FIRST_CARD : 52
+  if (seen.size + 5 - board.length > deckSize) {
+    return "There aren't enough cards left in the deck to finish the board"
+  }
+  return null
+}
+
+/**
+ * Calculates how often each player wins with the board run out from where it is
+ * @param holeCards The known hole cards for each of 2 to 10 players, as many as the variant deals
+ * @param board Zero to five board cards already dealt
+ * @throws Error if the cards can't be used, see checkEquityInput
+ */
+export function calculateEquity(holeCards: Card[][], board: Card[] = [], options: EquityOptions = {}): EquityResult {
+  const variant = options.variant ?? "nlhe"
+  const problem = checkEquityInput(holeCards, board, variant)
+  if (problem) throw new Error(problem)
+
+  const hands = holeCards.map((cards) => cards.map(cardIndex))
+  const dealt = board.map(cardIndex)
+  const used = new Set([...hands.flat(), ...dealt])
+  const firstCard = VARIANT_RULES[variant].shortDeck ? SHORT_DECK_FIRST_CARD : 0
+  const deck = Array.from({ length: 52 }, (_, card) => card).filter((card) => card >= firstCard && !used.has(card))
+  const needed = 5 - dealt.length
+
+  const wins = new Array<number>(hands.length).fill(0)
+  const ties = new Array<number>(hands.length).fill(0)
+  const shares = new Array<number>(hands.length).fill(0)
+  const scores = new Array<number>(hands.length).fill(0)
+  const runout = [...dealt]
+
+  // Scores everyone on one complete board and credits the winners
+  const showdown = () => {
+    let best = -1
+    for (let player = 0; player < hands.length; player++) {
+      scores[player] = scoreHolding(hands[player], runout, variant)
+      best = Math.max(best, scores[player])
+    }
+
+    const winners = scores.filter((score) => score === best).length
+    for (let player = 0; player < hands.length; player++) {
+      if (scores[player] !== best) continue
+      if (winners === 1) wins[player]++
+      else ties[player]++
+      shares[player] += 1 / winners
+    }
+  }
+
+  const exhaustiveLimit = options.exhaustiveLimit ?? DEFAULT_EXHAUSTIVE_LIMIT
+  const boards = combinations(deck.length, needed)
+  let samples = 0
+  let method: EquityResult["method"]
+
+  if (boards <= exhaustiveLimit) {
+    method = "exhaustive"
+    // Walk every combination of the needed cards by index, like an odometer
+    const picks = Array.from({ length: needed }, (_, index) => index)
+    while (true) {
+      runout.length = dealt.length
+      for (const pick of picks) runout.push(deck[pick])
+      showdown()
+      samples++
+
+      let position = needed - 1
+      while (position >= 0 && picks[position] === deck.length - needed + position) position--
+      if (position < 0) break
+      picks[position]++
+      for (let next = position + 1; next < needed; next++) picks[next] = picks[next - 1] + 1
+    }
+  } else {
+    method = "monte-carlo"
+    const random = options.random ?? Math.random
+    const iterations = Math.min(options.iterations ?? DEFAULT_ITERATIONS, maxIterations(variant, hands.length))
+    const shuffled = [...deck]
+
+    for (; samples < iterations; samples++) {
+      // A partial Fisher-Yates shuffle, only the cards that get dealt
+      runout.length = dealt.length
+      for (let i = 0; i < needed; i++) {
+        const swap = i + Math.floor(random() * (shuffled.length - i))
+        ;[shuffled[i], shuffled[swap]] = [shuffled[swap], shuffled[i]]
+        runout.push(shuffled[i])
+      }
+      showdown()
+    }
+  }
+
+  return {
+    players: hands.map((_, player) => ({
+      win: wins[player] / samples,
+      tie: ties[player] / samples,
+      equity: shares[player] / samples,
+    })),
+    method,
+    samples,
+  }
+}
+
+/**
+ * Works out everyone's equity at the point an all-in was called, with the board as it was then
+ * @returns The equities, or null when nobody was all-in, the all-in wasn't called or some hole cards aren't known
+ */
+export function allInEquity(hand: Hand, options: EquityOptions = {}): AllInEquity | null {
+  // The money went in on the first street to end with an all-in player still in the pot against someone. Players with
+  // chips left can go on betting a side pot after that, so it isn't always the last street with any action.
+  // Seats that never acted weren't dealt in, so only players with an action can be in the pot
+  const dealtIn = hand.seats.filter((seat) => hand.actions.some((action) => action.player === seat.player))
+  const folded = new Set<string>()
+  const allIn = new Set<string>()
+  let street: Street | null = null
+  for (const current of STREETS) {
+    for (const action of hand.actions.filter((action) => action.street === current)) {
+      if (action.type === "fold") folded.add(action.player)
+      if (action.allIn) allIn.add(action.player)
+    }
+    const inPot = dealtIn.filter((seat) => !folded.has(seat.player))
+    if (inPot.length >= MIN_EQUITY_PLAYERS && inPot.some((seat) => allIn.has(seat.player))) {
+      street = current
+      break
+    }
+  }
+  if (!street) return null
+
+  const remaining = dealtIn.filter((seat) => !folded.has(seat.player))
+  const variant = hand.game.variant
+  const holeCardCount = VARIANT_RULES[variant].holeCards
+  if (remaining.some((seat) => seat.holeCards.length !== holeCardCount)) return null
+
+  const board = boardThrough(hand.board, street)
+  const holeCards = remaining.map((seat) => seat.holeCards)
+  if (checkEquityInput(holeCards, board, variant)) return null
+
+  const result = calculateEquity(holeCards, board, { ...options, variant })
+  return {
+    street,
+    board,
+    players: remaining.map((seat, index) => ({ player: seat.player, holeCards: seat.holeCards, ...result.players[index] })),
+    method: result.method,
+    samples: result.samples,
+  }
+}
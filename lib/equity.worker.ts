@@ -0,0 +1,8 @@
+// This file is the web worker that works out all-in equity for the page, see background-equity.ts
+
+import { allInEquity } from "@/lib/equity"
+import type { Hand } from "@/lib/hand"
+
+self.onmessage = (event: MessageEvent<{ id: number; hand: Hand }>) => {
+  self.postMessage({ id: event.data.id, equity: allInEquity(event.data.hand) })
+}
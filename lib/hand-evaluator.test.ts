@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { evaluateHand, evaluateHolding } from "./hand-evaluator"
+
+const cards = (text: string) => text.split(" ")
+
+describe("evaluateHand", () => {
+  it.each([
+    ["Ah Kh Qh Jh Th 2c 3d", "straight-flush"],
+    ["Ah 2h 3h 4h 5h Kc Kd", "straight-flush"],
+    ["9c 9d 9h 9s Ah Kd 2c", "four-of-a-kind"],
+    ["Ac Ad Ah Kd Kc 2s 3s", "full-house"],
+    ["Ac Ad Ah Kd Kc Ks 3s", "full-house"],
+    ["2h 7h 9h Jh Kh Ac Ad", "flush"],
+    ["5c 6d 7h 8s 9c Ad Ac", "straight"],
+    ["Ac 2d 3h 4s 5c Kd Qc", "straight"],
+    ["7c 7d 7h Ks 2c 4d 9c", "three-of-a-kind"],
+    ["7c 7d Kh Ks 2c 4d 9c", "two-pair"],
+    ["7c 7d Ah Ks 2c 4d 9c", "pair"],
+    ["7c 8d Ah Ks 2c 4d Jc", "high-card"],
+  ])("reads %s as %s", (hand, category) => {
+    expect(evaluateHand(cards(hand)).category).toBe(category)
+  })
+
+  it("ranks the categories in order", () => {
+    const flush = evaluateHand(cards("2h 7h 9h Jh Kh"))
+    const straight = evaluateHand(cards("Tc Jd Qh Ks Ac"))
+    const fullHouse = evaluateHand(cards("2c 2d 2h 3s 3c"))
+
+    expect(flush.score).toBeGreaterThan(straight.score)
+    expect(fullHouse.score).toBeGreaterThan(flush.score)
+  })
+
+  it("breaks ties on kickers", () => {
+    const aceKicker = evaluateHand(cards("Qc Qd Ah 7s 2c"))
+    const kingKicker = evaluateHand(cards("Qh Qs Kh 7d 2d"))
+
+    expect(aceKicker.score).toBeGreaterThan(kingKicker.score)
+  })
+
+  it("plays the best five cards, ignoring the rest", () => {
+    const first = evaluateHand(cards("Ac Ad Kh Ks Qc 3d 2c"))
+    const second = evaluateHand(cards("Ah As Kc Kd Qd 5h 4h"))
+
+    expect(first.score).toBe(second.score)
+  })
+
+  it("counts a wheel as the lowest straight", () => {
+    const wheel = evaluateHand(cards("Ac 2d 3h 4s 5c"))
+    const sixHigh = evaluateHand(cards("2c 3d 4h 5s 6c"))
+
+    expect(sixHigh.score).toBeGreaterThan(wheel.score)
+  })
+
+  it("rejects hands that aren't five to seven cards", () => {
+    expect(() => evaluateHand(cards("Ac Ad Kh Ks"))).toThrow("five to seven cards")
+  })
+})
+
+describe("evaluateHolding", () => {
+  it("plays any five of seven cards in Hold'em", () => {
+    expect(evaluateHolding(cards("Ah 2c"), cards("3h 6h 9h Th 4c"), "nlhe").category).toBe("flush")
+  })
+
+  it("uses exactly two hole cards and three board cards in Omaha", () => {
+    // One heart in the hand makes no flush, and four of a kind on the board can't all play
+    expect(evaluateHolding(cards("Ah Kc Qd Jc"), cards("3h 6h 9h Th 4c"), "plo").category).toBe("high-card")
+    expect(evaluateHolding(cards("2c 3d 7s 8s Jh"), cards("9c 9d 9h 9s Kc"), "plo5").category).toBe("three-of-a-kind")
+  })
+
+  it("ranks a flush over a full house and trips over a straight in short deck", () => {
+    const flush = evaluateHolding(cards("Ah 7h"), cards("Th Jh 9h Kc Kd"), "short-deck")
+    const fullHouse = evaluateHolding(cards("Kh Ks"), cards("Th Jh 9h Kc Td"), "short-deck")
+    const trips = evaluateHolding(cards("6c 6d"), cards("6h 8s 9c Td Ah"), "short-deck")
+    const straight = evaluateHolding(cards("Jc Qd"), cards("6h 8s 9c Td Ah"), "short-deck")
+
+    expect(flush.category).toBe("flush")
+    expect(fullHouse.category).toBe("full-house")
+    expect(flush.score).toBeGreaterThan(fullHouse.score)
+    expect(trips.score).toBeGreaterThan(straight.score)
+  })
+
+  it("counts A-6-7-8-9 as the lowest straight in short deck", () => {
+    const wheel = evaluateHolding(cards("Ac 6d"), cards("7h 8s 9c Kd Kh"), "short-deck")
+    const tenHigh = evaluateHolding(cards("Tc 6d"), cards("7h 8s 9c Kd Qh"), "short-deck")
+
+    expect(wheel.category).toBe("straight")
+    expect(tenHigh.score).toBeGreaterThan(wheel.score)
+  })
+})
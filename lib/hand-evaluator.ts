@@ -0,0 +1,218 @@
+// This file ranks poker hands of five to seven cards so that showdowns and equities can be computed
+
+import { VARIANT_RULES, type Card, type Variant } from "@/lib/hand"
+
+export const HAND_CATEGORIES = [
+  "high-card",
+  "pair",
+  "two-pair",
+  "three-of-a-kind",
+  "straight",
+  "flush",
+  "full-house",
+  "four-of-a-kind",
+  "straight-flush",
+] as const
+
+export type HandCategory = (typeof HAND_CATEGORIES)[number]
+
+export const HAND_CATEGORY_LABELS: Record<HandCategory, string> = {
+  "high-card": "High card",
+  pair: "Pair",
+  "two-pair": "Two pair",
+  "three-of-a-kind": "Three of a kind",
+  straight: "Straight",
+  flush: "Flush",
+  "full-house": "Full house",
+  "four-of-a-kind": "Four of a kind",
+  "straight-flush": "Straight flush",
+}
+
+export interface HandValue {
+  category: HandCategory
+  // Higher beats lower, equal scores split the pot
+  score: number
+}
+
+const RANK_ORDER = "23456789TJQKA"
+const SUIT_ORDER = "shdc"
+
+// Bits for A-2-3-4-5, where the ace plays low
+const WHEEL = 0b1000000001111
+
+// Bits for A-6-7-8-9, the lowest straight in short deck
+const SHORT_DECK_WHEEL = 0b1000011110000
+
+// Where each category in HAND_CATEGORIES ranks in short deck, with flushes over full houses and trips over straights
+const SHORT_DECK_STRENGTH = [0, 1, 2, 4, 3, 6, 5, 7, 8]
+
+/**
+ * Turns a card like "Ah" into a number from 0 to 51, rank times four plus suit, which is what the evaluator works on
+ * @throws Error if the card isn't rank + suit
+ */
+export function cardIndex(card: Card): number {
+  const rank = RANK_ORDER.indexOf(card[0])
+  const suit = SUIT_ORDER.indexOf(card[1])
+  if (card.length !== 2 || rank === -1 || suit === -1) {
+    throw new Error(`Invalid card: ${card}`)
+  }
+  return rank * 4 + suit
+}
+
+// The top card of the best straight in a set of rank bits, or -1 when there's none
+function straightHigh(rankBits: number, shortDeck: boolean): number {
+  for (let high = 12; high >= 4; high--) {
+    const run = 0b11111 << (high - 4)
+    if ((rankBits & run) === run) return high
+  }
+  if (shortDeck) return (rankBits & SHORT_DECK_WHEEL) === SHORT_DECK_WHEEL ? 7 : -1
+  return (rankBits & WHEEL) === WHEEL ? 3 : -1
+}
+
+function countBits(bits: number): number {
+  let count = 0
+  for (let rest = bits; rest; rest &= rest - 1) count++
+  return count
+}
+
+// Packs the category's strength above up to five ranks of four bits each, most significant first
+function packScore(category: number, ranks: number[], shortDeck: boolean): number {
+  let score = shortDeck ? SHORT_DECK_STRENGTH[category] : category
+  for (let i = 0; i < 5; i++) {
+    score = score * 16 + (ranks[i] ?? 0)
+  }
+  return score
+}
+
+// Ranks of the set bits from highest to lowest, skipping any in `exclude`, at most `count` of them
+function highRanks(rankBits: number, count: number, exclude: number[] = []): number[] {
+  const ranks: number[] = []
+  for (let rank = 12; rank >= 0 && ranks.length < count; rank--) {
+    if (rankBits & (1 << rank) && !exclude.includes(rank)) ranks.push(rank)
+  }
+  return ranks
+}
+
+/**
+ * Scores the best five-card hand out of five to seven cards given as numbers from cardIndex
+ * @param shortDeck Rank the hand by short deck rules
+ */
+export function scoreCards(cards: number[], shortDeck = false): number {
+  const rankCounts = new Array<number>(13).fill(0)
+  const suitBits = [0, 0, 0, 0]
+  let rankBits = 0
+
+  for (const card of cards) {
+    const rank = card >> 2
+    rankCounts[rank]++
+    suitBits[card & 3] |= 1 << rank
+    rankBits |= 1 << rank
+  }
+
+  for (const bits of suitBits) {
+    // Five or more of a suit can't coexist with quads or a full house in seven cards
+    if (countBits(bits) >= 5) {
+      const high = straightHigh(bits, shortDeck)
+      return high !== -1 ? packScore(8, [high], shortDeck) : packScore(5, highRanks(bits, 5), shortDeck)
+    }
+  }
+
+  let quads = -1
+  const trips: number[] = []
+  const pairs: number[] = []
+  for (let rank = 12; rank >= 0; rank--) {
+    if (rankCounts[rank] === 4) quads = rank
+    else if (rankCounts[rank] === 3) trips.push(rank)
+    else if (rankCounts[rank] === 2) pairs.push(rank)
+  }
+
+  if (quads !== -1) {
+    return packScore(7, [quads, ...highRanks(rankBits, 1, [quads])], shortDeck)
+  }
+
+  if (trips.length > 0 && trips.length + pairs.length > 1) {
+    // A second set of trips plays as the pair
+    const pair = Math.max(trips[1] ?? -1, pairs[0] ?? -1)
+    return packScore(6, [trips[0], pair], shortDeck)
+  }
+
+  // Short deck checks for trips first, since they beat a straight there
+  const tripsScore = trips.length > 0 ? packScore(3, [trips[0], ...highRanks(rankBits, 2, [trips[0]])], shortDeck) : -1
+  if (shortDeck && tripsScore !== -1) return tripsScore
+
+  const high = straightHigh(rankBits, shortDeck)
+  if (high !== -1) return packScore(4, [high], shortDeck)
+
+  if (tripsScore !== -1) return tripsScore
+
+  if (pairs.length > 1) {
+    return packScore(2, [pairs[0], pairs[1], ...highRanks(rankBits, 1, [pairs[0], pairs[1]])], shortDeck)
+  }
+
+  if (pairs.length === 1) {
+    return packScore(1, [pairs[0], ...highRanks(rankBits, 3, [pairs[0]])], shortDeck)
+  }
+
+  return packScore(0, highRanks(rankBits, 5), shortDeck)
+}
+
+/**
+ * Scores a player's best hand from their hole cards and a board of three to five cards, all numbers from cardIndex.
+ * Omaha hands use exactly two hole cards and three board cards, Hold'em hands any five of the seven.
+ */
+export function scoreHolding(holeCards: number[], board: number[], variant: Variant): number {
+  const { omaha, shortDeck } = VARIANT_RULES[variant]
+  if (!omaha) return scoreCards([...holeCards, ...board], shortDeck)
+
+  let best = -1
+  const five = [0, 0, 0, 0, 0]
+  for (let first = 0; first < holeCards.length; first++) {
+    for (let second = first + 1; second < holeCards.length; second++) {
+      five[0] = holeCards[first]
+      five[1] = holeCards[second]
+      for (let a = 0; a < board.length; a++) {
+        for (let b = a + 1; b < board.length; b++) {
+          for (let c = b + 1; c < board.length; c++) {
+            five[2] = board[a]
+            five[3] = board[b]
+            five[4] = board[c]
+            best = Math.max(best, scoreCards(five, shortDeck))
+          }
+        }
+      }
+    }
+  }
+  return best
+}
+
+// Reads the category back out of a score, undoing the short deck reordering
+function categoryOf(score: number, shortDeck: boolean): HandCategory {
+  const strength = Math.floor(score / 16 ** 5)
+  return HAND_CATEGORIES[shortDeck ? SHORT_DECK_STRENGTH.indexOf(strength) : strength]
+}
+
+/**
+ * Finds the best five-card hand out of five to seven cards
+ * @throws Error if there are too few or too many cards, or a card is invalid
+ */
+export function evaluateHand(cards: Card[]): HandValue {
+  if (cards.length < 5 || cards.length > 7) {
+    throw new Error(`A hand is five to seven cards, got ${cards.length}`)
+  }
+
+  const score = scoreCards(cards.map(cardIndex))
+  return { category: categoryOf(score, false), score }
+}
+
+/**
+ * Finds a player's best hand in a variant from their hole cards and the board
+ * @throws Error if the board has fewer than three cards, or a card is invalid
+ */
+export function evaluateHolding(holeCards: Card[], board: Card[], variant: Variant): HandValue {
+  if (board.length < 3 || board.length > 5) {
+    throw new Error(`A board is three to five cards, got ${board.length}`)
+  }
+
+  const score = scoreHolding(holeCards.map(cardIndex), board.map(cardIndex), variant)
+  return { category: categoryOf(score, VARIANT_RULES[variant].shortDeck), score }
+}
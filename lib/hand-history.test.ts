@@ -0,0 +1,311 @@
+import { describe, expect, it } from "vitest"
+import { parseHandHistory, renderHandHistory } from "./hand-history"
+import type { Action, Hand, Position, Seat, Street } from "./hand"
+
+const seat = (number: number, player: string, position: Position, stack: number, holeCards: string[] = [], isHero = false): Seat => ({
+  seat: number,
+  player,
+  position,
+  stack,
+  holeCards,
+  isHero,
+})
+
+const action = (street: Street, player: string, type: Action["type"], amount = 0, allIn = false): Action => ({
+  street,
+  player,
+  type,
+  amount,
+  allIn,
+})
+
+const cashGame: Hand["game"] = {
+  type: "cash",
+  variant: "nlhe",
+  currency: "$",
+  smallBlind: 1,
+  bigBlind: 2,
+  ante: 0,
+  anteType: "everyone",
+}
+
+const roundTrip = (hand: Hand) => parseHandHistory(renderHandHistory(hand))
+
+describe("renderHandHistory and parseHandHistory", () => {
+  it("round trips a main pot and a side pot", () => {
+    const hand: Hand = {
+      game: cashGame,
+      maxSeats: 6,
+      buttonSeat: 3,
+      seats: [
+        seat(1, "Hero", "SB", 50, ["Ah", "Ad"], true),
+        seat(2, "Vil", "BB", 100, ["Kh", "Kd"]),
+        seat(3, "Big", "BTN", 300, ["Qh", "Qd"]),
+      ],
+      actions: [
+        action("preflop", "Hero", "post-small-blind", 1),
+        action("preflop", "Vil", "post-big-blind", 2),
+        action("preflop", "Big", "raise", 6),
+        action("preflop", "Hero", "raise", 50, true),
+        action("preflop", "Vil", "raise", 100, true),
+        action("preflop", "Big", "call", 94),
+      ],
+      board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+      extraBoards: [],
+      bombPot: false,
+      pots: [
+        { amount: 150, winners: [{ player: "Hero", amount: 150 }] },
+        { amount: 100, winners: [{ player: "Vil", amount: 100 }] },
+      ],
+      rake: 0,
+    }
+
+    expect(roundTrip(hand)).toEqual(hand)
+  })
+
+  it("round trips a tournament hand with antes, keeping the cards of a player who folded", () => {
+    const hand: Hand = {
+      game: { type: "tournament", variant: "nlhe", currency: "$", smallBlind: 50, bigBlind: 100, ante: 10, anteType: "everyone" },
+      maxSeats: 9,
+      buttonSeat: 1,
+      seats: [
+        seat(1, "Hero", "BTN", 5000, ["As", "Qs"], true),
+        seat(2, "Small", "SB", 3000),
+        seat(3, "Vil", "BB", 4000, ["Kh", "Kd"]),
+        seat(4, "Cutoff", "CO", 2500),
+      ],
+      actions: [
+        action("preflop", "Hero", "post-ante", 10),
+        action("preflop", "Small", "post-ante", 10),
+        action("preflop", "Vil", "post-ante", 10),
+        action("preflop", "Cutoff", "post-ante", 10),
+        action("preflop", "Small", "post-small-blind", 50),
+        action("preflop", "Vil", "post-big-blind", 100),
+        action("preflop", "Cutoff", "fold"),
+        action("preflop", "Hero", "raise", 250),
+        action("preflop", "Small", "fold"),
+        action("preflop", "Vil", "call", 150),
+        action("flop", "Vil", "check"),
+        action("flop", "Hero", "bet", 200),
+        action("flop", "Vil", "fold"),
+      ],
+      board: { flop: ["Ac", "8d", "3h"], turn: null, river: null },
+      extraBoards: [],
+      bombPot: false,
+      pots: [{ amount: 590, winners: [{ player: "Hero", amount: 590 }] }],
+      rake: 0,
+    }
+
+    expect(roundTrip(hand)).toEqual(hand)
+  })
+
+  it("round trips a straddle", () => {
+    const hand: Hand = {
+      game: cashGame,
+      maxSeats: 6,
+      buttonSeat: 1,
+      seats: [
+        seat(1, "Hero", "BTN", 200, ["Ah", "Kh"], true),
+        seat(2, "Small", "SB", 200),
+        seat(3, "Big", "BB", 200),
+        seat(4, "Straddler", "UTG", 200),
+        seat(5, "Hijack", "HJ", 200),
+        seat(6, "Cutoff", "CO", 200),
+      ],
+      actions: [
+        action("preflop", "Small", "post-small-blind", 1),
+        action("preflop", "Big", "post-big-blind", 2),
+        action("preflop", "Straddler", "post-straddle", 4),
+        action("preflop", "Hijack", "fold"),
+        action("preflop", "Cutoff", "fold"),
+        action("preflop", "Hero", "call", 4),
+        action("preflop", "Small", "fold"),
+        action("preflop", "Big", "fold"),
+        action("preflop", "Straddler", "check"),
+        action("flop", "Straddler", "check"),
+        action("flop", "Hero", "bet", 6),
+        action("flop", "Straddler", "call", 6),
+        action("turn", "Straddler", "check"),
+        action("turn", "Hero", "check"),
+        action("river", "Straddler", "bet", 10),
+        action("river", "Hero", "fold"),
+      ],
+      board: { flop: ["Qc", "8d", "3h"], turn: "2s", river: "7c" },
+      extraBoards: [],
+      bombPot: false,
+      pots: [{ amount: 23, winners: [{ player: "Straddler", amount: 23 }] }],
+      rake: 0,
+    }
+
+    expect(roundTrip(hand)).toEqual(hand)
+  })
+
+  it("round trips a hand run twice, keeping which board each share was won on", () => {
+    const hand: Hand = {
+      game: cashGame,
+      maxSeats: 6,
+      buttonSeat: 1,
+      seats: [seat(1, "Hero", "BTN", 100, ["As", "Ad"], true), seat(2, "Vil", "BB", 100, ["Kc", "Kh"])],
+      actions: [
+        action("preflop", "Hero", "post-small-blind", 1),
+        action("preflop", "Vil", "post-big-blind", 2),
+        action("preflop", "Hero", "raise", 100, true),
+        action("preflop", "Vil", "call", 98, true),
+      ],
+      board: { flop: ["Ah", "7d", "2c"], turn: "9s", river: "3h" },
+      extraBoards: [{ flop: ["Ah", "7d", "2c"], turn: "Kd", river: "Ks" }],
+      bombPot: false,
+      pots: [
+        {
+          amount: 200,
+          winners: [
+            { player: "Hero", amount: 100, board: 1 },
+            { player: "Vil", amount: 100, board: 2 },
+          ],
+        },
+      ],
+      rake: 0,
+    }
+
+    const text = renderHandHistory(hand)
+
+    expect(text).toContain("*** SECOND TURN *** [Ah 7d 2c] [Kd]")
+    expect(text).toContain("*** SECOND SHOW DOWN ***")
+    expect(parseHandHistory(text)).toEqual(hand)
+  })
+
+  it("round trips pot limit Omaha with rake", () => {
+    const hand: Hand = {
+      game: { ...cashGame, variant: "plo" },
+      maxSeats: 6,
+      buttonSeat: 2,
+      seats: [
+        seat(1, "Vil", "BB", 200, ["9c", "9s", "8c", "7c"]),
+        seat(2, "Hero", "BTN", 200, ["Ah", "Kh", "Qd", "Jd"], true),
+        seat(3, "Small", "SB", 200),
+      ],
+      actions: [
+        action("preflop", "Small", "post-small-blind", 1),
+        action("preflop", "Vil", "post-big-blind", 2),
+        action("preflop", "Hero", "raise", 7),
+        action("preflop", "Small", "fold"),
+        action("preflop", "Vil", "call", 5),
+        action("flop", "Vil", "check"),
+        action("flop", "Hero", "bet", 10),
+        action("flop", "Vil", "call", 10),
+        action("turn", "Vil", "check"),
+        action("turn", "Hero", "check"),
+        action("river", "Vil", "check"),
+        action("river", "Hero", "check"),
+      ],
+      board: { flop: ["Ts", "9h", "2d"], turn: "3c", river: "Jc" },
+      extraBoards: [],
+      bombPot: false,
+      pots: [{ amount: 34, winners: [{ player: "Hero", amount: 34 }] }],
+      rake: 1,
+    }
+
+    expect(roundTrip(hand)).toEqual(hand)
+  })
+
+  it("round trips Limit Hold'em, keeping the cards of a player who folded on the flop", () => {
+    const hand: Hand = {
+      game: { ...cashGame, variant: "limit-holdem" },
+      maxSeats: 6,
+      buttonSeat: 1,
+      seats: [
+        seat(1, "Hero", "BTN", 100, ["Ac", "Qc"], true),
+        seat(2, "Vil", "SB", 100, ["Kh", "Kd"]),
+        seat(3, "Big", "BB", 100),
+      ],
+      actions: [
+        action("preflop", "Vil", "post-small-blind", 1),
+        action("preflop", "Big", "post-big-blind", 2),
+        action("preflop", "Hero", "raise", 4),
+        action("preflop", "Vil", "call", 3),
+        action("preflop", "Big", "fold"),
+        action("flop", "Vil", "check"),
+        action("flop", "Hero", "bet", 2),
+        action("flop", "Vil", "fold"),
+      ],
+      board: { flop: ["Ad", "8s", "4h"], turn: null, river: null },
+      extraBoards: [],
+      bombPot: false,
+      pots: [{ amount: 10, winners: [{ player: "Hero", amount: 10 }] }],
+      rake: 0,
+    }
+
+    const text = renderHandHistory(hand)
+
+    expect(text).toContain("Vil: folds [Kh Kd]")
+    expect(parseHandHistory(text)).toEqual(hand)
+  })
+
+  it("round trips a bomb pot, marking a hero whose cards weren't mentioned", () => {
+    const hand: Hand = {
+      game: { ...cashGame, ante: 5 },
+      maxSeats: 6,
+      buttonSeat: 4,
+      seats: [
+        seat(1, "Small", "SB", 200, ["Jh", "Th"]),
+        seat(2, "Big", "BB", 200, ["8s", "8c"]),
+        seat(3, "Cutoff", "CO", 200),
+        seat(4, "Hero", "BTN", 200, [], true),
+      ],
+      actions: [
+        action("preflop", "Small", "post-ante", 5),
+        action("preflop", "Big", "post-ante", 5),
+        action("preflop", "Cutoff", "post-ante", 5),
+        action("preflop", "Hero", "post-ante", 5),
+        action("flop", "Small", "check"),
+        action("flop", "Big", "bet", 10),
+        action("flop", "Cutoff", "fold"),
+        action("flop", "Hero", "fold"),
+        action("flop", "Small", "call", 10),
+        action("turn", "Small", "check"),
+        action("turn", "Big", "check"),
+        action("river", "Small", "check"),
+        action("river", "Big", "check"),
+      ],
+      board: { flop: ["8h", "5d", "2s"], turn: "Kc", river: "4c" },
+      extraBoards: [],
+      bombPot: true,
+      pots: [{ amount: 40, winners: [{ player: "Big", amount: 40 }] }],
+      rake: 0,
+    }
+
+    expect(roundTrip(hand)).toEqual(hand)
+  })
+
+  it("leaves out the showdown when only one player who acted is left", () => {
+    const hand: Hand = {
+      game: cashGame,
+      maxSeats: 6,
+      buttonSeat: 1,
+      seats: [
+        seat(1, "Hero", "BTN", 100, ["Qs", "Qd"], true),
+        seat(2, "Small", "SB", 100),
+        seat(3, "Big", "BB", 100),
+        seat(4, "Away", "CO", 100),
+      ],
+      actions: [
+        action("preflop", "Small", "post-small-blind", 1),
+        action("preflop", "Big", "post-big-blind", 2),
+        action("preflop", "Hero", "raise", 6),
+        action("preflop", "Small", "fold"),
+        action("preflop", "Big", "fold"),
+      ],
+      board: { flop: [], turn: null, river: null },
+      extraBoards: [],
+      bombPot: false,
+      pots: [{ amount: 5, winners: [{ player: "Hero", amount: 5 }] }],
+      rake: 0,
+    }
+
+    const text = renderHandHistory(hand)
+
+    expect(text).not.toContain("SHOW DOWN")
+    expect(text).toContain("Seat 4: Away folded before Flop (didn't bet)")
+    expect(parseHandHistory(text)).toEqual(hand)
+  })
+})
@@ -0,0 +1,552 @@
+// This file renders structured hands to PokerStars hand history text and parses that text back
+
+import {
+  STREETS,
+  VARIANT_RULES,
+  allBoards,
+  boardThrough,
+  formatAmount,
+  handSchema,
+  positionsForSeats,
+  roundChips,
+  type Action,
+  type Board,
+  type Hand,
+  type PotWinner,
+  type Seat,
+  type Street,
+  type Variant,
+} from "@/lib/hand"
+import { uncalledBet } from "@/lib/side-pots"
+
+export interface RenderOptions {
+  handId?: string
+  playedAt?: Date
+  tableName?: string
+}
+
+const CURRENCY_CODES: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+}
+
+// Game names as they appear in PokerStars headers, each before any name it contains so parsing finds the right one
+const GAME_NAMES: [Variant, string][] = [
+  ["plo5", "5 Card Omaha Pot Limit"],
+  ["short-deck", "6+ Hold'em No Limit"],
+  ["plo", "Omaha Pot Limit"],
+  ["limit-holdem", "Hold'em Limit"],
+  ["nlhe", "Hold'em No Limit"],
+]
+
+// Run-it-twice boards are told apart by these in the street headers and the summary
+const BOARD_ORDINALS = ["FIRST", "SECOND", "THIRD"]
+
+const STREET_LABELS: Record<Street, string> = {
+  preflop: "Flop",
+  flop: "Flop",
+  turn: "Turn",
+  river: "River",
+}
+
+const isPost = (action: Action) => action.type.startsWith("post-")
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return (
+    `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`
+  )
+}
+
+// Derives a stable numeric hand id from the hand's contents when none is given
+function defaultHandId(hand: Hand): string {
+  const json = JSON.stringify(hand)
+  let hash = 0
+  for (let i = 0; i < json.length; i++) {
+    hash = (hash * 31 + json.charCodeAt(i)) >>> 0
+  }
+  return String(hash)
+}
+
+function potLabel(hand: Hand, index: number): string {
+  if (hand.pots.length === 1) return "pot"
+  return index === 0 ? "main pot" : `side pot-${index}`
+}
+
+function renderAction(hand: Hand, action: Action, raiseBy: number): string {
+  const money = (amount: number) => formatAmount(hand, amount)
+  const allIn = action.allIn ? " and is all-in" : ""
+
+  switch (action.type) {
+    case "post-small-blind":
+      return `${action.player}: posts small blind ${money(action.amount)}${allIn}`
+    case "post-big-blind":
+      return `${action.player}: posts big blind ${money(action.amount)}${allIn}`
+    case "post-ante":
+      return `${action.player}: posts the ante ${money(action.amount)}${allIn}`
+    case "post-straddle":
+      return `${action.player}: posts straddle ${money(action.amount)}${allIn}`
+    case "fold": {
+      // Known cards go on the fold line, the only place a player who gave up the hand can show them
+      const cards = hand.seats.find((seat) => seat.player === action.player)?.holeCards ?? []
+      return cards.length > 0 ? `${action.player}: folds [${cards.join(" ")}]` : `${action.player}: folds`
+    }
+    case "check":
+      return `${action.player}: checks`
+    case "call":
+      return `${action.player}: calls ${money(action.amount)}${allIn}`
+    case "bet":
+      return `${action.player}: bets ${money(action.amount)}${allIn}`
+    case "raise":
+      return `${action.player}: raises ${money(raiseBy)} to ${money(action.amount)}${allIn}`
+  }
+}
+
+/**
+ * Renders a hand in the PokerStars hand history grammar understood by HoldemManager and PokerTracker.
+ * The output depends only on the hand and the options, so the same hand always renders the same text.
+ */
+export function renderHandHistory(hand: Hand, options: RenderOptions = {}): string {
+  const money = (amount: number) => formatAmount(hand, amount)
+  const handId = options.handId ?? defaultHandId(hand)
+  const playedAt = formatDate(options.playedAt ?? new Date(0))
+  const tableName = options.tableName ?? "PokerScribe"
+  const seats = [...hand.seats].sort((a, b) => a.seat - b.seat)
+  const lines: string[] = []
+
+  // Limit games are named by their bet sizes rather than their blinds
+  const isLimit = VARIANT_RULES[hand.game.variant].betting === "fixed-limit"
+  const stakes = isLimit
+    ? `${money(hand.game.bigBlind)}/${money(roundChips(hand.game.bigBlind * 2))}`
+    : `${money(hand.game.smallBlind)}/${money(hand.game.bigBlind)}`
+  const gameName = GAME_NAMES.find(([variant]) => variant === hand.game.variant)?.[1] ?? "Hold'em No Limit"
+  if (hand.game.type === "cash") {
+    const code = CURRENCY_CODES[hand.game.currency] ?? "USD"
+    lines.push(`PokerStars Hand #${handId}:  ${gameName} (${stakes} ${code}) - ${playedAt}`)
+  } else {
+    lines.push(`PokerStars Hand #${handId}: Tournament #0, ${gameName} - Level I (${stakes}) - ${playedAt}`)
+  }
+  lines.push(`Table '${tableName}' ${hand.maxSeats}-max Seat #${hand.buttonSeat} is the button`)
+
+  for (const seat of seats) {
+    lines.push(`Seat ${seat.seat}: ${seat.player} (${money(seat.stack)} in chips)`)
+  }
+
+  // Track who folded on which street, who put money in by choice, and each player's bets on the current street
+  const folded = new Map<string, Street>()
+  const voluntary = new Set<string>()
+  let streetBets = new Map<string, number>()
+  let highestBet = 0
+
+  for (const action of hand.actions.filter(isPost)) {
+    lines.push(renderAction(hand, action, 0))
+    if (action.type !== "post-ante") {
+      streetBets.set(action.player, roundChips((streetBets.get(action.player) ?? 0) + action.amount))
+      highestBet = Math.max(highestBet, streetBets.get(action.player) ?? 0)
+    }
+  }
+
+  lines.push("*** HOLE CARDS ***")
+  // The hero is dealt in even when their cards weren't mentioned, so the line still marks who they are
+  for (const seat of seats.filter((seat) => seat.isHero)) {
+    lines.push(seat.holeCards.length > 0 ? `Dealt to ${seat.player} [${seat.holeCards.join(" ")}]` : `Dealt to ${seat.player}`)
+  }
+
+  // Streets from the first one where the boards differ are dealt once per board, with FIRST, SECOND... headers
+  const boards = allBoards(hand)
+  const differs = (street: Street) =>
+    boards.some((board) => streetCards(board, street).join(" ") !== streetCards(hand.board, street).join(" "))
+  const splitStreet = STREETS.slice(1).find(differs)
+  const isSplit = (street: Street) => splitStreet !== undefined && STREETS.indexOf(street) >= STREETS.indexOf(splitStreet)
+
+  const boardCards: string[] = []
+  for (const street of STREETS) {
+    const actions = hand.actions.filter((action) => action.street === street && !isPost(action))
+
+    if (street !== "preflop") {
+      const dealt = streetCards(hand.board, street)
+      if (dealt.length === 0 && actions.length === 0) continue
+
+      lines.push(streetHeader(street, boardCards, dealt, isSplit(street) ? BOARD_ORDINALS[0] : null))
+      boardCards.push(...dealt)
+      streetBets = new Map()
+      highestBet = 0
+    }
+
+    for (const action of actions) {
+      const current = streetBets.get(action.player) ?? 0
+      let raiseBy = 0
+
+      if (action.type === "raise") {
+        raiseBy = roundChips(action.amount - highestBet)
+        streetBets.set(action.player, action.amount)
+      } else if (action.type === "bet" || action.type === "call") {
+        streetBets.set(action.player, roundChips(current + action.amount))
+      } else if (action.type === "fold") {
+        folded.set(action.player, street)
+      }
+
+      if (["call", "bet", "raise"].includes(action.type)) voluntary.add(action.player)
+      highestBet = Math.max(highestBet, streetBets.get(action.player) ?? 0)
+      lines.push(renderAction(hand, action, raiseBy))
+    }
+  }
+
+  hand.extraBoards.forEach((board, index) => {
+    for (const street of STREETS.slice(1)) {
+      const dealt = streetCards(board, street)
+      if (!isSplit(street) || dealt.length === 0) continue
+      const previous = boardThrough(board, STREETS[STREETS.indexOf(street) - 1])
+      lines.push(streetHeader(street, previous, dealt, BOARD_ORDINALS[index + 1]))
+    }
+  })
+
+  const uncalled = uncalledBet(hand)
+  if (uncalled) {
+    lines.push(`Uncalled bet (${money(uncalled.amount)}) returned to ${uncalled.player}`)
+  }
+
+  // Seats that never acted weren't in the hand, so they neither fold nor go to showdown
+  const acted = new Set(hand.actions.map((action) => action.player))
+  const remaining = seats.filter((seat) => acted.has(seat.player) && !folded.has(seat.player))
+  const showdown = remaining.length > 1
+
+  // Without a showdown a winner's known cards are shown anyway, except the hero's which were already dealt to them
+  const shows = remaining
+    .filter((seat) => seat.holeCards.length > 0 && (showdown || !seat.isHero))
+    .map((seat) => `${seat.player}: shows [${seat.holeCards.join(" ")}]`)
+  const collected = (wonOn: (winner: PotWinner) => boolean) =>
+    hand.pots.flatMap((pot, index) =>
+      pot.winners
+        .filter(wonOn)
+        .map((winner) => `${winner.player} collected ${money(winner.amount)} from ${potLabel(hand, index)}`),
+    )
+
+  // A hand run more than once has a showdown per board, each collecting that board's share of the pots
+  if (showdown && hand.extraBoards.length > 0) {
+    boards.forEach((_, index) => {
+      lines.push(`*** ${BOARD_ORDINALS[index]} SHOW DOWN ***`)
+      if (index === 0) lines.push(...shows)
+      lines.push(...collected((winner) => (winner.board ?? 1) === index + 1))
+    })
+  } else {
+    if (showdown) lines.push("*** SHOW DOWN ***")
+    lines.push(...shows, ...collected(() => true))
+  }
+
+  lines.push("*** SUMMARY ***")
+  const totalPot = roundChips(hand.pots.reduce((sum, pot) => sum + pot.amount, 0) + hand.rake)
+  const breakdown =
+    hand.pots.length > 1
+      ? hand.pots
+          .map((pot, index) => `${index === 0 ? "Main pot" : `Side pot-${index}`} ${money(pot.amount)}.`)
+          .join(" ")
+      : ""
+  lines.push(`Total pot ${money(totalPot)}${breakdown ? ` ${breakdown}` : ""} | Rake ${money(hand.rake)}`)
+  if (hand.extraBoards.length > 0) {
+    boards.forEach((board, index) => {
+      lines.push(`${BOARD_ORDINALS[index]} Board [${boardThrough(board, "river").join(" ")}]`)
+    })
+  } else if (boardCards.length > 0) {
+    lines.push(`Board [${boardCards.join(" ")}]`)
+  }
+
+  const winnings = new Map<string, number>()
+  for (const pot of hand.pots) {
+    for (const winner of pot.winners) {
+      winnings.set(winner.player, roundChips((winnings.get(winner.player) ?? 0) + winner.amount))
+    }
+  }
+
+  for (const seat of seats) {
+    lines.push(`Seat ${seat.seat}: ${seat.player}${roleLabels(hand, seat)} ${seatOutcome(hand, seat, {
+      foldedOn: folded.get(seat.player) ?? (acted.has(seat.player) ? undefined : "preflop"),
+      voluntary: voluntary.has(seat.player),
+      showdown,
+      won: winnings.get(seat.player) ?? 0,
+    })}`)
+  }
+
+  return lines.join("\n")
+}
+
+// The cards a street adds to a board
+function streetCards(board: Board, street: Street): string[] {
+  if (street === "flop") return board.flop
+  if (street === "turn" || street === "river") return [board[street]].filter((card): card is string => Boolean(card))
+  return []
+}
+
+// e.g. "*** TURN *** [As 7c 2d] [9h]", with FIRST or SECOND in front when the hand was run more than once
+function streetHeader(street: Street, before: string[], dealt: string[], ordinal: string | null): string {
+  const header = `*** ${ordinal ? `${ordinal} ` : ""}${street.toUpperCase()} ***`
+  return street === "flop" ? `${header} [${dealt.join(" ")}]` : `${header} [${before.join(" ")}] [${dealt.join(" ")}]`
+}
+
+function roleLabels(hand: Hand, seat: Seat): string {
+  const posted = (type: Action["type"]) =>
+    hand.actions.some((action) => action.type === type && action.player === seat.player)
+
+  let labels = ""
+  if (seat.seat === hand.buttonSeat) labels += " (button)"
+  if (posted("post-small-blind")) labels += " (small blind)"
+  if (posted("post-big-blind")) labels += " (big blind)"
+  return labels
+}
+
+function seatOutcome(
+  hand: Hand,
+  seat: Seat,
+  result: { foldedOn?: Street; voluntary: boolean; showdown: boolean; won: number },
+): string {
+  const money = (amount: number) => formatAmount(hand, amount)
+  const cards = seat.holeCards.join(" ")
+
+  if (result.foldedOn) {
+    if (result.foldedOn === "preflop") {
+      return `folded before Flop${result.voluntary ? "" : " (didn't bet)"}`
+    }
+    return `folded on the ${STREET_LABELS[result.foldedOn]}`
+  }
+
+  if (!result.showdown || !cards) {
+    return result.won > 0 ? `collected (${money(result.won)})` : "mucked"
+  }
+
+  return result.won > 0 ? `showed [${cards}] and won (${money(result.won)})` : `showed [${cards}] and lost`
+}
+
+const AMOUNT = "[$€£]?([\\d,]*\\.?\\d+)"
+
+const parseAmount = (text: string) => Number(text.replace(/,/g, ""))
+
+const ACTION_PATTERNS: { type: Action["type"]; pattern: RegExp }[] = [
+  { type: "post-small-blind", pattern: new RegExp(`^(.+): posts small blind ${AMOUNT}`) },
+  { type: "post-big-blind", pattern: new RegExp(`^(.+): posts big blind ${AMOUNT}`) },
+  { type: "post-ante", pattern: new RegExp(`^(.+): posts the ante ${AMOUNT}`) },
+  { type: "post-straddle", pattern: new RegExp(`^(.+): posts straddle ${AMOUNT}`) },
+  { type: "fold", pattern: /^(.+): folds/ },
+  { type: "check", pattern: /^(.+): checks/ },
+  { type: "call", pattern: new RegExp(`^(.+): calls ${AMOUNT}`) },
+  { type: "bet", pattern: new RegExp(`^(.+): bets ${AMOUNT}`) },
+  { type: "raise", pattern: new RegExp(`^(.+): raises ${AMOUNT} to ${AMOUNT}`) },
+]
+
+/**
+ * Parses PokerStars hand history text back into a structured hand.
+ * Positions are derived from the seats and the button, since the grammar doesn't carry them.
+ * @throws Error if the text is missing a header, table line or seats
+ */
+export function parseHandHistory(text: string): Hand {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const header = lines[0]?.match(/^PokerStars Hand #\S+:\s+(Tournament #[^,]*, )?.*?\(([^)]+)\)/)
+  if (!header) {
+    throw new Error("Not a PokerStars hand history: missing header line")
+  }
+
+  const isTournament = Boolean(header[1])
+  const stakes = header[2].match(new RegExp(`^${AMOUNT}/${AMOUNT}`))
+  if (!stakes) {
+    throw new Error(`Could not read stakes from header: ${lines[0]}`)
+  }
+  const currency = isTournament ? "$" : (header[2].match(/[$€£]/)?.[0] ?? "$")
+  const variant = GAME_NAMES.find(([, name]) => lines[0].includes(name))?.[0] ?? "nlhe"
+
+  const table = lines[1]?.match(/^Table '.*' (\d+)-max Seat #(\d+) is the button/)
+  if (!table) {
+    throw new Error("Not a PokerStars hand history: missing table line")
+  }
+
+  const seats: Seat[] = []
+  const actions: Action[] = []
+  const board = { flop: [] as string[], turn: null as string | null, river: null as string | null }
+  const extraBoards: Board[] = []
+  const potAmounts: number[] = []
+  const potWinners = new Map<number, PotWinner[]>()
+  const cards = new Map<string, string[]>()
+  let hero: string | null = null
+  let rake = 0
+  let street: Street = "preflop"
+  let showdownBoard: number | undefined
+  let inSummary = false
+
+  for (const line of lines.slice(2)) {
+    if (inSummary) {
+      const total = line.match(new RegExp(`^Total pot ${AMOUNT}(.*)\\| Rake ${AMOUNT}`))
+      if (total) {
+        rake = parseAmount(total[3])
+        const sidePots = [...total[2].matchAll(new RegExp(`(?:Main pot|Side pot-\\d+) ${AMOUNT}`, "g"))]
+        if (sidePots.length > 0) {
+          potAmounts.push(...sidePots.map((match) => parseAmount(match[1])))
+        } else {
+          potAmounts.push(parseAmount(total[1]) - rake)
+        }
+        continue
+      }
+
+      const shown = line.match(/^Seat \d+: (.+?)(?: \((?:button|small blind|big blind)\))* (?:showed|mucked) \[([^\]]+)\]/)
+      if (shown) {
+        cards.set(shown[1], shown[2].split(" "))
+      }
+      continue
+    }
+
+    const seat = line.match(new RegExp(`^Seat (\\d+): (.+) \\(${AMOUNT} in chips\\)`))
+    if (seat) {
+      seats.push({
+        seat: Number(seat[1]),
+        player: seat[2],
+        position: "BTN",
+        stack: parseAmount(seat[3]),
+        holeCards: [],
+        isHero: false,
+      })
+      continue
+    }
+
+    if (line === "*** SUMMARY ***") {
+      inSummary = true
+      continue
+    }
+
+    const streetHeader = line.match(/^\*\*\* (?:(FIRST|SECOND|THIRD) )?(FLOP|TURN|RIVER) \*\*\*(.*)$/)
+    if (streetHeader) {
+      street = streetHeader[2].toLowerCase() as Street
+      const groups = [...streetHeader[3].matchAll(/\[([^\]]*)\]/g)].map((match) => match[1].split(" ").filter(Boolean))
+      const dealt = groups[groups.length - 1] ?? []
+
+      // Later runouts repeat the cards they share with the first board in their first group
+      const boardIndex = Math.max(0, BOARD_ORDINALS.indexOf(streetHeader[1] ?? "FIRST"))
+      if (boardIndex > 0) {
+        const cards = [...(groups.length > 1 ? groups[0] : []), ...dealt]
+        const runout = (extraBoards[boardIndex - 1] ??= { flop: [], turn: null, river: null })
+        if (cards.length >= 3) runout.flop = cards.slice(0, 3)
+        if (cards.length >= 4) runout.turn = cards[3]
+        if (cards.length >= 5) runout.river = cards[4]
+        continue
+      }
+
+      if (street === "flop") board.flop = dealt
+      else if (street === "turn" || street === "river") board[street] = dealt[0] ?? null
+      continue
+    }
+
+    const showdownHeader = line.match(/^\*\*\* (FIRST|SECOND|THIRD) SHOW DOWN \*\*\*$/)
+    if (showdownHeader) {
+      showdownBoard = BOARD_ORDINALS.indexOf(showdownHeader[1]) + 1
+      continue
+    }
+
+    const dealt = line.match(/^Dealt to (.+?)(?: \[([^\]]+)\])?$/)
+    if (dealt) {
+      hero = dealt[1]
+      if (dealt[2]) cards.set(dealt[1], dealt[2].split(" "))
+      continue
+    }
+
+    const foldedWith = line.match(/^(.+): folds \[([^\]]+)\]/)
+    if (foldedWith) {
+      cards.set(foldedWith[1], foldedWith[2].split(" "))
+    }
+
+    const shows = line.match(/^(.+): shows \[([^\]]+)\]/)
+    if (shows) {
+      cards.set(shows[1], shows[2].split(" "))
+      continue
+    }
+
+    const collected = line.match(new RegExp(`^(.+) collected ${AMOUNT} from (pot|main pot|side pot-(\\d+))`))
+    if (collected) {
+      const index = collected[4] ? Number(collected[4]) : 0
+      const winner = { player: collected[1], amount: parseAmount(collected[2]), ...(showdownBoard ? { board: showdownBoard } : {}) }
+      potWinners.set(index, [...(potWinners.get(index) ?? []), winner])
+      continue
+    }
+
+    for (const { type, pattern } of ACTION_PATTERNS) {
+      const match = line.match(pattern)
+      if (!match) continue
+
+      const amount = type === "raise" ? match[3] : match[2]
+      actions.push({
+        street,
+        player: match[1],
+        type,
+        amount: amount ? parseAmount(amount) : 0,
+        allIn: line.endsWith("and is all-in"),
+      })
+      break
+    }
+  }
+
+  if (seats.length < 2) {
+    throw new Error("Hand history must list at least two seats")
+  }
+
+  const buttonSeat = Number(table[2])
+  const positions = positionsForSeats(
+    seats.map((seat) => seat.seat),
+    buttonSeat,
+  )
+  for (const seat of seats) {
+    seat.position = positions.get(seat.seat) ?? "BTN"
+    seat.holeCards = cards.get(seat.player) ?? []
+    seat.isHero = seat.player === hero
+  }
+
+  const antes = actions.filter((action) => action.type === "post-ante")
+  const ante = antes[0]?.amount ?? 0
+
+  // One ante for a full table is a button or big blind ante
+  const bigBlindPlayer = actions.find((action) => action.type === "post-big-blind")?.player
+  const anteType =
+    antes.length === 1 && seats.length > 2
+      ? antes[0].player === bigBlindPlayer
+        ? "big-blind"
+        : seats.find((seat) => seat.player === antes[0].player)?.seat === buttonSeat
+          ? "button"
+          : "everyone"
+      : "everyone"
+
+  // The grammar has no bomb pot marker, but a hand with antes and no blinds or preflop betting can only be one
+  const bombPot =
+    antes.length > 0 &&
+    !actions.some((action) => action.street === "preflop" && action.type !== "post-ante")
+
+  // A limit header gives the bet sizes, the small bet being the big blind
+  const isLimit = VARIANT_RULES[variant].betting === "fixed-limit"
+  const bigBlind = parseAmount(stakes[isLimit ? 1 : 2])
+  const smallBlind = isLimit
+    ? (actions.find((action) => action.type === "post-small-blind")?.amount ?? roundChips(bigBlind / 2))
+    : parseAmount(stakes[1])
+
+  return handSchema.parse({
+    game: {
+      type: isTournament ? "tournament" : "cash",
+      variant,
+      currency,
+      smallBlind,
+      bigBlind,
+      ante,
+      anteType,
+    },
+    maxSeats: Number(table[1]),
+    buttonSeat,
+    seats,
+    actions,
+    board,
+    extraBoards,
+    bombPot,
+    pots: potAmounts.map((amount, index) => ({
+      amount: roundChips(amount),
+      winners: potWinners.get(index) ?? [],
+    })),
+    rake,
+  })
+}
@@ -0,0 +1,363 @@
+// This file persists recorded hands and everything attached to them in IndexedDB
+
+import type { Hand } from "@/lib/hand"
+import type { AllInEquity } from "@/lib/equity"
+import type { GameSettingsType } from "@/components/game-settings"
+
+const DB_NAME = "poker-scribe"
+
+export interface HandRecord {
+  id: string
+  hand: Hand
+  text: string
+  attempts: number
+  timestamp: Date
+  // The game settings as they were when the hand was recorded
+  settings: GameSettingsType | null
+  // Hands recorded before sessions existed, or outside of one, have no session
+  sessionId?: string | null
+  // Labels like "bluff" or "hero-call", e.g. added by voice command while recording
+  tags?: string[]
+  // Equity when an all-in was called, hands formatted before this was computed don't have it
+  equity?: AllInEquity | null
+}
+
+export interface RebuyRecord {
+  amount: number
+  timestamp: Date
+}
+
+export interface SessionRecord {
+  id: string
+  venue: string
+  // The game being played, taken from the game settings when the session started
+  settings: GameSettingsType | null
+  buyIn: number
+  rebuys: RebuyRecord[]
+  cashOut: number | null
+  startedAt: Date
+  endedAt: Date | null
+}
+
+export const PLAYER_COLORS = ["red", "orange", "yellow", "green", "blue", "purple"] as const
+
+export type PlayerColor = (typeof PLAYER_COLORS)[number]
+
+export interface PlayerProfile {
+  id: string
+  name: string
+  // Other ways the player gets described, e.g. "the guy in the red hat"
+  aliases: string[]
+  notes: string
+  color: PlayerColor | null
+  tendencies: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface TranscriptionRecord {
+  id: string
+  handId: string
+  text: string
+  // The game settings context sent to the formatter ahead of the text, if any
+  context?: string
+  // Whether the user corrected this version by hand rather than it coming straight from speech-to-text
+  edited?: boolean
+  timestamp: Date
+}
+
+export interface AnalysisRecord {
+  handId: string
+  model: string
+  text: string
+  timestamp: Date
+}
+
+export interface AudioRecord {
+  id: string
+  handId: string
+  blob: Blob
+  timestamp: Date
+}
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void
+
+// Each entry upgrades the database from version N to N + 1. Append new migrations, never edit old ones.
+const MIGRATIONS: Migration[] = [
+  (db) => {
+    db.createObjectStore("hands", { keyPath: "id" }).createIndex("timestamp", "timestamp")
+    db.createObjectStore("transcriptions", { keyPath: "id" }).createIndex("handId", "handId")
+    db.createObjectStore("analyses", { keyPath: "handId" })
+    db.createObjectStore("audio", { keyPath: "id" }).createIndex("handId", "handId")
+  },
+  (db, transaction) => {
+    db.createObjectStore("sessions", { keyPath: "id" }).createIndex("startedAt", "startedAt")
+    transaction.objectStore("hands").createIndex("sessionId", "sessionId")
+  },
+  (db) => {
+    db.createObjectStore("players", { keyPath: "id" }).createIndex("name", "name")
+  },
+  (_, transaction) => {
+    // Hands saved before variants were added are all No Limit Hold'em
+    transaction.objectStore("hands").openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+      if (!cursor) return
+      const record = cursor.value as HandRecord
+      if (!record.hand.game.variant) {
+        cursor.update({ ...record, hand: { ...record.hand, game: { ...record.hand.game, variant: "nlhe" } } })
+      }
+      cursor.continue()
+    }
+  },
+  (_, transaction) => {
+    // Hands saved before straddles, bomb pots and run-it-twice were recorded had one board and everyone anted
+    transaction.objectStore("hands").openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+      if (!cursor) return
+      const { hand } = cursor.value as HandRecord
+      if (!hand.extraBoards) {
+        cursor.update({
+          ...cursor.value,
+          hand: {
+            ...hand,
+            game: { ...hand.game, anteType: hand.game.anteType ?? "everyone" },
+            extraBoards: [],
+            bombPot: false,
+          },
+        })
+      }
+      cursor.continue()
+    }
+  },
+]
+
+export const DB_VERSION = MIGRATIONS.length
+
+const HAND_STORES = ["hands", "transcriptions", "analyses", "audio"]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Wraps an IndexedDB request in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once every request in the transaction has been committed
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+}
+
+/**
+ * Opens the hand library, running any migrations the browser's copy is missing
+ */
+export function openLibrary(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction as IDBTransaction
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`Migrating hand library to version ${version + 1}`)
+        MIGRATIONS[version](request.result, transaction)
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * Saves a hand together with the transcription and audio it was made from
+ */
+export async function saveHand(
+  record: HandRecord,
+  sources: { transcription?: string; context?: string; audio?: Blob | null } = {},
+): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction(["hands", "transcriptions", "audio"], "readwrite")
+
+  transaction.objectStore("hands").put(record)
+
+  if (sources.transcription) {
+    transaction.objectStore("transcriptions").put({
+      id: `${record.id}-transcription`,
+      handId: record.id,
+      text: sources.transcription,
+      context: sources.context || undefined,
+      timestamp: record.timestamp,
+    } satisfies TranscriptionRecord)
+  }
+
+  if (sources.audio) {
+    transaction.objectStore("audio").put({
+      id: `${record.id}-audio`,
+      handId: record.id,
+      blob: sources.audio,
+      timestamp: record.timestamp,
+    } satisfies AudioRecord)
+  }
+
+  await transactionDone(transaction)
+}
+
+/**
+ * Replaces a hand with one formatted again from an edited transcription, keeping the earlier transcriptions
+ */
+export async function saveHandRevision(record: HandRecord, transcription: TranscriptionRecord): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction(["hands", "transcriptions"], "readwrite")
+  transaction.objectStore("hands").put(record)
+  transaction.objectStore("transcriptions").put(transcription)
+  await transactionDone(transaction)
+}
+
+/**
+ * Lists every hand in the library, oldest first
+ */
+export async function listHands(): Promise<HandRecord[]> {
+  const db = await openLibrary()
+  const index = db.transaction("hands").objectStore("hands").index("timestamp")
+  return promisify(index.getAll() as IDBRequest<HandRecord[]>)
+}
+
+/**
+ * Returns the transcriptions recorded for a hand, oldest first
+ */
+export async function getTranscriptions(handId: string): Promise<TranscriptionRecord[]> {
+  const db = await openLibrary()
+  const index = db.transaction("transcriptions").objectStore("transcriptions").index("handId")
+  const records = await promisify(index.getAll(handId) as IDBRequest<TranscriptionRecord[]>)
+  return records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+/**
+ * Returns the original audio for a hand, if it was kept
+ */
+export async function getAudio(handId: string): Promise<AudioRecord | undefined> {
+  const db = await openLibrary()
+  const index = db.transaction("audio").objectStore("audio").index("handId")
+  return promisify(index.get(handId) as IDBRequest<AudioRecord | undefined>)
+}
+
+export async function saveAnalysis(record: AnalysisRecord): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction("analyses", "readwrite")
+  transaction.objectStore("analyses").put(record)
+  await transactionDone(transaction)
+}
+
+export async function listAnalyses(): Promise<AnalysisRecord[]> {
+  const db = await openLibrary()
+  return promisify(db.transaction("analyses").objectStore("analyses").getAll() as IDBRequest<AnalysisRecord[]>)
+}
+
+/**
+ * Deletes a hand along with its transcriptions, analysis and audio
+ */
+export async function deleteHand(handId: string): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction(HAND_STORES, "readwrite")
+
+  transaction.objectStore("hands").delete(handId)
+  transaction.objectStore("analyses").delete(handId)
+  for (const storeName of ["transcriptions", "audio"]) {
+    const index = transaction.objectStore(storeName).index("handId")
+    const keys = await promisify(index.getAllKeys(handId))
+    keys.forEach((key) => transaction.objectStore(storeName).delete(key))
+  }
+
+  await transactionDone(transaction)
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction("sessions", "readwrite")
+  transaction.objectStore("sessions").put(record)
+  await transactionDone(transaction)
+}
+
+/**
+ * Lists every session, oldest first
+ */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const db = await openLibrary()
+  const index = db.transaction("sessions").objectStore("sessions").index("startedAt")
+  return promisify(index.getAll() as IDBRequest<SessionRecord[]>)
+}
+
+/**
+ * Deletes a session. Its hands are kept and moved out of the session.
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction(["sessions", "hands"], "readwrite")
+
+  transaction.objectStore("sessions").delete(sessionId)
+  const hands = transaction.objectStore("hands")
+  const records = await promisify(hands.index("sessionId").getAll(sessionId) as IDBRequest<HandRecord[]>)
+  records.forEach((record) => hands.put({ ...record, sessionId: null }))
+
+  await transactionDone(transaction)
+}
+
+export async function savePlayer(profile: PlayerProfile): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction("players", "readwrite")
+  transaction.objectStore("players").put(profile)
+  await transactionDone(transaction)
+}
+
+/**
+ * Lists every player profile, sorted by name
+ */
+export async function listPlayers(): Promise<PlayerProfile[]> {
+  const db = await openLibrary()
+  const index = db.transaction("players").objectStore("players").index("name")
+  return promisify(index.getAll() as IDBRequest<PlayerProfile[]>)
+}
+
+export async function deletePlayer(id: string): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction("players", "readwrite")
+  transaction.objectStore("players").delete(id)
+  await transactionDone(transaction)
+}
+
+/**
+ * Removes every hand and everything attached to them
+ */
+export async function clearLibrary(): Promise<void> {
+  const db = await openLibrary()
+  const transaction = db.transaction(HAND_STORES, "readwrite")
+  HAND_STORES.forEach((storeName) => transaction.objectStore(storeName).clear())
+  await transactionDone(transaction)
+}
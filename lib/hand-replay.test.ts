@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { buildReplay, type ReplayFrame } from "./hand-replay"
+import type { Hand } from "./hand"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+
+// Hero raises, Bob calls and calls the flop bet, then folds to Hero's turn bet
+const hand = handFixture as Hand
+
+// Everything in the middle, including bets not yet pulled into the pot
+const chipsIn = (frame: ReplayFrame) => frame.pot + frame.seats.reduce((sum, seat) => sum + seat.bet, 0)
+
+describe("buildReplay", () => {
+  it("steps through each street in order, dealing the board as it goes", () => {
+    const frames = buildReplay(hand)
+
+    expect(frames.map((frame) => frame.description)).toEqual([
+      "Cards are dealt",
+      "Mike posts the small blind $1",
+      "Bob posts the big blind $2",
+      "Hero raises to $6",
+      "Mike folds",
+      "Bob calls $4",
+      "Flop: As 7c 2d",
+      "Bob checks",
+      "Hero bets $8",
+      "Bob calls $8",
+      "Turn: 9h",
+      "Bob checks",
+      "Hero bets $20",
+      "Bob folds",
+      "Uncalled bet of $20 returned to Hero",
+      "Hero wins $29",
+    ])
+    expect([...new Set(frames.map((frame) => frame.stage))]).toEqual(["preflop", "flop", "turn"])
+    expect(frames[6].board).toEqual(["As", "7c", "2d"])
+    expect(frames[10].board).toEqual(["As", "7c", "2d", "9h"])
+  })
+
+  it("adds each action's chips to the pot, and collects bets into it at each new street", () => {
+    const frames = buildReplay(hand)
+
+    expect(frames.slice(0, 14).map(chipsIn)).toEqual([0, 1, 3, 9, 9, 13, 13, 13, 21, 29, 29, 29, 49, 49])
+    // Bets are in front of the players until the flop is dealt
+    expect(frames[5].pot).toBe(0)
+    expect(frames[6].pot).toBe(13)
+    expect(frames[6].seats.every((seat) => seat.bet === 0)).toBe(true)
+  })
+
+  it("gives the uncalled part of a bet back before the pot is awarded", () => {
+    const frames = buildReplay(hand)
+    const refund = frames[14]
+    const hero = (frame: ReplayFrame) => frame.seats.find((seat) => seat.player === "Hero")
+
+    expect(refund.actor).toBe("Hero")
+    expect(chipsIn(refund)).toBe(29)
+    expect(hero(refund)?.stack).toBe(200 - 14)
+    expect(hero(frames[15])).toMatchObject({ stack: 215, won: 29 })
+    expect(frames[15].pot).toBe(0)
+  })
+
+  it("only shows other players' cards at showdown", () => {
+    const showdown: Hand = {
+      ...hand,
+      seats: hand.seats.map((seat) => (seat.player === "Bob" ? { ...seat, holeCards: ["Qs", "Qd"] } : seat)),
+      actions: [...hand.actions.slice(0, 10), { street: "turn", player: "Bob", type: "call", amount: 20, allIn: false }],
+      pots: [{ amount: 69, winners: [{ player: "Hero", amount: 69 }] }],
+    }
+    const frames = buildReplay(showdown)
+    const bob = (frame: ReplayFrame) => frame.seats.find((seat) => seat.player === "Bob")
+
+    expect(bob(frames[0])?.holeCards).toEqual([])
+    expect(frames.at(-2)?.description).toBe("Showdown")
+    expect(bob(frames.at(-2) as ReplayFrame)?.holeCards).toEqual(["Qs", "Qd"])
+  })
+})
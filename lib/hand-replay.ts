@@ -0,0 +1,210 @@
+// This file turns a structured hand into the sequence of table states the replayer steps through
+
+import {
+  STREETS,
+  boardThrough,
+  formatAmount,
+  roundChips,
+  type Action,
+  type Card,
+  type Hand,
+  type Street,
+} from "@/lib/hand"
+import { uncalledBet } from "@/lib/side-pots"
+
+export type ReplayStage = Street | "showdown"
+
+export interface ReplaySeat {
+  seat: number
+  player: string
+  position: string
+  isHero: boolean
+  stack: number
+  // Chips in front of the player on the current street, not yet pulled into the pot
+  bet: number
+  folded: boolean
+  allIn: boolean
+  // Hole cards everyone can see at this point: the hero's always, other players' once they show down
+  holeCards: Card[]
+  // Chips won, set on the final frame
+  won: number
+}
+
+export interface ReplayFrame {
+  stage: ReplayStage
+  description: string
+  // The player whose action led to this frame
+  actor: string | null
+  seats: ReplaySeat[]
+  // Chips already collected into the middle
+  pot: number
+  board: Card[]
+  // Further runouts when the hand was run more than once, shown as they're dealt after the showdown
+  extraBoards: Card[][]
+}
+
+function describeAction(hand: Hand, action: Action): string {
+  const amount = formatAmount(hand, action.amount)
+  const allIn = action.allIn ? " and is all-in" : ""
+  switch (action.type) {
+    case "post-small-blind":
+      return `${action.player} posts the small blind ${amount}`
+    case "post-big-blind":
+      return `${action.player} posts the big blind ${amount}`
+    case "post-ante":
+      return `${action.player} posts the ante ${amount}`
+    case "post-straddle":
+      return `${action.player} straddles ${amount}`
+    case "fold":
+      return `${action.player} folds`
+    case "check":
+      return `${action.player} checks`
+    case "call":
+      return `${action.player} calls ${amount}${allIn}`
+    case "bet":
+      return `${action.player} bets ${amount}${allIn}`
+    case "raise":
+      return `${action.player} raises to ${amount}${allIn}`
+  }
+}
+
+/**
+ * Replays the hand one action at a time, including dealing each street, the showdown and awarding the pots
+ * @returns Every table state in order, starting with the cards dealt and nothing posted yet
+ */
+export function buildReplay(hand: Hand): ReplayFrame[] {
+  const frames: ReplayFrame[] = []
+  let seats: ReplaySeat[] = [...hand.seats]
+    .sort((a, b) => a.seat - b.seat)
+    .map((seat) => ({
+      seat: seat.seat,
+      player: seat.player,
+      position: seat.position,
+      isHero: seat.isHero,
+      stack: seat.stack,
+      bet: 0,
+      folded: false,
+      allIn: false,
+      holeCards: seat.isHero ? seat.holeCards : [],
+      won: 0,
+    }))
+  let pot = 0
+  let board: Card[] = []
+  const extraBoards: Card[][] = []
+  let stage: ReplayStage = "preflop"
+
+  const push = (description: string, actor: string | null = null) => {
+    frames.push({
+      stage,
+      description,
+      actor,
+      seats: seats.map((seat) => ({ ...seat })),
+      pot,
+      board: [...board],
+      extraBoards: extraBoards.map((runout) => [...runout]),
+    })
+  }
+
+  const update = (player: string, change: (seat: ReplaySeat) => void) => {
+    const seat = seats.find((seat) => seat.player === player)
+    if (seat) change(seat)
+  }
+
+  // Moves chips from a player's stack, either in front of them or straight into the pot for antes
+  const commit = (player: string, chips: number, toPot: boolean) => {
+    update(player, (seat) => {
+      seat.stack = roundChips(seat.stack - chips)
+      if (toPot) pot = roundChips(pot + chips)
+      else seat.bet = roundChips(seat.bet + chips)
+      if (seat.stack <= 0) seat.allIn = true
+    })
+  }
+
+  const collectBets = () => {
+    pot = roundChips(pot + seats.reduce((sum, seat) => sum + seat.bet, 0))
+    seats = seats.map((seat) => ({ ...seat, bet: 0 }))
+  }
+
+  push("Cards are dealt")
+
+  for (const street of STREETS) {
+    const actions = hand.actions.filter((action) => action.street === street)
+    if (street !== "preflop") {
+      const dealt = boardThrough(hand.board, street)
+      if (actions.length === 0 && dealt.length === board.length) continue
+
+      collectBets()
+      stage = street
+      const newCards = dealt.slice(board.length)
+      board = dealt
+      push(`${street[0].toUpperCase()}${street.slice(1)}: ${newCards.join(" ")}`)
+    }
+
+    for (const action of actions) {
+      const current = seats.find((seat) => seat.player === action.player)?.bet ?? 0
+
+      if (action.type === "post-ante") {
+        commit(action.player, action.amount, true)
+      } else if (action.type === "raise") {
+        commit(action.player, Math.max(0, action.amount - current), false)
+      } else if (action.type === "fold") {
+        update(action.player, (seat) => {
+          seat.folded = true
+        })
+      } else if (action.type !== "check") {
+        commit(action.player, action.amount, false)
+      }
+      if (action.allIn) {
+        update(action.player, (seat) => {
+          seat.allIn = true
+        })
+      }
+
+      push(describeAction(hand, action), action.player)
+    }
+  }
+
+  // The uncalled bet comes back out of the chips in front of the player first, then out of the pot
+  const uncalled = uncalledBet(hand)
+  if (uncalled) {
+    update(uncalled.player, (seat) => {
+      const fromBet = Math.min(seat.bet, uncalled.amount)
+      seat.bet = roundChips(seat.bet - fromBet)
+      pot = roundChips(pot - (uncalled.amount - fromBet))
+      seat.stack = roundChips(seat.stack + uncalled.amount)
+    })
+    push(`Uncalled bet of ${formatAmount(hand, uncalled.amount)} returned to ${uncalled.player}`, uncalled.player)
+  }
+
+  collectBets()
+
+  const remaining = seats.filter((seat) => !seat.folded)
+  if (remaining.length > 1) {
+    stage = "showdown"
+    for (const seat of remaining) {
+      seat.holeCards = hand.seats.find((original) => original.player === seat.player)?.holeCards ?? []
+    }
+    push("Showdown")
+  }
+
+  hand.extraBoards.forEach((runout, index) => {
+    extraBoards.push(boardThrough(runout, "river"))
+    push(`Board ${index + 2}: ${extraBoards[index].join(" ")}`)
+  })
+
+  for (const winner of hand.pots.flatMap((handPot) => handPot.winners)) {
+    update(winner.player, (seat) => {
+      seat.stack = roundChips(seat.stack + winner.amount)
+      seat.won = roundChips(seat.won + winner.amount)
+    })
+  }
+  const winners = seats.filter((seat) => seat.won > 0)
+  pot = 0
+  push(
+    winners.length > 0
+      ? winners.map((seat) => `${seat.player} wins ${formatAmount(hand, seat.won)}`).join(", ")
+      : "Hand is over",
+  )
+
+  return frames
+}
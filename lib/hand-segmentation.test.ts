@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import { detectHandStarts, detectPauseStarts, normalizeHandStarts, splitAtSentences, splitTranscript } from "./hand-segmentation"
+
+const segment = (start: number, text: string) => ({ start, end: start + 5, text })
+
+describe("detectHandStarts", () => {
+  it("starts a hand at a next hand cue, but not again at the intro right after it", () => {
+    const segments = [
+      segment(0, "I'm on the button with ace king."),
+      segment(5, "I raise, everyone folds."),
+      segment(10, "Okay next hand."),
+      segment(15, "I'm in the cutoff with queens."),
+      segment(20, "I open and the big blind calls."),
+    ]
+
+    expect(detectHandStarts(segments)).toEqual([0, 2])
+  })
+
+  it("starts a hand after one is closed", () => {
+    const segments = [
+      segment(0, "Hero folds preflop, that's it for that hand."),
+      segment(5, "Mike limps, I raise to twelve."),
+    ]
+
+    expect(detectHandStarts(segments)).toEqual([0, 1])
+  })
+
+  it("keeps a single hand whole", () => {
+    const segments = [segment(0, "I raise to six with ace king."), segment(5, "Bob calls, flop ace seven deuce.")]
+
+    expect(detectHandStarts(segments)).toEqual([0])
+  })
+})
+
+describe("detectPauseStarts", () => {
+  it("starts a hand after a long enough pause", () => {
+    const segments = [segment(0, "I fold."), segment(6, "Bob limps."), segment(20, "I'm on the button.")]
+
+    expect(detectPauseStarts(segments, 5)).toEqual([2])
+    expect(detectPauseStarts(segments, 10)).toEqual([])
+  })
+
+  it("measures the pause between words when it knows their times", () => {
+    const segments = [
+      { ...segment(0, "I fold."), words: [{ start: 0, end: 1, word: "I" }, { start: 1, end: 1.5, word: "fold" }] },
+      { ...segment(6, "Bob limps."), words: [{ start: 8, end: 8.5, word: "Bob" }, { start: 8.5, end: 9, word: "limps" }] },
+    ]
+
+    expect(detectPauseStarts(segments, 6)).toEqual([1])
+  })
+})
+
+describe("splitAtSentences", () => {
+  // Half a second per word, starting at the given time
+  const timed = (start: number, text: string) => ({
+    ...segment(start, text),
+    words: text.split(" ").map((word, index) => ({
+      start: start + index * 0.5,
+      end: start + index * 0.5 + 0.4,
+      word: word.replace(/[.,!?]/g, ""),
+    })),
+  })
+
+  it("cuts a segment at its sentences using the word times", () => {
+    const [first, second] = splitAtSentences([timed(10, "Bob mucks, that's it for that hand. Next hand, I'm on the button.")])
+
+    expect(first).toMatchObject({ start: 10, end: 13.4, text: "Bob mucks, that's it for that hand." })
+    expect(second).toMatchObject({ start: 13.5, end: 15, text: "Next hand, I'm on the button." })
+    expect(second.words?.map((word) => word.word)).toEqual(["Next", "hand", "I'm", "on", "the", "button"])
+  })
+
+  it("lets a hand start partway through a segment", () => {
+    const segments = splitAtSentences([timed(0, "I raise, everyone folds. Okay next hand."), timed(5, "I open to six.")])
+
+    expect(detectHandStarts(segments)).toEqual([0, 1])
+    expect(segments[1].start).toBe(2)
+  })
+
+  it("keeps segments whole without word times that line up with the text", () => {
+    const segments = [segment(0, "First hand. Second hand."), { ...timed(5, "One. Two."), words: [] }]
+
+    expect(splitAtSentences(segments)).toEqual(segments)
+  })
+})
+
+describe("normalizeHandStarts", () => {
+  it("sorts, dedupes and drops starts outside the transcript", () => {
+    expect(normalizeHandStarts([4, 2, 2, -1, 9, 1.5], 5)).toEqual([0, 2, 4])
+  })
+})
+
+describe("splitTranscript", () => {
+  it("joins each hand's segments and keeps their times", () => {
+    const segments = [segment(0, "First hand."), segment(5, "Still first."), segment(10, "Second hand.")]
+
+    expect(splitTranscript(segments, [2])).toEqual([
+      { start: 0, end: 10, text: "First hand. Still first.", segments: segments.slice(0, 2) },
+      { start: 10, end: 15, text: "Second hand.", segments: segments.slice(2) },
+    ])
+  })
+})
@@ -0,0 +1,127 @@
+// This file splits the transcript of a recording that covers several hands into one piece per hand
+
+import type { TranscriptSegment } from "@/lib/ai-provider"
+
+// Where a hand begins in the transcript, with a one-line description to help review the split
+export interface HandBoundary {
+  startSegment: number
+  summary: string
+}
+
+// One hand's share of the transcript, with its times in seconds from the start of the recording
+export interface HandSplit {
+  start: number
+  end: number
+  text: string
+  segments: TranscriptSegment[]
+}
+
+// Phrases people use to move on to the next hand
+const NEXT_HAND_CUES = [
+  /\b(next|new|another|following) hand\b/i,
+  /\bhand (number|#) ?\w+/i,
+  /\bokay,? so this (one|hand)\b/i,
+]
+
+// Phrases that close a hand, so whatever comes after starts a new one
+const END_OF_HAND_CUES = [/\b(end of|that's it for|that was) (the|that) hand\b/i, /\bend hand\b/i]
+
+// Hands are usually introduced with the hero's seat and cards, e.g. "I'm in the cutoff with ace king"
+const HAND_INTRO_CUES = [
+  /\bI'?m (in|on|at) the (button|cutoff|hijack|lojack|small blind|big blind|under the gun|utg|co|btn|sb|bb)\b.*\bwith\b/i,
+  /\bI (look down at|pick up|get dealt|am dealt|was dealt|have been dealt)\b/i,
+]
+
+const matchesAny = (text: string, cues: RegExp[]) => cues.some((cue) => cue.test(text))
+
+/**
+ * Breaks segments into sentences at their word timestamps, so a hand can start partway through a segment.
+ * Segments without word timestamps, or whose words don't line up with the text, are kept whole.
+ */
+export function splitAtSentences(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.flatMap((segment) => {
+    const words = segment.words ?? []
+    const sentences = segment.text.split(/(?<=[.!?])\s+/).filter(Boolean)
+    const counts = sentences.map((sentence) => sentence.split(/\s+/).length)
+    if (sentences.length < 2 || counts.reduce((sum, count) => sum + count, 0) !== words.length) return [segment]
+
+    let first = 0
+    return sentences.map((sentence, index) => {
+      const sentenceWords = words.slice(first, first + counts[index])
+      first += counts[index]
+      // The first and last sentence keep the segment's edges, so no audio is lost around them
+      return {
+        start: index === 0 ? segment.start : sentenceWords[0].start,
+        end: index === sentences.length - 1 ? segment.end : sentenceWords[sentenceWords.length - 1].end,
+        text: sentence,
+        words: sentenceWords,
+      }
+    })
+  })
+}
+
+/**
+ * Guesses where each hand starts from the phrases people use between hands. Used when the AI provider can't do it.
+ * @returns The index of the first segment of each hand, always starting with 0
+ */
+export function detectHandStarts(segments: TranscriptSegment[]): number[] {
+  const starts = [0]
+  let handEnded = false
+  let afterNextHandCue = false
+
+  segments.forEach((segment, index) => {
+    const isNextHand = matchesAny(segment.text, NEXT_HAND_CUES)
+    const isIntro = matchesAny(segment.text, HAND_INTRO_CUES)
+
+    // "Next hand. I'm on the button with..." should start one hand, not two
+    if (index > 0 && (handEnded || ((isNextHand || isIntro) && !afterNextHandCue))) {
+      starts.push(index)
+    }
+    handEnded = matchesAny(segment.text, END_OF_HAND_CUES)
+    afterNextHandCue = isNextHand
+  })
+
+  return starts
+}
+
+/**
+ * Finds the segments that follow a pause at least as long as the gap, measured between words when their times are known
+ * @returns The index of each segment a pause comes before
+ */
+export function detectPauseStarts(segments: TranscriptSegment[], gapSeconds: number): number[] {
+  const starts: number[] = []
+  segments.forEach((segment, index) => {
+    if (index === 0) return
+    const previous = segments[index - 1]
+    const previousEnd = previous.words?.[previous.words.length - 1]?.end ?? previous.end
+    const start = segment.words?.[0]?.start ?? segment.start
+    if (start - previousEnd >= gapSeconds) starts.push(index)
+  })
+  return starts
+}
+
+/**
+ * Cleans up hand starts from the AI or the user: in range, in order, without duplicates and starting at 0
+ */
+export function normalizeHandStarts(starts: number[], segmentCount: number): number[] {
+  const valid = starts.filter((start) => Number.isInteger(start) && start > 0 && start < segmentCount)
+  return [0, ...Array.from(new Set(valid)).sort((a, b) => a - b)]
+}
+
+/**
+ * Cuts the transcript at each hand start
+ * @param starts The index of the first segment of each hand
+ */
+export function splitTranscript(segments: TranscriptSegment[], starts: number[]): HandSplit[] {
+  const normalized = normalizeHandStarts(starts, segments.length)
+
+  return normalized
+    .map((start, index) => segments.slice(start, normalized[index + 1] ?? segments.length))
+    .filter((handSegments) => handSegments.length > 0)
+    .map((handSegments) => ({
+      start: handSegments[0].start,
+      end: handSegments[handSegments.length - 1].end,
+      text: handSegments.map((segment) => segment.text).join(" "),
+      segments: handSegments,
+    }))
+}
@@ -0,0 +1,366 @@
+import { describe, expect, it } from "vitest"
+import { validateHand, type ValidationStakes } from "./hand-validator"
+import type { Action, Hand, Street } from "./hand"
+
+const action = (street: Street, player: string, type: Action["type"], amount = 0, allIn = false): Action => ({
+  street,
+  player,
+  type,
+  amount,
+  allIn,
+})
+
+// Hero raises on the button, the big blind calls, and they check it down after a called flop bet
+const singleRaised: Hand = {
+  game: { type: "cash", variant: "nlhe", currency: "$", smallBlind: 1, bigBlind: 2, ante: 0, anteType: "everyone" },
+  maxSeats: 6,
+  buttonSeat: 1,
+  seats: [
+    { seat: 1, player: "Hero", position: "BTN", stack: 100, holeCards: ["Ah", "Kh"], isHero: true },
+    { seat: 2, player: "Small", position: "SB", stack: 100, holeCards: [], isHero: false },
+    { seat: 3, player: "Big", position: "BB", stack: 100, holeCards: ["Qs", "Qc"], isHero: false },
+  ],
+  actions: [
+    action("preflop", "Small", "post-small-blind", 1),
+    action("preflop", "Big", "post-big-blind", 2),
+    action("preflop", "Hero", "raise", 6),
+    action("preflop", "Small", "fold"),
+    action("preflop", "Big", "call", 4),
+    action("flop", "Big", "check"),
+    action("flop", "Hero", "bet", 8),
+    action("flop", "Big", "call", 8),
+    action("turn", "Big", "check"),
+    action("turn", "Hero", "check"),
+    action("river", "Big", "check"),
+    action("river", "Hero", "check"),
+  ],
+  board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+  extraBoards: [],
+  bombPot: false,
+  pots: [{ amount: 29, winners: [{ player: "Big", amount: 29 }] }],
+  rake: 0,
+}
+
+// Swaps in new actions and pot size, keeping the rest of the hand
+const withActions = (hand: Hand, actions: Action[], pot: number): Hand => ({
+  ...hand,
+  actions,
+  pots: [{ amount: pot, winners: [{ player: "Big", amount: pot }] }],
+})
+
+const codes = (hand: Hand, stakes?: ValidationStakes) => validateHand(hand, stakes).map((issue) => issue.code)
+
+// Checks it down from the flop, for hands where the betting is all preflop
+const checkedDown: Action[] = (["flop", "turn", "river"] as const).flatMap((street) => [
+  action(street, "Big", "check"),
+  action(street, "Hero", "check"),
+])
+
+describe("validateHand", () => {
+  it("finds nothing wrong with a hand that adds up", () => {
+    expect(codes(singleRaised)).toEqual([])
+  })
+
+  it("reports actions and winners for players without a seat", () => {
+    const ghost = { ...singleRaised, pots: [{ amount: 29, winners: [{ player: "Ghost", amount: 29 }] }] }
+
+    expect(codes(ghost)).toContain("unknown-player")
+    expect(codes(singleRaised)).not.toContain("unknown-player")
+  })
+
+  it("checks the blinds against the expected stakes", () => {
+    expect(codes(singleRaised, { smallBlind: 2, bigBlind: 4 })).toContain("blind-mismatch")
+    expect(codes(singleRaised, { smallBlind: 1, bigBlind: 2 })).toEqual([])
+  })
+
+  describe("antes", () => {
+    const tournament: Hand = {
+      ...singleRaised,
+      game: { ...singleRaised.game, type: "tournament", ante: 1 },
+      actions: [
+        action("preflop", "Hero", "post-ante", 1),
+        action("preflop", "Small", "post-ante", 1),
+        action("preflop", "Big", "post-ante", 1),
+        ...singleRaised.actions,
+      ],
+      pots: [{ amount: 32, winners: [{ player: "Big", amount: 32 }] }],
+    }
+
+    it("reports an ante of the wrong size", () => {
+      const short = withActions(
+        tournament,
+        tournament.actions.map((entry, index) => (index === 0 ? { ...entry, amount: 0.5 } : entry)),
+        31.5,
+      )
+
+      expect(codes(short)).toContain("ante-mismatch")
+      expect(codes(tournament)).toEqual([])
+    })
+
+    it("reports an ante from anyone but the big blind with a big blind ante", () => {
+      const everyonePosts = { ...tournament, game: { ...tournament.game, anteType: "big-blind" as const } }
+      const bigBlindPosts = withActions(
+        { ...everyonePosts, game: { ...everyonePosts.game, ante: 3 } },
+        [action("preflop", "Big", "post-ante", 3), ...singleRaised.actions],
+        32,
+      )
+
+      expect(codes(everyonePosts)).toContain("ante-mismatch")
+      expect(codes(bigBlindPosts)).not.toContain("ante-mismatch")
+    })
+  })
+
+  describe("straddles", () => {
+    const straddled = (amount: number) =>
+      withActions(
+        singleRaised,
+        [
+          action("preflop", "Small", "post-small-blind", 1),
+          action("preflop", "Big", "post-big-blind", 2),
+          action("preflop", "Hero", "post-straddle", amount),
+          action("preflop", "Small", "fold"),
+          action("preflop", "Big", "call", amount - 2),
+          action("preflop", "Hero", "check"),
+          ...checkedDown,
+        ],
+        1 + amount * 2,
+      )
+
+    it("reports a straddle smaller than twice the big blind", () => {
+      expect(codes(straddled(3))).toContain("straddle-below-minimum")
+      expect(codes(straddled(4))).toEqual([])
+    })
+  })
+
+  describe("bomb pots", () => {
+    const bombPot = (preflop: Action[]): Hand =>
+      withActions(
+        { ...singleRaised, bombPot: true, game: { ...singleRaised.game, ante: 5 } },
+        [
+          action("preflop", "Small", "post-ante", 5),
+          action("preflop", "Big", "post-ante", 5),
+          action("preflop", "Hero", "post-ante", 5),
+          ...preflop,
+          action("flop", "Small", "fold"),
+          ...checkedDown,
+        ],
+        15,
+      )
+
+    it("reports preflop action in a bomb pot", () => {
+      expect(codes(bombPot([action("preflop", "Small", "check")]))).toContain("bomb-pot-action")
+      expect(codes(bombPot([]))).toEqual([])
+    })
+  })
+
+  it("reports a player acting after folding", () => {
+    const afterFold = { ...singleRaised, actions: [...singleRaised.actions, action("river", "Small", "check")] }
+
+    expect(codes(afterFold)).toContain("action-after-fold")
+    expect(codes(singleRaised)).not.toContain("action-after-fold")
+  })
+
+  it("reports a player acting out of turn", () => {
+    const outOfTurn = {
+      ...singleRaised,
+      actions: singleRaised.actions.filter((entry) => !(entry.street === "flop" && entry.type === "check")),
+    }
+
+    expect(codes(outOfTurn)).toContain("out-of-turn")
+    expect(codes(singleRaised)).not.toContain("out-of-turn")
+  })
+
+  it("reports a check facing a bet, but not the big blind's option in a limped pot", () => {
+    const limped = withActions(
+      singleRaised,
+      [
+        action("preflop", "Small", "post-small-blind", 1),
+        action("preflop", "Big", "post-big-blind", 2),
+        action("preflop", "Hero", "call", 2),
+        action("preflop", "Small", "fold"),
+        action("preflop", "Big", "check"),
+        ...checkedDown,
+      ],
+      5,
+    )
+    const facingRaise = withActions(
+      singleRaised,
+      [...singleRaised.actions.slice(0, 4), action("preflop", "Big", "check"), ...checkedDown],
+      9,
+    )
+
+    expect(codes(facingRaise)).toContain("illegal-check")
+    expect(codes(limped)).toEqual([])
+  })
+
+  it("reports a bet into an existing bet", () => {
+    const betIntoRaise = {
+      ...singleRaised,
+      actions: singleRaised.actions.map((entry, index) => (index === 4 ? { ...entry, type: "bet" as const } : entry)),
+    }
+
+    expect(codes(betIntoRaise)).toContain("illegal-bet")
+    expect(codes(singleRaised)).not.toContain("illegal-bet")
+  })
+
+  it("reports a call of the wrong amount, but not a short all-in call", () => {
+    // The all-in call leaves a chip of the raise uncalled
+    const called = (amount: number, stack: number, allIn: boolean) =>
+      withActions(
+        { ...singleRaised, seats: singleRaised.seats.map((seat) => (seat.player === "Big" ? { ...seat, stack } : seat)) },
+        [...singleRaised.actions.slice(0, 4), action("preflop", "Big", "call", amount, allIn)],
+        1 + (2 + amount) * 2,
+      )
+
+    expect(codes(called(3, 100, false))).toContain("call-mismatch")
+    expect(codes(called(3, 5, true))).toEqual([])
+  })
+
+  it("reports a bet below the big blind", () => {
+    const tinyBet = withActions(
+      singleRaised,
+      [
+        ...singleRaised.actions.slice(0, 6),
+        action("flop", "Hero", "bet", 1),
+        action("flop", "Big", "call", 1),
+        ...singleRaised.actions.slice(8),
+      ],
+      15,
+    )
+
+    expect(codes(tinyBet)).toContain("bet-below-minimum")
+    expect(codes(singleRaised)).not.toContain("bet-below-minimum")
+  })
+
+  it("reports a raise below the minimum, but not a short all-in raise", () => {
+    const raised = (stack: number, allIn: boolean) =>
+      withActions(
+        { ...singleRaised, seats: singleRaised.seats.map((seat) => (seat.player === "Hero" ? { ...seat, stack } : seat)) },
+        [
+          ...singleRaised.actions.slice(0, 2),
+          action("preflop", "Hero", "raise", 3, allIn),
+          action("preflop", "Small", "fold"),
+          action("preflop", "Big", "call", 1),
+        ],
+        7,
+      )
+
+    expect(codes(raised(100, false))).toContain("raise-below-minimum")
+    expect(codes(raised(3, true))).toEqual([])
+  })
+
+  describe("pot limit", () => {
+    const omaha = (flopBet: number): Hand =>
+      withActions(
+        {
+          ...singleRaised,
+          game: { ...singleRaised.game, variant: "plo" },
+          seats: [
+            { ...singleRaised.seats[0], holeCards: ["Ah", "Kh", "Qd", "Jd"] },
+            singleRaised.seats[1],
+            { ...singleRaised.seats[2], holeCards: ["Qs", "Qc", "8s", "8c"] },
+          ],
+        },
+        [
+          ...singleRaised.actions.slice(0, 2),
+          action("preflop", "Hero", "raise", 7),
+          action("preflop", "Small", "fold"),
+          action("preflop", "Big", "call", 5),
+          action("flop", "Big", "check"),
+          action("flop", "Hero", "bet", flopBet),
+          action("flop", "Big", "call", flopBet),
+          ...checkedDown.slice(2),
+        ],
+        15 + flopBet * 2,
+      )
+
+    it("reports a bet bigger than the pot", () => {
+      expect(codes(omaha(16))).toContain("bet-above-pot-limit")
+      expect(codes(omaha(15))).toEqual([])
+    })
+  })
+
+  describe("fixed limit", () => {
+    const limit = (turnBet: number): Hand =>
+      withActions(
+        { ...singleRaised, game: { ...singleRaised.game, variant: "limit-holdem" } },
+        [
+          ...singleRaised.actions.slice(0, 2),
+          action("preflop", "Hero", "raise", 4),
+          action("preflop", "Small", "fold"),
+          action("preflop", "Big", "call", 2),
+          action("flop", "Big", "check"),
+          action("flop", "Hero", "bet", 2),
+          action("flop", "Big", "call", 2),
+          action("turn", "Big", "check"),
+          action("turn", "Hero", "bet", turnBet),
+          action("turn", "Big", "call", turnBet),
+          action("river", "Big", "check"),
+          action("river", "Hero", "check"),
+        ],
+        13 + turnBet * 2,
+      )
+
+    it("reports a bet that isn't the street's fixed size", () => {
+      expect(codes(limit(2))).toContain("limit-bet-mismatch")
+      expect(codes(limit(4))).toEqual([])
+    })
+  })
+
+  it("reports a player putting in more than their stack", () => {
+    const shortStacked = {
+      ...singleRaised,
+      seats: singleRaised.seats.map((seat) => (seat.player === "Hero" ? { ...seat, stack: 10 } : seat)),
+    }
+
+    expect(codes(shortStacked)).toContain("negative-stack")
+    expect(codes(singleRaised)).not.toContain("negative-stack")
+  })
+
+  it("reports pots that don't add up to what was put in", () => {
+    const misCounted = { ...singleRaised, pots: [{ amount: 30, winners: [{ player: "Big", amount: 30 }] }] }
+
+    expect(codes(misCounted)).toContain("pot-mismatch")
+    expect(codes({ ...singleRaised, pots: [{ amount: 28, winners: [{ player: "Big", amount: 28 }] }], rake: 1 })).toEqual([])
+  })
+
+  it("reports winners paid more than the pot", () => {
+    const overpaid = { ...singleRaised, pots: [{ amount: 29, winners: [{ player: "Big", amount: 30 }] }] }
+
+    expect(codes(overpaid)).toContain("winner-exceeds-pot")
+    expect(codes(singleRaised)).not.toContain("winner-exceeds-pot")
+  })
+
+  it("reports a player reaching showdown without known cards", () => {
+    const unknown = {
+      ...singleRaised,
+      seats: singleRaised.seats.map((seat) => (seat.player === "Big" ? { ...seat, holeCards: [] } : seat)),
+    }
+
+    expect(codes(unknown)).toContain("missing-showdown-cards")
+    expect(codes(singleRaised)).not.toContain("missing-showdown-cards")
+  })
+
+  it("leaves a seat that never acted out of the turn order and the showdown", () => {
+    const sittingOut: Hand = {
+      ...singleRaised,
+      seats: [...singleRaised.seats, { seat: 4, player: "Away", position: "UTG", stack: 100, holeCards: [], isHero: false }],
+    }
+
+    expect(codes(sittingOut)).toEqual([])
+  })
+
+  it("reports hole cards that don't match the variant", () => {
+    const holdemCardsInOmaha = { ...singleRaised, game: { ...singleRaised.game, variant: "plo" as const } }
+
+    expect(codes(holdemCardsInOmaha)).toContain("hole-card-count")
+    expect(codes(singleRaised)).not.toContain("hole-card-count")
+  })
+
+  it("reports cards missing from a short deck", () => {
+    const shortDeck = { ...singleRaised, game: { ...singleRaised.game, variant: "short-deck" as const } }
+
+    expect(codes(shortDeck)).toContain("card-not-in-deck")
+    expect(codes({ ...shortDeck, board: { flop: ["6c", "7d", "9h"], turn: "Ts", river: "As" } })).toEqual([])
+  })
+})
@@ -0,0 +1,434 @@
+// This file replays a structured hand and reports chip accounting and action order problems
+
+import {
+  SHORT_DECK_MISSING_RANKS,
+  STREETS,
+  VARIANT_RULES,
+  allBoards,
+  boardThrough,
+  roundChips,
+  type Action,
+  type Hand,
+  type Street,
+} from "@/lib/hand"
+import { contributions } from "@/lib/side-pots"
+
+export type HandIssueCode =
+  | "unknown-player"
+  | "blind-mismatch"
+  | "ante-mismatch"
+  | "straddle-below-minimum"
+  | "bomb-pot-action"
+  | "action-after-fold"
+  | "out-of-turn"
+  | "illegal-check"
+  | "illegal-bet"
+  | "call-mismatch"
+  | "bet-below-minimum"
+  | "raise-below-minimum"
+  | "bet-above-pot-limit"
+  | "limit-bet-mismatch"
+  | "negative-stack"
+  | "pot-mismatch"
+  | "winner-exceeds-pot"
+  | "missing-showdown-cards"
+  | "hole-card-count"
+  | "card-not-in-deck"
+
+export interface HandIssue {
+  code: HandIssueCode
+  message: string
+  street?: Street
+  player?: string
+}
+
+// Blinds and antes the hand is expected to use, usually taken from the game settings
+export interface ValidationStakes {
+  smallBlind?: number
+  bigBlind?: number
+  ante?: number
+}
+
+// Allow for rounding when comparing currency amounts
+const EPSILON = 0.005
+
+// Fixed-limit bets and raises are one big blind on the first two streets and two on the last two
+function limitBetSize(street: Street, bigBlind: number): number {
+  return street === "preflop" || street === "flop" ? bigBlind : roundChips(bigBlind * 2)
+}
+
+/**
+ * Replays the actions street by street and reports every inconsistency found
+ * @param hand The structured hand to check
+ * @param stakes Expected blinds and antes; the hand's own stakes are used for anything not given
+ * @returns The list of issues, empty when the hand adds up
+ */
+export function validateHand(hand: Hand, stakes: ValidationStakes = {}): HandIssue[] {
+  const issues: HandIssue[] = []
+  const money = (amount: number) => `${hand.game.currency}${roundChips(amount)}`
+
+  const smallBlind = stakes.smallBlind ?? hand.game.smallBlind
+  const bigBlind = stakes.bigBlind ?? hand.game.bigBlind
+  const ante = stakes.ante ?? hand.game.ante
+  const rules = VARIANT_RULES[hand.game.variant]
+
+  // Seats that never acted weren't dealt in, so they neither take a turn nor reach showdown
+  const acted = new Set(hand.actions.map((action) => action.player))
+
+  // Everyone in clockwise order starting left of the button, so the button acts last postflop
+  const sorted = hand.seats.filter((seat) => acted.has(seat.player)).sort((a, b) => a.seat - b.seat)
+  const afterButton = sorted.findIndex((seat) => seat.seat > hand.buttonSeat)
+  const order = afterButton === -1 ? sorted : [...sorted.slice(afterButton), ...sorted.slice(0, afterButton)]
+  const players = order.map((seat) => seat.player)
+
+  const stacks = new Map(hand.seats.map((seat) => [seat.player, seat.stack]))
+  const contributed = new Map<string, number>()
+  const folded = new Set<string>()
+  const allIn = new Set<string>()
+  const brokeStack = new Set<string>()
+
+  const pay = (action: Action, chips: number) => {
+    const remaining = roundChips((stacks.get(action.player) ?? 0) - chips)
+    stacks.set(action.player, remaining)
+    contributed.set(action.player, roundChips((contributed.get(action.player) ?? 0) + chips))
+
+    if (remaining < -EPSILON && !brokeStack.has(action.player)) {
+      brokeStack.add(action.player)
+      issues.push({
+        code: "negative-stack",
+        message: `${action.player} puts in more than their ${money(
+          hand.seats.find((seat) => seat.player === action.player)?.stack ?? 0,
+        )} stack`,
+        street: action.street,
+        player: action.player,
+      })
+    }
+    if (remaining <= EPSILON) allIn.add(action.player)
+  }
+
+  // Everything in the middle so far, including bets on the current street
+  const potSize = () => roundChips([...contributed.values()].reduce((sum, amount) => sum + amount, 0))
+
+  const bigBlindPlayer = hand.actions.find((action) => action.type === "post-big-blind")?.player
+  const bigBlindIndex = players.indexOf(bigBlindPlayer ?? "")
+
+  // Straddles each sitting left of the blind before them move the start of preflop action along. House rules for
+  // who acts first around a Mississippi straddle vary, so preflop order isn't checked when one is out of line.
+  let preflopOpener = bigBlindIndex
+  let straddlesInLine = true
+  for (const straddle of hand.actions.filter((action) => action.type === "post-straddle")) {
+    const index = players.indexOf(straddle.player)
+    if (preflopOpener !== -1 && index === (preflopOpener + 1) % players.length) preflopOpener = index
+    else straddlesInLine = false
+  }
+
+  // Only one player puts in the ante for the whole table with a button or big blind ante
+  const antePoster =
+    hand.game.anteType === "button"
+      ? hand.seats.find((seat) => seat.seat === hand.buttonSeat)?.player
+      : hand.game.anteType === "big-blind"
+        ? bigBlindPlayer
+        : undefined
+
+  // Everyone puts the same agreed amount into a bomb pot, whatever the game's ante
+  const expectedAnte = hand.bombPot
+    ? (hand.actions.find((action) => action.type === "post-ante")?.amount ?? ante)
+    : ante
+
+  for (const street of STREETS) {
+    const actions = hand.actions.filter((action) => action.street === street)
+    const streetBets = new Map<string, number>()
+    let highestBet = 0
+    let lastRaiseSize = bigBlind
+
+    // Preflop the first player to act sits left of the big blind or the last straddle, postflop left of the button
+    let lastActor =
+      street === "preflop"
+        ? preflopOpener !== -1
+          ? preflopOpener
+          : Math.min(1, players.length - 1)
+        : players.length - 1
+
+    const nextToAct = () => {
+      for (let step = 1; step <= players.length; step++) {
+        const index = (lastActor + step) % players.length
+        if (!folded.has(players[index]) && !allIn.has(players[index])) return index
+      }
+      return -1
+    }
+
+    for (const action of actions) {
+      const { player } = action
+      const current = streetBets.get(player) ?? 0
+
+      if (!stacks.has(player)) {
+        issues.push({ code: "unknown-player", message: `${player} acts but has no seat`, street, player })
+        continue
+      }
+
+      if (folded.has(player)) {
+        issues.push({ code: "action-after-fold", message: `${player} acts after folding`, street, player })
+        continue
+      }
+
+      if (action.type === "post-ante") {
+        if (antePoster && player !== antePoster && !hand.bombPot) {
+          issues.push({
+            code: "ante-mismatch",
+            message: `${player} posts an ante, but ${antePoster} posts the ${
+              hand.game.anteType === "button" ? "button" : "big blind"
+            } ante for the table`,
+            street,
+            player,
+          })
+        } else if (Math.abs(action.amount - expectedAnte) > EPSILON && !action.allIn) {
+          issues.push({
+            code: "ante-mismatch",
+            message: `${player} posts a ${money(action.amount)} ${hand.bombPot ? "bomb pot ante" : "ante"}, expected ${money(
+              expectedAnte,
+            )}`,
+            street,
+            player,
+          })
+        }
+        pay(action, action.amount)
+        continue
+      }
+
+      if (action.type === "post-straddle") {
+        // A straddle is a blind raise to at least twice the bet before it, and plays like a bigger big blind
+        if (action.amount < highestBet * 2 - EPSILON && !action.allIn) {
+          issues.push({
+            code: "straddle-below-minimum",
+            message: `${player} straddles ${money(action.amount)}, a straddle is at least ${money(highestBet * 2)}`,
+            street,
+            player,
+          })
+        }
+        pay(action, action.amount)
+        streetBets.set(player, roundChips(current + action.amount))
+        highestBet = Math.max(highestBet, streetBets.get(player) ?? 0)
+        lastRaiseSize = Math.max(lastRaiseSize, action.amount)
+        continue
+      }
+
+      if (hand.bombPot && street === "preflop") {
+        issues.push({
+          code: "bomb-pot-action",
+          message: `${player} acts preflop in a bomb pot, which goes straight to the flop`,
+          street,
+          player,
+        })
+      }
+
+      if (action.type === "post-small-blind" || action.type === "post-big-blind") {
+        const expected = action.type === "post-small-blind" ? smallBlind : bigBlind
+        if (Math.abs(action.amount - expected) > EPSILON && !action.allIn) {
+          issues.push({
+            code: "blind-mismatch",
+            message: `${player} posts ${money(action.amount)} as the ${
+              action.type === "post-small-blind" ? "small" : "big"
+            } blind, expected ${money(expected)}`,
+            street,
+            player,
+          })
+        }
+        pay(action, action.amount)
+        streetBets.set(player, roundChips(current + action.amount))
+        highestBet = Math.max(highestBet, streetBets.get(player) ?? 0)
+        continue
+      }
+
+      const expectedIndex = nextToAct()
+      const actualIndex = players.indexOf(player)
+      if (expectedIndex !== -1 && expectedIndex !== actualIndex && (street !== "preflop" || straddlesInLine)) {
+        issues.push({
+          code: "out-of-turn",
+          message: `${player} acts out of turn, ${players[expectedIndex]} was next to act`,
+          street,
+          player,
+        })
+      }
+      lastActor = actualIndex
+
+      switch (action.type) {
+        case "fold":
+          folded.add(player)
+          break
+
+        case "check":
+          if (highestBet - current > EPSILON) {
+            issues.push({
+              code: "illegal-check",
+              message: `${player} checks facing a ${money(highestBet)} bet`,
+              street,
+              player,
+            })
+          }
+          break
+
+        case "call": {
+          const owed = roundChips(highestBet - current)
+          const shortAllIn = action.allIn && action.amount < owed
+          if (Math.abs(action.amount - owed) > EPSILON && !shortAllIn) {
+            issues.push({
+              code: "call-mismatch",
+              message: `${player} calls ${money(action.amount)} but owes ${money(owed)}`,
+              street,
+              player,
+            })
+          }
+          pay(action, action.amount)
+          streetBets.set(player, roundChips(current + action.amount))
+          break
+        }
+
+        case "bet":
+          if (highestBet > EPSILON) {
+            issues.push({
+              code: "illegal-bet",
+              message: `${player} bets into an existing ${money(highestBet)} bet, which should be a raise`,
+              street,
+              player,
+            })
+          } else if (rules.betting === "fixed-limit") {
+            const size = limitBetSize(street, bigBlind)
+            if (Math.abs(action.amount - size) > EPSILON && !(action.allIn && action.amount < size)) {
+              issues.push({
+                code: "limit-bet-mismatch",
+                message: `${player} bets ${money(action.amount)}, bets on the ${street} are ${money(size)}`,
+                street,
+                player,
+              })
+            }
+          } else if (action.amount < bigBlind - EPSILON && !action.allIn) {
+            issues.push({
+              code: "bet-below-minimum",
+              message: `${player} bets ${money(action.amount)}, below the ${money(bigBlind)} minimum`,
+              street,
+              player,
+            })
+          } else if (rules.betting === "pot-limit" && action.amount > potSize() + EPSILON) {
+            issues.push({
+              code: "bet-above-pot-limit",
+              message: `${player} bets ${money(action.amount)} into a ${money(potSize())} pot in ${rules.label}`,
+              street,
+              player,
+            })
+          }
+          pay(action, action.amount)
+          streetBets.set(player, roundChips(current + action.amount))
+          lastRaiseSize = Math.max(lastRaiseSize, action.amount)
+          break
+
+        case "raise": {
+          const raiseSize = roundChips(action.amount - highestBet)
+          // A pot-sized raise calls first, then raises by the whole pot including the call
+          const potLimit = roundChips(highestBet + potSize() + (highestBet - current))
+
+          if (rules.betting === "fixed-limit") {
+            const size = limitBetSize(street, bigBlind)
+            if (Math.abs(raiseSize - size) > EPSILON && !(action.allIn && raiseSize < size)) {
+              issues.push({
+                code: "limit-bet-mismatch",
+                message: `${player} raises to ${money(action.amount)}, a raise on the ${street} is to ${money(
+                  highestBet + size,
+                )}`,
+                street,
+                player,
+              })
+            }
+          } else if (rules.betting === "pot-limit" && action.amount > potLimit + EPSILON) {
+            issues.push({
+              code: "bet-above-pot-limit",
+              message: `${player} raises to ${money(action.amount)}, the most they can raise to is ${money(potLimit)}`,
+              street,
+              player,
+            })
+          } else if (raiseSize < lastRaiseSize - EPSILON && !action.allIn) {
+            issues.push({
+              code: "raise-below-minimum",
+              message: `${player} raises to ${money(action.amount)}, the minimum raise is to ${money(
+                highestBet + lastRaiseSize,
+              )}`,
+              street,
+              player,
+            })
+          }
+          pay(action, Math.max(0, action.amount - current))
+          streetBets.set(player, action.amount)
+          lastRaiseSize = Math.max(lastRaiseSize, raiseSize)
+          break
+        }
+      }
+
+      highestBet = Math.max(highestBet, streetBets.get(player) ?? 0)
+    }
+  }
+
+  // The pot is everything put in, less any uncalled bet given back
+  const expectedPot = roundChips([...contributions(hand).values()].reduce((sum, amount) => sum + amount, 0))
+  const reportedPot = roundChips(hand.pots.reduce((sum, pot) => sum + pot.amount, 0) + hand.rake)
+
+  if (Math.abs(expectedPot - reportedPot) > EPSILON) {
+    issues.push({
+      code: "pot-mismatch",
+      message: `Pots and rake add up to ${money(reportedPot)}, but the actions put ${money(expectedPot)} in the pot`,
+    })
+  }
+
+  hand.pots.forEach((pot, index) => {
+    const paid = roundChips(pot.winners.reduce((sum, winner) => sum + winner.amount, 0))
+    if (paid > pot.amount + EPSILON) {
+      issues.push({
+        code: "winner-exceeds-pot",
+        message: `${index === 0 ? "Main pot" : `Side pot ${index}`} pays out ${money(paid)} from a ${money(pot.amount)} pot`,
+      })
+    }
+
+    for (const winner of pot.winners) {
+      if (!stacks.has(winner.player)) {
+        issues.push({
+          code: "unknown-player",
+          message: `${winner.player} wins a pot but has no seat`,
+          player: winner.player,
+        })
+      }
+    }
+  })
+
+  for (const seat of hand.seats) {
+    if (seat.holeCards.length > 0 && seat.holeCards.length !== rules.holeCards) {
+      issues.push({
+        code: "hole-card-count",
+        message: `${seat.player} has ${seat.holeCards.length} hole cards, ${rules.label} deals ${rules.holeCards}`,
+        player: seat.player,
+      })
+    }
+  }
+
+  if (rules.shortDeck) {
+    const boardCards = allBoards(hand).flatMap((board) => boardThrough(board, "river"))
+    for (const card of new Set([...hand.seats.flatMap((seat) => seat.holeCards), ...boardCards])) {
+      if (SHORT_DECK_MISSING_RANKS.includes(card[0])) {
+        issues.push({ code: "card-not-in-deck", message: `${card} isn't in a short deck, which starts at the 6s` })
+      }
+    }
+  }
+
+  const remaining = hand.seats.filter((seat) => acted.has(seat.player) && !folded.has(seat.player))
+  if (remaining.length > 1) {
+    for (const seat of remaining) {
+      if (seat.holeCards.length === 0) {
+        issues.push({
+          code: "missing-showdown-cards",
+          message: `${seat.player} reaches showdown without known hole cards`,
+          street: "river",
+          player: seat.player,
+        })
+      }
+    }
+  }
+
+  return issues
+}
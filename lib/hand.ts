@@ -0,0 +1,242 @@
+// This file defines the structured poker hand model shared by the API routes and the UI
+
+import { z } from "zod"
+
+export const STREETS = ["preflop", "flop", "turn", "river"] as const
+
+export const POSITIONS = ["BTN", "SB", "BB", "UTG", "UTG+1", "UTG+2", "MP", "MP+1", "LJ", "HJ", "CO"] as const
+
+export const ANTE_TYPES = ["everyone", "button", "big-blind"] as const
+
+export const VARIANTS = ["nlhe", "plo", "plo5", "short-deck", "limit-holdem"] as const
+
+// What a game can be set to, where mixed games change variant from hand to hand and each hand is still one of VARIANTS
+export const GAME_VARIANTS = [...VARIANTS, "mixed"] as const
+
+export const streetSchema = z.enum(STREETS)
+
+export const variantSchema = z
+  .enum(VARIANTS)
+  .describe("nlhe No Limit Hold'em, plo Pot Limit Omaha, plo5 5-card PLO, short-deck 6+ Hold'em, limit-holdem Limit Hold'em")
+
+export const positionSchema = z.enum(POSITIONS)
+
+export const cardSchema = z
+  .string()
+  .regex(/^[2-9TJQKA][shdc]$/, "Cards must be rank + suit, e.g. Ah, Td, 7c")
+  .describe("Rank (2-9, T, J, Q, K, A) followed by suit (s, h, d, c), e.g. Ah or Td")
+
+export const seatSchema = z.object({
+  seat: z.number().int().min(1).max(10).describe("Seat number at the table, starting at 1"),
+  player: z.string().min(1).describe('Player name, "Hero" for the person describing the hand, otherwise a label like "Villain" or the position'),
+  position: positionSchema,
+  stack: z.number().nonnegative().describe("Stack at the start of the hand, in currency units (or chips for tournaments)"),
+  holeCards: z
+    .array(cardSchema)
+    .max(5)
+    .default([])
+    .describe("Hole cards if known (2 in Hold'em, 4 in PLO, 5 in PLO5), otherwise an empty array"),
+  isHero: z.boolean().default(false),
+})
+
+export const actionTypeSchema = z.enum([
+  "post-small-blind",
+  "post-big-blind",
+  "post-ante",
+  "post-straddle",
+  "fold",
+  "check",
+  "call",
+  "bet",
+  "raise",
+])
+
+export const actionSchema = z.object({
+  street: streetSchema,
+  player: z.string().min(1).describe("Must match a player name from seats"),
+  type: actionTypeSchema,
+  amount: z
+    .number()
+    .nonnegative()
+    .default(0)
+    .describe(
+      "Chips put in by this action. For raises this is the total bet the player raises TO, for straddles the whole straddle. 0 for folds and checks",
+    ),
+  allIn: z.boolean().default(false),
+})
+
+export const boardSchema = z.object({
+  flop: z.array(cardSchema).max(3).default([]),
+  turn: cardSchema.nullable().default(null),
+  river: cardSchema.nullable().default(null),
+})
+
+export const potWinnerSchema = z.object({
+  player: z.string().min(1),
+  amount: z.number().nonnegative(),
+  board: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Which board this share was won on, 1 for the first, when the hand has more than one board"),
+})
+
+export const potSchema = z.object({
+  amount: z.number().nonnegative().describe("Total size of this pot after rake"),
+  winners: z.array(potWinnerSchema),
+})
+
+export const gameSchema = z.object({
+  type: z.enum(["cash", "tournament"]),
+  variant: variantSchema.default("nlhe"),
+  currency: z.string().default("$"),
+  smallBlind: z.number().nonnegative(),
+  bigBlind: z.number().nonnegative(),
+  ante: z.number().nonnegative().default(0),
+  anteType: z
+    .enum(ANTE_TYPES)
+    .default("everyone")
+    .describe("Who posts the ante: everyone, or just the button or big blind posting it for the table"),
+})
+
+export const handSchema = z.object({
+  game: gameSchema,
+  maxSeats: z.number().int().min(2).max(10),
+  buttonSeat: z.number().int().min(1).max(10),
+  seats: z.array(seatSchema).min(2),
+  actions: z.array(actionSchema).describe("Every action in the order it happened, including blind and ante posts"),
+  board: boardSchema,
+  extraBoards: z
+    .array(boardSchema)
+    .max(2)
+    .default([])
+    .describe(
+      "Further boards when the hand was run it twice or three times, or dealt with two boards. Each is complete, repeating the cards it shares with the first board",
+    ),
+  bombPot: z
+    .boolean()
+    .default(false)
+    .describe("True when everyone put in an agreed amount as an ante and the hand went straight to the flop"),
+  pots: z.array(potSchema).describe("Main pot first, followed by any side pots"),
+  rake: z.number().nonnegative().default(0),
+})
+
+export type Street = z.infer<typeof streetSchema>
+export type Position = z.infer<typeof positionSchema>
+export type Variant = z.infer<typeof variantSchema>
+export type GameVariant = (typeof GAME_VARIANTS)[number]
+export type Card = z.infer<typeof cardSchema>
+export type Seat = z.infer<typeof seatSchema>
+export type ActionType = z.infer<typeof actionTypeSchema>
+export type Action = z.infer<typeof actionSchema>
+export type Board = z.infer<typeof boardSchema>
+export type PotWinner = z.infer<typeof potWinnerSchema>
+export type Pot = z.infer<typeof potSchema>
+export type Game = z.infer<typeof gameSchema>
+export type AnteType = (typeof ANTE_TYPES)[number]
+export type Hand = z.infer<typeof handSchema>
+
+export type BettingStructure = "no-limit" | "pot-limit" | "fixed-limit"
+
+export interface VariantRules {
+  label: string
+  holeCards: number
+  betting: BettingStructure
+  // Omaha hands are made of exactly two hole cards and three board cards
+  omaha: boolean
+  // Short deck plays without the 2s to 5s, so a flush beats a full house and trips beat a straight
+  shortDeck: boolean
+}
+
+export const VARIANT_RULES: Record<Variant, VariantRules> = {
+  nlhe: { label: "No Limit Hold'em", holeCards: 2, betting: "no-limit", omaha: false, shortDeck: false },
+  plo: { label: "Pot Limit Omaha", holeCards: 4, betting: "pot-limit", omaha: true, shortDeck: false },
+  plo5: { label: "5-Card PLO", holeCards: 5, betting: "pot-limit", omaha: true, shortDeck: false },
+  "short-deck": { label: "Short Deck", holeCards: 2, betting: "no-limit", omaha: false, shortDeck: true },
+  "limit-holdem": { label: "Limit Hold'em", holeCards: 2, betting: "fixed-limit", omaha: false, shortDeck: false },
+}
+
+/**
+ * Names a game variant setting, e.g. "Pot Limit Omaha" or "Mixed Games"
+ */
+export function gameVariantLabel(variant: GameVariant): string {
+  return variant === "mixed" ? "Mixed Games" : VARIANT_RULES[variant].label
+}
+
+// Rounds to cents so that repeated additions don't drift
+export const roundChips = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Formats chips the way hand histories show them: with the currency in cash games, as a plain count in tournaments
+ */
+export function formatAmount(hand: Hand, amount: number): string {
+  const value = Number.isInteger(amount) ? String(amount) : amount.toFixed(2)
+  return hand.game.type === "cash" ? `${hand.game.currency}${value}` : value
+}
+
+// Ranks that are taken out of the deck in short deck
+export const SHORT_DECK_MISSING_RANKS = ["2", "3", "4", "5"]
+
+/**
+ * Returns the board cards that were dealt up to and including the given street
+ */
+export function boardThrough(board: Board, street: Street): Card[] {
+  const cards: Card[] = []
+  if (street === "preflop") return cards
+
+  cards.push(...board.flop)
+  if (street === "flop") return cards
+
+  if (board.turn) cards.push(board.turn)
+  if (street === "turn") return cards
+
+  if (board.river) cards.push(board.river)
+  return cards
+}
+
+/**
+ * Returns every board the hand was dealt, the first one first
+ */
+export function allBoards(hand: Hand): Board[] {
+  return [hand.board, ...hand.extraBoards]
+}
+
+// Positions after the blinds, from first to act up to the cutoff, by number of players after the big blind
+const POSITIONS_AFTER_BLINDS: Position[][] = [
+  [],
+  ["CO"],
+  ["HJ", "CO"],
+  ["UTG", "HJ", "CO"],
+  ["UTG", "LJ", "HJ", "CO"],
+  ["UTG", "UTG+1", "LJ", "HJ", "CO"],
+  ["UTG", "UTG+1", "MP", "LJ", "HJ", "CO"],
+  ["UTG", "UTG+1", "UTG+2", "MP", "LJ", "HJ", "CO"],
+]
+
+/**
+ * Works out each occupied seat's position from the button, going clockwise
+ * @returns A map from seat number to position
+ */
+export function positionsForSeats(seatNumbers: number[], buttonSeat: number): Map<number, Position> {
+  const sorted = [...seatNumbers].sort((a, b) => a - b)
+  const buttonIndex = Math.max(0, sorted.indexOf(buttonSeat))
+  const clockwise = [...sorted.slice(buttonIndex), ...sorted.slice(0, buttonIndex)]
+  const positions = new Map<number, Position>()
+
+  // Heads up the button posts the small blind and acts first preflop
+  if (clockwise.length === 2) {
+    positions.set(clockwise[0], "BTN")
+    positions.set(clockwise[1], "BB")
+    return positions
+  }
+
+  const [button, smallBlind, bigBlind, ...rest] = clockwise
+  positions.set(button, "BTN")
+  if (smallBlind !== undefined) positions.set(smallBlind, "SB")
+  if (bigBlind !== undefined) positions.set(bigBlind, "BB")
+
+  const labels = POSITIONS_AFTER_BLINDS[rest.length] ?? []
+  rest.forEach((seat, index) => positions.set(seat, labels[index]))
+  return positions
+}
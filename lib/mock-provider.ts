@@ -0,0 +1,50 @@
+// This file implements a fake AI provider that answers from fixture files, for tests and prompt work without API credit
+
+import type { AIProvider, ProviderSettings } from "@/lib/ai-provider"
+import analysisFixture from "@/fixtures/mock-ai/analysis.json"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+import handSplitsFixture from "@/fixtures/mock-ai/hand-splits.json"
+import transcriptionFixture from "@/fixtures/mock-ai/transcription.json"
+
+// The mock provider rejects this key so the invalid key path can be exercised
+export const MOCK_INVALID_API_KEY = "sk-mock-invalid"
+
+// The canned answer for each kind of object the routes ask for, by schema name
+const OBJECT_FIXTURES: Record<string, unknown> = {
+  PokerHand: handFixture,
+  HandSplits: handSplitsFixture,
+}
+
+/**
+ * Creates a provider that returns the same canned transcription, objects and analysis every time
+ * @param settings The settings the real provider would have used, only the API key is looked at
+ */
+export function createMockProvider(settings: ProviderSettings): AIProvider {
+  return {
+    name: settings.provider,
+
+    describe: (model) => `Mock ${model ?? "model"}`,
+
+    async transcribe() {
+      return { text: transcriptionFixture.text, segments: transcriptionFixture.segments }
+    },
+
+    // Parsing through the request's schema keeps the fixture honest when the hand schema changes
+    async generateObject(request) {
+      if (!(request.schemaName in OBJECT_FIXTURES)) {
+        throw new Error(`No mock fixture for ${request.schemaName}`)
+      }
+      return request.schema.parse(OBJECT_FIXTURES[request.schemaName])
+    },
+
+    async *streamCompletion() {
+      for (const chunk of analysisFixture.chunks) {
+        yield chunk
+      }
+    },
+
+    async validate() {
+      return settings.apiKey !== MOCK_INVALID_API_KEY
+    },
+  }
+}
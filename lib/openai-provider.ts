@@ -0,0 +1,166 @@
+// This file implements the AI providers on top of the OpenAI API, which local servers also speak
+
+import { generateObject, streamText } from "ai"
+import { createOpenAI } from "@ai-sdk/openai"
+import {
+  DEFAULT_LOCAL_BASE_URL,
+  DEFAULT_LOCAL_MODEL,
+  DEFAULT_LOCAL_TRANSCRIPTION_URL,
+  type AIProvider,
+  type AIProviderName,
+  type ProviderSettings,
+  type TranscriptSegment,
+  type TranscriptWord,
+} from "@/lib/ai-provider"
+import { createMockProvider } from "@/lib/mock-provider"
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1"
+
+interface CompatibleOptions {
+  name: AIProviderName
+  label: string
+  apiKey?: string
+  baseUrl: string
+  transcriptionUrl: string
+  transcriptionModel: string
+  objectModel: string
+  completionModel: string
+  // Local servers rarely support OpenAI's structured outputs, so they get plain JSON mode instead
+  jsonMode: boolean
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "")
+
+function createCompatibleProvider(options: CompatibleOptions): AIProvider {
+  const headers: Record<string, string> = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}
+  const client = createOpenAI({
+    // Local servers ignore the key but the SDK insists on one
+    apiKey: options.apiKey || "not-needed",
+    baseURL: options.baseUrl,
+    compatibility: options.name === "openai" ? "strict" : "compatible",
+  })
+
+  return {
+    name: options.name,
+
+    describe: (model) => `${options.label} ${model ?? options.completionModel}`,
+
+    async transcribe(audio, fileName, transcribeOptions = {}) {
+      const formData = new FormData()
+      formData.append("file", audio, fileName)
+      formData.append("model", options.transcriptionModel)
+      if (transcribeOptions.prompt) {
+        formData.append("prompt", transcribeOptions.prompt)
+      }
+      // Segment timestamps let long recordings be split into chunks and stitched back together, and word
+      // timestamps let a recording of several hands be split between sentences
+      formData.append("response_format", "verbose_json")
+      formData.append("timestamp_granularities[]", "segment")
+      formData.append("timestamp_granularities[]", "word")
+
+      const response = await fetch(`${trimSlash(options.transcriptionUrl)}/audio/transcriptions`, {
+        method: "POST",
+        headers,
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error(`${options.label} transcription error:`, errorText)
+        throw new Error(`Transcription failed with status ${response.status}`)
+      }
+
+      const data = await response.json()
+      const words: TranscriptWord[] = Array.isArray(data.words)
+        ? data.words.map((word: TranscriptWord) => ({ start: word.start, end: word.end, word: word.word.trim() }))
+        : []
+      const segments: TranscriptSegment[] = Array.isArray(data.segments)
+        ? data.segments.map((segment: TranscriptSegment, index: number, all: TranscriptSegment[]) => {
+            // Words come as one list for the whole file, each belongs to the last segment starting before it
+            const next = all[index + 1]
+            const segmentWords = words.filter(
+              (word) => (index === 0 || word.start >= segment.start) && (!next || word.start < next.start),
+            )
+            return {
+              start: segment.start,
+              end: segment.end,
+              text: segment.text.trim(),
+              ...(segmentWords.length > 0 ? { words: segmentWords } : {}),
+            }
+          })
+        : // Servers without verbose output still get one segment covering the whole file
+          [{ start: 0, end: typeof data.duration === "number" ? data.duration : 0, text: data.text.trim() }]
+      return { text: data.text.trim(), segments }
+    },
+
+    async generateObject(request) {
+      const { object } = await generateObject({
+        model: client(options.objectModel),
+        schema: request.schema,
+        schemaName: request.schemaName,
+        schemaDescription: request.schemaDescription,
+        prompt: request.prompt,
+        mode: options.jsonMode ? "json" : "auto",
+      })
+      return object
+    },
+
+    async *streamCompletion(prompt, completion = {}) {
+      const result = streamText({
+        model: client(completion.model ?? options.completionModel),
+        prompt,
+        temperature: completion.temperature,
+        maxTokens: completion.maxTokens,
+      })
+
+      // Errors arrive as stream parts rather than being thrown, so surface them to the caller
+      for await (const part of result.fullStream) {
+        if (part.type === "text-delta") yield part.textDelta
+        if (part.type === "error") throw part.error instanceof Error ? part.error : new Error(String(part.error))
+      }
+    },
+
+    async validate() {
+      const response = await fetch(`${trimSlash(options.baseUrl)}/models`, { method: "GET", headers })
+      return response.ok
+    },
+  }
+}
+
+/**
+ * Creates the provider the settings ask for, or the mock provider when AI_PROVIDER=mock is set
+ * @param settings Which backend to use, with its API key or server addresses
+ */
+export function createProvider(settings: ProviderSettings): AIProvider {
+  // AI_PROVIDER=mock answers every request from fixtures instead of a paid API
+  if (process.env.AI_PROVIDER === "mock") {
+    return createMockProvider(settings)
+  }
+
+  if (settings.provider === "local") {
+    const model = settings.model ?? DEFAULT_LOCAL_MODEL
+    return createCompatibleProvider({
+      name: "local",
+      label: "Local",
+      apiKey: settings.apiKey,
+      baseUrl: settings.baseUrl ?? DEFAULT_LOCAL_BASE_URL,
+      transcriptionUrl: settings.transcriptionUrl ?? DEFAULT_LOCAL_TRANSCRIPTION_URL,
+      transcriptionModel: "whisper-1",
+      objectModel: model,
+      completionModel: model,
+      jsonMode: true,
+    })
+  }
+
+  return createCompatibleProvider({
+    name: "openai",
+    label: "OpenAI",
+    apiKey: settings.apiKey,
+    baseUrl: OPENAI_BASE_URL,
+    transcriptionUrl: OPENAI_BASE_URL,
+    transcriptionModel: "whisper-1",
+    objectModel: "gpt-4o",
+    completionModel: "gpt-3.5-turbo",
+    jsonMode: false,
+  })
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import { findMentionedPlayers, matchPlayer, normalizeName } from "./player-matching"
+import type { PlayerProfile } from "./hand-library"
+
+const profile = (name: string, aliases: string[] = []): PlayerProfile => ({
+  id: name.toLowerCase(),
+  name,
+  aliases,
+  notes: "",
+  color: null,
+  tendencies: [],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+})
+
+const michael = profile("Michael", ["the guy in the red hat"])
+const bob = profile("Bob")
+const michelle = profile("Michelle")
+
+describe("normalizeName", () => {
+  it("drops articles, punctuation and case", () => {
+    expect(normalizeName("The guy in the red hat!")).toBe("guy in red hat")
+  })
+})
+
+describe("matchPlayer", () => {
+  it("matches a name or alias spelled a little differently", () => {
+    expect(matchPlayer("Michal", [michael, bob])).toBe(michael)
+    expect(matchPlayer("guy in a red hat", [michael, bob])).toBe(michael)
+  })
+
+  it("doesn't match a near miss below the threshold", () => {
+    // Two letters off in seven is under 80% alike
+    expect(matchPlayer("Mitchel", [michael])).toBeNull()
+  })
+
+  it("only matches short names exactly", () => {
+    expect(matchPlayer("bob", [bob])).toBe(bob)
+    expect(matchPlayer("Rob", [bob])).toBeNull()
+  })
+
+  it("prefers an exact alias over a name that is only close", () => {
+    const jonathan = profile("Jonathan")
+    const dave = profile("Dave", ["Jonathon"])
+
+    // One letter off Jonathan's name, but exactly Dave's alias
+    expect(matchPlayer("Jonathon", [jonathan, dave])).toBe(dave)
+    expect(matchPlayer("Jonathon", [dave, jonathan])).toBe(dave)
+  })
+})
+
+describe("findMentionedPlayers", () => {
+  it("finds players mentioned by name or alias anywhere in the text", () => {
+    const text = "Bob limps, the guy in the red hat raises and Michelle folds"
+
+    expect(findMentionedPlayers(text, [michael, bob, michelle])).toEqual([michael, bob, michelle])
+    expect(findMentionedPlayers("Rob limps and Mitchel folds", [michael, bob])).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+// This file links player names and descriptions in transcriptions to saved player profiles
+
+import type { PlayerProfile } from "@/lib/hand-library"
+
+// How close two names must be, from 0 to 1, to count as the same player
+const MATCH_THRESHOLD = 0.8
+
+// Names this short are only matched exactly, otherwise "Bob" would match "Rob"
+const MIN_FUZZY_LENGTH = 5
+
+const IGNORED_WORDS = new Set(["the", "a", "an"])
+
+/**
+ * Lowercases and strips articles and punctuation, so "The guy in the red hat!" becomes "guy in red hat"
+ */
+export function normalizeName(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word))
+    .join(" ")
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH) return 0
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length)
+}
+
+const profileNames = (profile: PlayerProfile) =>
+  [profile.name, ...profile.aliases].map(normalizeName).filter(Boolean)
+
+/**
+ * Finds the profile a player name refers to, allowing for small spelling differences
+ * @returns The best matching profile, or null if none is close enough
+ */
+export function matchPlayer(name: string, profiles: PlayerProfile[]): PlayerProfile | null {
+  const normalized = normalizeName(name)
+  if (!normalized) return null
+
+  let best: { profile: PlayerProfile; score: number } | null = null
+  for (const profile of profiles) {
+    for (const candidate of profileNames(profile)) {
+      const score = similarity(normalized, candidate)
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { profile, score }
+      }
+    }
+  }
+  return best?.profile ?? null
+}
+
+/**
+ * Finds every saved player whose name or alias is mentioned in a transcription
+ */
+export function findMentionedPlayers(text: string, profiles: PlayerProfile[]): PlayerProfile[] {
+  const words = normalizeName(text).split(" ")
+
+  return profiles.filter((profile) =>
+    profileNames(profile).some((candidate) => {
+      const length = candidate.split(" ").length
+      for (let start = 0; start + length <= words.length; start++) {
+        if (similarity(words.slice(start, start + length).join(" "), candidate) >= MATCH_THRESHOLD) {
+          return true
+        }
+      }
+      return false
+    }),
+  )
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import { computePlayerStats, statPercent } from "./player-stats"
+import type { Action, Hand, Seat, Street } from "./hand"
+
+const seat = (number: number, player: string, position: Seat["position"]): Seat => ({
+  seat: number,
+  player,
+  position,
+  stack: 200,
+  holeCards: [],
+  isHero: player === "Hero",
+})
+
+const action = (street: Street, player: string, type: Action["type"], amount = 0): Action => ({
+  street,
+  player,
+  type,
+  amount,
+  allIn: false,
+})
+
+// Hero on the button, Small and Big in the blinds, and Away sitting out without being dealt in
+const table = (actions: Action[], board: Hand["board"], winner: string): Hand => ({
+  game: { type: "cash", variant: "nlhe", currency: "$", smallBlind: 1, bigBlind: 2, ante: 0, anteType: "everyone" },
+  maxSeats: 6,
+  buttonSeat: 1,
+  seats: [seat(1, "Hero", "BTN"), seat(2, "Small", "SB"), seat(3, "Big", "BB"), seat(4, "Away", "UTG")],
+  actions,
+  board,
+  extraBoards: [],
+  bombPot: false,
+  pots: [{ amount: 10, winners: [{ player: winner, amount: 10 }] }],
+  rake: 0,
+})
+
+const blinds = [action("preflop", "Small", "post-small-blind", 1), action("preflop", "Big", "post-big-blind", 2)]
+
+// Hero opens, Big 3-bets and Hero folds
+const threeBetPot = table(
+  [
+    ...blinds,
+    action("preflop", "Hero", "raise", 6),
+    action("preflop", "Small", "fold"),
+    action("preflop", "Big", "raise", 20),
+    action("preflop", "Hero", "fold"),
+  ],
+  { flop: [], turn: null, river: null },
+  "Big",
+)
+
+// Hero opens, Big calls, Hero c-bets the flop and they check it down
+const showdownPot = table(
+  [
+    ...blinds,
+    action("preflop", "Hero", "raise", 6),
+    action("preflop", "Small", "fold"),
+    action("preflop", "Big", "call", 4),
+    action("flop", "Big", "check"),
+    action("flop", "Hero", "bet", 8),
+    action("flop", "Big", "call", 8),
+    action("turn", "Big", "check"),
+    action("turn", "Hero", "check"),
+    action("river", "Big", "check"),
+    action("river", "Hero", "check"),
+  ],
+  { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+  "Hero",
+)
+
+const statsFor = (hands: Hand[], player: string) => {
+  const stats = computePlayerStats(hands).find((entry) => entry.player === player)
+  if (!stats) throw new Error(`No stats for ${player}`)
+  return stats
+}
+
+describe("computePlayerStats", () => {
+  it("counts VPIP and PFR out of every hand a player was dealt into", () => {
+    const hero = statsFor([threeBetPot, showdownPot], "Hero")
+    const small = statsFor([threeBetPot, showdownPot], "Small")
+
+    expect(hero.vpip).toEqual({ count: 2, opportunities: 2 })
+    expect(hero.pfr).toEqual({ count: 2, opportunities: 2 })
+    // Posting the blind isn't voluntary
+    expect(small.vpip).toEqual({ count: 0, opportunities: 2 })
+  })
+
+  it("counts 3-bets and folds to a 3-bet", () => {
+    const big = statsFor([threeBetPot, showdownPot], "Big")
+    const hero = statsFor([threeBetPot, showdownPot], "Hero")
+
+    expect(big.threeBet).toEqual({ count: 1, opportunities: 2 })
+    expect(statPercent(big.threeBet)).toBe(50)
+    expect(hero.foldToThreeBet).toEqual({ count: 1, opportunities: 1 })
+  })
+
+  it("counts c-bets, aggression and going to showdown after seeing the flop", () => {
+    const hero = statsFor([threeBetPot, showdownPot], "Hero")
+    const big = statsFor([threeBetPot, showdownPot], "Big")
+
+    expect(hero.cbet).toEqual({ count: 1, opportunities: 1 })
+    expect(hero.wtsd).toEqual({ count: 1, opportunities: 1 })
+    expect(hero.wsd).toEqual({ count: 1, opportunities: 1 })
+    expect(big.wsd).toEqual({ count: 0, opportunities: 1 })
+    expect(big.aggressionFactor).toBe(0)
+    expect(hero.aggressionFactor).toBeNull()
+  })
+
+  it("leaves out a seat that never acted", () => {
+    // Big folds to the c-bet, so nobody dealt in is left to show down against Hero
+    const foldedFlop = table([...showdownPot.actions.slice(0, 7), action("flop", "Big", "fold")], showdownPot.board, "Hero")
+    const players = computePlayerStats([threeBetPot, foldedFlop]).map((entry) => entry.player)
+
+    expect(players).not.toContain("Away")
+    expect(statsFor([foldedFlop], "Hero").wtsd).toEqual({ count: 0, opportunities: 1 })
+    expect(statPercent({ count: 0, opportunities: 0 })).toBeNull()
+  })
+})
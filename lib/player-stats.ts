@@ -0,0 +1,165 @@
+// This file computes HUD-style player statistics from structured hands
+
+import type { Action, Hand } from "@/lib/hand"
+
+// How often something happened out of the times it could have
+export interface StatCount {
+  count: number
+  opportunities: number
+}
+
+export interface PlayerStats {
+  player: string
+  hands: number
+  vpip: StatCount
+  pfr: StatCount
+  threeBet: StatCount
+  foldToThreeBet: StatCount
+  cbet: StatCount
+  wtsd: StatCount
+  wsd: StatCount
+  // Postflop bets and raises divided by calls, null when the player never called
+  aggressionFactor: number | null
+  postflopAggressive: number
+  postflopCalls: number
+}
+
+const emptyCount = (): StatCount => ({ count: 0, opportunities: 0 })
+
+const isVoluntary = (action: Action) => action.type === "call" || action.type === "bet" || action.type === "raise"
+
+const isAggressive = (action: Action) => action.type === "bet" || action.type === "raise"
+
+/**
+ * Returns the stat as a percentage, or null when there was no opportunity
+ */
+export function statPercent(stat: StatCount): number | null {
+  return stat.opportunities > 0 ? (stat.count / stat.opportunities) * 100 : null
+}
+
+function emptyStats(player: string): PlayerStats {
+  return {
+    player,
+    hands: 0,
+    vpip: emptyCount(),
+    pfr: emptyCount(),
+    threeBet: emptyCount(),
+    foldToThreeBet: emptyCount(),
+    cbet: emptyCount(),
+    wtsd: emptyCount(),
+    wsd: emptyCount(),
+    aggressionFactor: null,
+    postflopAggressive: 0,
+    postflopCalls: 0,
+  }
+}
+
+// Adds one hand's worth of stats for every player dealt into it
+function addHand(statsByPlayer: Map<string, PlayerStats>, hand: Hand) {
+  const preflop = hand.actions.filter((action) => action.street === "preflop" && !action.type.startsWith("post-"))
+  const flop = hand.actions.filter((action) => action.street === "flop")
+  const postflop = hand.actions.filter((action) => action.street !== "preflop")
+
+  // Who raised preflop, in order: the first is the opener, the second the 3-bettor
+  const raisers: string[] = []
+  const threeBetOpportunity = new Set<string>()
+  const threeBetMade = new Set<string>()
+  const facedThreeBet = new Set<string>()
+  const foldedToThreeBet = new Set<string>()
+
+  for (const action of preflop) {
+    if (raisers.length === 1 && raisers[0] !== action.player) {
+      threeBetOpportunity.add(action.player)
+      if (action.type === "raise") threeBetMade.add(action.player)
+    }
+    if (raisers.length === 2 && raisers[0] === action.player && !facedThreeBet.has(action.player)) {
+      facedThreeBet.add(action.player)
+      if (action.type === "fold") foldedToThreeBet.add(action.player)
+    }
+    if (action.type === "raise" || action.type === "bet") raisers.push(action.player)
+  }
+
+  // The continuation bettor is the last preflop aggressor, who can c-bet if nobody bets before them on the flop
+  const aggressor = raisers[raisers.length - 1]
+  let cbetOpportunity = false
+  let cbetMade = false
+  if (aggressor) {
+    for (const action of flop) {
+      if (action.player === aggressor) {
+        cbetOpportunity = true
+        cbetMade = isAggressive(action)
+        break
+      }
+      if (isAggressive(action)) break
+    }
+  }
+
+  const foldedPreflop = new Set(preflop.filter((action) => action.type === "fold").map((action) => action.player))
+  const foldedAnywhere = new Set(hand.actions.filter((action) => action.type === "fold").map((action) => action.player))
+  // Seats that never acted weren't dealt in, so they have no chance to play the hand or reach showdown
+  const acted = new Set(hand.actions.map((action) => action.player))
+  const dealtIn = hand.seats.filter((seat) => acted.has(seat.player))
+  const remaining = dealtIn.filter((seat) => !foldedAnywhere.has(seat.player))
+  const wentToShowdown = remaining.length > 1
+  const sawFlop = hand.board.flop.length > 0 || flop.length > 0
+
+  const winners = new Set(hand.pots.flatMap((pot) => pot.winners.filter((w) => w.amount > 0).map((w) => w.player)))
+
+  for (const seat of dealtIn) {
+    const stats = statsByPlayer.get(seat.player) ?? emptyStats(seat.player)
+    const own = preflop.filter((action) => action.player === seat.player)
+
+    stats.hands++
+    // Nobody chooses to play a bomb pot, so they don't count towards preflop stats
+    if (!hand.bombPot) {
+      stats.vpip.opportunities++
+      stats.pfr.opportunities++
+      if (own.some(isVoluntary)) stats.vpip.count++
+      if (own.some((action) => action.type === "raise")) stats.pfr.count++
+    }
+
+    if (threeBetOpportunity.has(seat.player)) {
+      stats.threeBet.opportunities++
+      if (threeBetMade.has(seat.player)) stats.threeBet.count++
+    }
+
+    if (facedThreeBet.has(seat.player)) {
+      stats.foldToThreeBet.opportunities++
+      if (foldedToThreeBet.has(seat.player)) stats.foldToThreeBet.count++
+    }
+
+    if (seat.player === aggressor && cbetOpportunity) {
+      stats.cbet.opportunities++
+      if (cbetMade) stats.cbet.count++
+    }
+
+    for (const action of postflop.filter((action) => action.player === seat.player)) {
+      if (isAggressive(action)) stats.postflopAggressive++
+      if (action.type === "call") stats.postflopCalls++
+    }
+    stats.aggressionFactor = stats.postflopCalls > 0 ? stats.postflopAggressive / stats.postflopCalls : null
+
+    if (sawFlop && !foldedPreflop.has(seat.player)) {
+      stats.wtsd.opportunities++
+      if (wentToShowdown && !foldedAnywhere.has(seat.player)) {
+        stats.wtsd.count++
+        stats.wsd.opportunities++
+        if (winners.has(seat.player)) stats.wsd.count++
+      }
+    }
+
+    statsByPlayer.set(seat.player, stats)
+  }
+}
+
+/**
+ * Computes VPIP, PFR, 3-bet, fold to 3-bet, c-bet, AF, WTSD and W$SD for every player across the hands
+ * @returns One entry per player name, most hands first
+ */
+export function computePlayerStats(hands: Hand[]): PlayerStats[] {
+  const statsByPlayer = new Map<string, PlayerStats>()
+  for (const hand of hands) {
+    addHand(statsByPlayer, hand)
+  }
+  return [...statsByPlayer.values()].sort((a, b) => b.hands - a.hands)
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { buildTranscriptionPrompt, normalizeTranscript } from "./poker-vocabulary"
+
+describe("normalizeTranscript", () => {
+  it("writes spoken cards as card codes", () => {
+    expect(normalizeTranscript("I have the king of clubs and the ten of hearts")).toBe("I have the Kc and the Th")
+    expect(normalizeTranscript("Flop Ace of spades, 7 of diamonds, deuce of clubs")).toBe("Flop As, 7d, 2c")
+  })
+
+  it("writes pocket pairs as two ranks", () => {
+    expect(normalizeTranscript("I look down at pocket jacks")).toBe("I look down at JJ")
+  })
+
+  it("fixes misheard positions and actions", () => {
+    expect(normalizeTranscript("you tee gee opens, the high jack three bets")).toBe("UTG opens, the hijack 3-bets")
+    expect(normalizeTranscript("I 3 bed from the butt in and he goes all in")).toBe("I 3-bet from the button and he goes all-in")
+    expect(normalizeTranscript("under the gun plus one check raises my c bet")).toBe("UTG+1 check-raises my c-bet")
+  })
+
+  it("applies the custom vocabulary first", () => {
+    const vocabulary = [
+      { spoken: "the whale", written: "Mike" },
+      { spoken: "", written: "ignored" },
+    ]
+
+    expect(normalizeTranscript("The whale limps with pocket aces", vocabulary)).toBe("Mike limps with AA")
+  })
+
+  it("fixes the cutoff, all-ins and c-bets only when they're about poker", () => {
+    expect(normalizeTranscript("the cut off raises, I'm in the big blind")).toBe("the cutoff raises, I'm in the big blind")
+    expect(normalizeTranscript("cut off three bets and Bob moves all in for 80")).toBe("cutoff 3-bets and Bob moves all-in for 80")
+    expect(normalizeTranscript("he see bets the flop and I call")).toBe("he c-bets the flop and I call")
+    expect(normalizeTranscript("see bet flop, he folds")).toBe("c-bet flop, he folds")
+  })
+
+  it("leaves ordinary words alone", () => {
+    expect(normalizeTranscript("but in the end I fold")).toBe("but in the end I fold")
+    expect(normalizeTranscript("my call got cut off, all in all a long session")).toBe(
+      "my call got cut off, all in all a long session",
+    )
+    expect(normalizeTranscript("it was all in the timing, you see bet sizing matters")).toBe(
+      "it was all in the timing, you see bet sizing matters",
+    )
+  })
+})
+
+describe("buildTranscriptionPrompt", () => {
+  it("adds custom terms once each", () => {
+    const prompt = buildTranscriptionPrompt(["Mike", " Mike ", "Xiang", ""])
+
+    expect(prompt).toMatch(/Players and terms: Mike, Xiang\.$/)
+  })
+
+  it("keeps the end of a prompt that is too long", () => {
+    const terms = Array.from({ length: 200 }, (_, index) => `Player${index}`)
+    const prompt = buildTranscriptionPrompt(terms)
+
+    expect(prompt.length).toBeLessThanOrEqual(800)
+    expect(prompt.endsWith("Player199.")).toBe(true)
+  })
+})
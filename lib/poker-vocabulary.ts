@@ -0,0 +1,151 @@
+// This file helps speech-to-text get poker terms right and rewrites what it still gets wrong into standard notation
+
+// A word or phrase the user wants written a particular way, e.g. local slang or a player's nickname
+export interface VocabularyEntry {
+  spoken: string
+  written: string
+}
+
+// Whisper takes a short prompt of example text and leans towards its spelling and style. It only reads the last
+// 224 tokens, so the prompt is kept to roughly that many characters times four.
+const MAX_PROMPT_LENGTH = 800
+
+const BASE_PROMPT =
+  "Poker hand. UTG opens to 6, UTG+1 folds, lojack calls, hijack 3-bets, cutoff folds, button 4-bets, " +
+  "small blind folds, big blind calls. Straddle, limp, c-bet, check-raise, all-in, shove. " +
+  "Hero has Ah Kd, pocket jacks, suited connectors, offsuit. Flop, turn, river. " +
+  "PLO, Omaha, short deck, limit, pot-sized raise, double-suited."
+
+const RANKS: Record<string, string> = {
+  ace: "A",
+  king: "K",
+  queen: "Q",
+  jack: "J",
+  ten: "T",
+  "10": "T",
+  nine: "9",
+  "9": "9",
+  eight: "8",
+  "8": "8",
+  seven: "7",
+  "7": "7",
+  six: "6",
+  "6": "6",
+  five: "5",
+  "5": "5",
+  four: "4",
+  "4": "4",
+  three: "3",
+  trey: "3",
+  "3": "3",
+  two: "2",
+  deuce: "2",
+  "2": "2",
+}
+
+// Plural rank names, as in "pocket jacks"
+const PAIRS: Record<string, string> = {
+  aces: "A",
+  kings: "K",
+  queens: "Q",
+  jacks: "J",
+  tens: "T",
+  nines: "9",
+  eights: "8",
+  sevens: "7",
+  sixes: "6",
+  fives: "5",
+  fours: "4",
+  threes: "3",
+  treys: "3",
+  twos: "2",
+  deuces: "2",
+}
+
+const SUITS: Record<string, string> = { spade: "s", heart: "h", diamond: "d", club: "c" }
+
+// Actions a position can take, used to tell "the cut off raises" from "the power was cut off"
+const POSITION_ACTIONS = "opens|raises|calls|folds|limps|checks|bets|shoves|jams|\\d-bets"
+
+// Words that carry on an ordinary phrase rather than a poker one, as in "all in the family" or "all in all"
+const ORDINARY_FOLLOWERS = "the|this|that|my|his|her|your|our|their|one|all"
+
+// Common mishearings and spoken forms of positions and actions, rewritten to the usual notation. "Cut off", "all in"
+// and "see bet" are everyday phrases too, so those are only rewritten where the words around them are about poker.
+const TERM_FIXES: [RegExp, string][] = [
+  [/\b(you tee gee|u\.? ?t\.? ?g\.?|under the gun)(?=\W|$)/gi, "UTG"],
+  [/\bUTG ?(plus|\+) ?(one|1)\b/gi, "UTG+1"],
+  [/\bUTG ?(plus|\+) ?(two|2)\b/gi, "UTG+2"],
+  [/\bhigh ?jack\b/gi, "hijack"],
+  [/\blow ?jack\b/gi, "lojack"],
+  [/\bbutt in\b/gi, "button"],
+  [/\b(3|three)[ -]?(bet|bed|bat)(s|ting)?\b/gi, "3-bet$3"],
+  [/\b(4|four)[ -]?(bet|bed|bat)(s|ting)?\b/gi, "4-bet$3"],
+  [/\b(5|five)[ -]?(bet|bed|bat)(s|ting)?\b/gi, "5-bet$3"],
+  [/\bc[ -]?bet(s|ting)?\b/gi, "c-bet$1"],
+  [/\b(a|my|his|her|I|he|she|they|villain|hero) see[ -]?bet(s|ting)?\b(?! siz)/gi, "$1 c-bet$2"],
+  [/\bsee[ -]?bet(s|ting)? (?=(the )?(flop|turn|river)\b)/gi, "c-bet$1 "],
+  [/\bcheck[ -]?rais(e|es|ed|ing)\b/gi, "check-rais$1"],
+  [
+    new RegExp(
+      `\\b(go|goes|going|gone|went|is|was|i'm|he's|she's|move[sd]?|moving|shove[sd]?|jam(?:s|med)?|push(?:es|ed)?|call(?:s|ed)?|him|her|me) all in\\b(?! (${ORDINARY_FOLLOWERS})\\b)`,
+      "gi",
+    ),
+    "$1 all-in",
+  ],
+  [/\ball in (?=for\b)/gi, "all-in "],
+  [/\b(the|from|in|on) cut off\b/gi, "$1 cutoff"],
+  [new RegExp(`\\bcut off (?=(${POSITION_ACTIONS})\\b)`, "gi"), "cutoff "],
+  [/\boff[ -]suit(ed)?\b/gi, "offsuit"],
+]
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+const rankPattern = Object.keys(RANKS).join("|")
+const pairPattern = Object.keys(PAIRS).join("|")
+const suitPattern = Object.keys(SUITS).join("|")
+
+/**
+ * Builds the prompt sent with a transcription request, with the user's own words and player names added
+ * @param terms Words Whisper should spell a particular way
+ */
+export function buildTranscriptionPrompt(terms: string[] = []): string {
+  const unique = Array.from(new Set(terms.map((term) => term.trim()).filter(Boolean)))
+  if (unique.length === 0) return BASE_PROMPT
+
+  const prompt = `${BASE_PROMPT} Players and terms: ${unique.join(", ")}.`
+  // Whisper reads the end of the prompt, so the custom terms are the part worth keeping
+  return prompt.length > MAX_PROMPT_LENGTH ? prompt.slice(prompt.length - MAX_PROMPT_LENGTH) : prompt
+}
+
+/**
+ * Rewrites spoken cards, positions and actions in a transcript into standard notation before it's formatted,
+ * e.g. "king of clubs" becomes "Kc", "pocket jacks" becomes "JJ" and "you tee gee three bets" becomes "UTG 3-bets"
+ * @param vocabulary The user's own replacements, applied first
+ */
+export function normalizeTranscript(text: string, vocabulary: VocabularyEntry[] = []): string {
+  let normalized = text
+
+  for (const entry of vocabulary) {
+    if (!entry.spoken.trim() || !entry.written.trim()) continue
+    // Spoken phrases may start or end with punctuation, where \b wouldn't match
+    const pattern = new RegExp(`(^|\\W)${escapeRegExp(entry.spoken.trim())}(?=\\W|$)`, "gi")
+    normalized = normalized.replace(pattern, (_match, before: string) => before + entry.written.trim())
+  }
+
+  normalized = normalized.replace(
+    new RegExp(`\\b(${rankPattern}) of (${suitPattern})s?\\b`, "gi"),
+    (_match, rank: string, suit: string) => RANKS[rank.toLowerCase()] + SUITS[suit.toLowerCase()],
+  )
+
+  normalized = normalized.replace(new RegExp(`\\bpocket (${pairPattern})\\b`, "gi"), (_match, pair: string) => {
+    const rank = PAIRS[pair.toLowerCase()]
+    return rank + rank
+  })
+
+  for (const [pattern, replacement] of TERM_FIXES) {
+    normalized = normalized.replace(pattern, replacement)
+  }
+
+  return normalized
+}
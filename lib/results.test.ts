@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { computeResults, LIVE_HANDS_PER_HOUR } from "./results"
+import type { SessionRecord } from "./hand-library"
+
+// A finished session on the given day, with its length in hours and its result
+function session(id: string, day: number, hours: number, net: number, bigBlind = "2"): SessionRecord {
+  const startedAt = new Date(Date.UTC(2026, 2, day, 18))
+  return {
+    id,
+    venue: "Bellagio",
+    settings: { gameType: "cash", variant: "nlhe", smallBlind: "1", bigBlind, currency: "$" },
+    buyIn: 200,
+    rebuys: [],
+    cashOut: 200 + net,
+    startedAt,
+    endedAt: new Date(startedAt.getTime() + hours * 3_600_000),
+  }
+}
+
+describe("computeResults", () => {
+  it("adds the sessions up in the order they ended", () => {
+    const results = computeResults([session("b", 2, 2, -50), session("a", 1, 2, 100), session("c", 3, 2, 30)])
+
+    expect(results.points.map((point) => [point.sessionId, point.cumulative])).toEqual([
+      ["a", 100],
+      ["b", 50],
+      ["c", 80],
+    ])
+    expect(results.totalNet).toBe(80)
+    expect(results.totalHours).toBe(6)
+    expect(results.hourlyRate).toBeCloseTo(80 / 6)
+  })
+
+  it("measures drawdowns from the highest point so far", () => {
+    const results = computeResults([
+      session("a", 1, 2, 100),
+      session("b", 2, 2, -150),
+      session("c", 3, 2, 120),
+      session("d", 4, 2, -40),
+    ])
+
+    expect(results.points.map((point) => point.drawdown)).toEqual([0, -150, -30, -70])
+    expect(results.maxDrawdown).toBe(-150)
+  })
+
+  it("works out bb/100 from the estimated number of hands in cash sessions", () => {
+    // 200 big blinds over 4 hours, with a tournament that doesn't count towards it
+    const tournament = { ...session("t", 3, 5, 500), settings: { gameType: "tournament" as const, buyIn: "100" } }
+    const results = computeResults([session("a", 1, 2, 300), session("b", 2, 2, 100), tournament])
+
+    expect(results.estimatedHands).toBe(4 * LIVE_HANDS_PER_HOUR)
+    expect(results.bbPer100).toBeCloseTo((200 / (4 * LIVE_HANDS_PER_HOUR)) * 100)
+    expect(results.byGameType.map((group) => [group.name, group.net])).toEqual([
+      ["Cash", 400],
+      ["Tournament", 500],
+    ])
+  })
+
+  it("leaves out sessions that haven't been cashed out", () => {
+    const running = { ...session("b", 2, 2, 0), cashOut: null, endedAt: null }
+    const results = computeResults([session("a", 1, 2, 100), running])
+
+    expect(results.points).toHaveLength(1)
+    expect(results.bbPer100).toBeCloseTo((50 / 60) * 100)
+  })
+})
@@ -0,0 +1,118 @@
+// This file aggregates session results for the bankroll dashboard
+
+import type { SessionRecord } from "@/lib/hand-library"
+import { describeSessionGame, summarizeSession } from "@/lib/sessions"
+
+// Recorded hands are only the notable ones, so win rates use a typical live dealing speed instead
+export const LIVE_HANDS_PER_HOUR = 30
+
+export interface ResultPoint {
+  sessionId: string
+  label: string
+  net: number
+  cumulative: number
+  // How far the cumulative result is below its previous peak, always zero or negative
+  drawdown: number
+}
+
+export interface ResultGroup {
+  name: string
+  sessions: number
+  net: number
+  hours: number
+  hourlyRate: number | null
+}
+
+export interface ResultsSummary {
+  points: ResultPoint[]
+  totalNet: number
+  totalHours: number
+  hourlyRate: number | null
+  // Big blinds won per 100 estimated hands, cash sessions only
+  bbPer100: number | null
+  // Hands bbPer100 assumes were dealt, from the cash hours at LIVE_HANDS_PER_HOUR
+  estimatedHands: number
+  maxDrawdown: number
+  byStake: ResultGroup[]
+  byGameType: ResultGroup[]
+}
+
+function groupResults(entries: { name: string; net: number; hours: number }[]): ResultGroup[] {
+  const groups = new Map<string, ResultGroup>()
+
+  for (const entry of entries) {
+    const group = groups.get(entry.name) ?? { name: entry.name, sessions: 0, net: 0, hours: 0, hourlyRate: null }
+    group.sessions++
+    group.net += entry.net
+    group.hours += entry.hours
+    groups.set(entry.name, group)
+  }
+
+  return [...groups.values()].map((group) => ({
+    ...group,
+    hourlyRate: group.hours > 0 ? group.net / group.hours : null,
+  }))
+}
+
+/**
+ * Works out cumulative profit, win rates, drawdowns and breakdowns over every finished session
+ */
+export function computeResults(sessions: SessionRecord[]): ResultsSummary {
+  const finished = sessions
+    .filter((session) => session.endedAt !== null && session.cashOut !== null)
+    .sort((a, b) => (a.endedAt as Date).getTime() - (b.endedAt as Date).getTime())
+
+  const points: ResultPoint[] = []
+  const entries: { session: SessionRecord; net: number; hours: number }[] = []
+  let cumulative = 0
+  let peak = 0
+  let maxDrawdown = 0
+
+  for (const session of finished) {
+    const summary = summarizeSession(session)
+    const net = summary.net ?? 0
+    cumulative += net
+    peak = Math.max(peak, cumulative)
+    maxDrawdown = Math.min(maxDrawdown, cumulative - peak)
+
+    entries.push({ session, net, hours: summary.durationHours })
+    points.push({
+      sessionId: session.id,
+      label: `${session.startedAt.toLocaleDateString()} ${session.venue}`,
+      net,
+      cumulative,
+      drawdown: cumulative - peak,
+    })
+  }
+
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0)
+
+  // Win rate in big blinds needs the stakes, so only cash sessions with a big blind count
+  let bigBlindsWon = 0
+  let cashHours = 0
+  for (const { session, net, hours } of entries) {
+    const bigBlind = parseFloat(session.settings?.bigBlind ?? "")
+    if (session.settings?.gameType !== "cash" || !(bigBlind > 0)) continue
+    bigBlindsWon += net / bigBlind
+    cashHours += hours
+  }
+  const estimatedHands = cashHours * LIVE_HANDS_PER_HOUR
+
+  return {
+    points,
+    totalNet: cumulative,
+    totalHours,
+    hourlyRate: totalHours > 0 ? cumulative / totalHours : null,
+    bbPer100: estimatedHands > 0 ? (bigBlindsWon / estimatedHands) * 100 : null,
+    estimatedHands,
+    maxDrawdown,
+    byStake: groupResults(entries.map(({ session, net, hours }) => ({ name: describeSessionGame(session), net, hours }))),
+    byGameType: groupResults(
+      entries.map(({ session, net, hours }) => ({
+        name: session.settings?.gameType === "tournament" ? "Tournament" : "Cash",
+        net,
+        hours,
+      })),
+    ),
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { describeSessionGame, formatDuration, formatResult, summarizeSession } from "./sessions"
+import type { SessionRecord } from "./hand-library"
+
+// A three and a half hour $1/$2 session with one rebuy
+const session: SessionRecord = {
+  id: "session-1",
+  venue: "Bellagio",
+  settings: { gameType: "cash", variant: "nlhe", smallBlind: "1", bigBlind: "2", currency: "$" },
+  buyIn: 200,
+  rebuys: [{ amount: 100, timestamp: new Date("2026-03-01T20:00:00Z") }],
+  cashOut: 475,
+  startedAt: new Date("2026-03-01T18:00:00Z"),
+  endedAt: new Date("2026-03-01T21:30:00Z"),
+}
+
+describe("summarizeSession", () => {
+  it("adds the rebuys to the buy-in and takes them off the cash-out", () => {
+    const summary = summarizeSession(session)
+
+    expect(summary.invested).toBe(300)
+    expect(summary.net).toBe(175)
+  })
+
+  it("works out the duration and the hourly rate", () => {
+    const summary = summarizeSession(session)
+
+    expect(summary.durationHours).toBe(3.5)
+    expect(summary.hourlyRate).toBe(50)
+  })
+
+  it("runs an open session up to now, without a result", () => {
+    const running = { ...session, cashOut: null, endedAt: null }
+    const summary = summarizeSession(running, new Date("2026-03-01T19:15:00Z"))
+
+    expect(summary.durationHours).toBe(1.25)
+    expect(summary.net).toBeNull()
+    expect(summary.hourlyRate).toBeNull()
+  })
+
+  it("gives no hourly rate for a session shorter than a minute", () => {
+    const brief = { ...session, endedAt: new Date("2026-03-01T18:00:30Z") }
+
+    expect(summarizeSession(brief).net).toBe(175)
+    expect(summarizeSession(brief).hourlyRate).toBeNull()
+  })
+})
+
+describe("describeSessionGame", () => {
+  it("names the stakes and any variant but No Limit Hold'em", () => {
+    expect(describeSessionGame(session)).toBe("$1/$2 Cash")
+    expect(describeSessionGame({ ...session, settings: { ...session.settings, variant: "plo" } })).toBe(
+      "$1/$2 Pot Limit Omaha Cash",
+    )
+    expect(describeSessionGame({ ...session, settings: { gameType: "tournament", buyIn: "100" } })).toBe(
+      "$100 Tournament",
+    )
+    expect(describeSessionGame({ ...session, settings: null })).toBe("Unknown game")
+  })
+})
+
+describe("formatDuration", () => {
+  it("shows hours and minutes", () => {
+    expect(formatDuration(3.42)).toBe("3h 25m")
+    expect(formatDuration(0.5)).toBe("30m")
+  })
+})
+
+describe("formatResult", () => {
+  it("signs the amount and keeps cents only when there are some", () => {
+    expect(formatResult(120)).toBe("+$120")
+    expect(formatResult(-45.5)).toBe("-$45.50")
+    expect(formatResult(0, "€")).toBe("+€0")
+  })
+})
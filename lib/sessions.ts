@@ -0,0 +1,68 @@
+// This file works out the money side of a playing session
+
+import type { SessionRecord } from "@/lib/hand-library"
+import { gameVariantLabel } from "@/lib/hand"
+
+export interface SessionSummary {
+  // Buy-in plus every rebuy
+  invested: number
+  // Cash-out minus everything invested, null while the session is still running
+  net: number | null
+  durationHours: number
+  hourlyRate: number | null
+}
+
+/**
+ * Totals the buy-ins and works out the result, duration and hourly rate of a session
+ * @param now Used as the end time for sessions that haven't been closed yet
+ */
+export function summarizeSession(session: SessionRecord, now: Date = new Date()): SessionSummary {
+  const invested = session.buyIn + session.rebuys.reduce((sum, rebuy) => sum + rebuy.amount, 0)
+  const net = session.cashOut === null ? null : session.cashOut - invested
+
+  const end = session.endedAt ?? now
+  const durationHours = Math.max(0, end.getTime() - session.startedAt.getTime()) / 3_600_000
+
+  // Anything under a minute is too short for a meaningful rate
+  const hourlyRate = net !== null && durationHours >= 1 / 60 ? net / durationHours : null
+
+  return { invested, net, durationHours, hourlyRate }
+}
+
+/**
+ * Describes the game a session was played at, e.g. "$1/$2 Cash", "$2/$5 Pot Limit Omaha Cash" or "$100 Tournament".
+ * No Limit Hold'em goes without saying.
+ */
+export function describeSessionGame(session: SessionRecord): string {
+  const settings = session.settings
+  if (!settings) return "Unknown game"
+
+  const currency = settings.currency || "$"
+  const variant = settings.variant && settings.variant !== "nlhe" ? `${gameVariantLabel(settings.variant)} ` : ""
+  if (settings.gameType === "tournament") {
+    return settings.buyIn ? `${currency}${settings.buyIn} ${variant}Tournament` : `${variant}Tournament`
+  }
+
+  return settings.smallBlind && settings.bigBlind
+    ? `${currency}${settings.smallBlind}/${currency}${settings.bigBlind} ${variant}Cash`
+    : `${variant}Cash Game`
+}
+
+/**
+ * Formats a duration in hours as e.g. "3h 25m"
+ */
+export function formatDuration(hours: number): string {
+  const totalMinutes = Math.round(hours * 60)
+  const h = Math.floor(totalMinutes / 60)
+  const m = totalMinutes % 60
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+/**
+ * Formats a signed money amount, e.g. "+$120" or "-$45.50"
+ */
+export function formatResult(amount: number, currency = "$"): string {
+  const value = Math.abs(amount)
+  const formatted = Number.isInteger(value) ? String(value) : value.toFixed(2)
+  return `${amount < 0 ? "-" : "+"}${currency}${formatted}`
+}
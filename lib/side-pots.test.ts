@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest"
+import { buildPots, contributions, settlePots, uncalledBet } from "./side-pots"
+import type { Action, Hand, Seat } from "./hand"
+import handFixture from "@/fixtures/mock-ai/hand.json"
+
+const seat = (number: number, player: string, stack: number, holeCards: string[] = []): Seat => ({
+  seat: number,
+  player,
+  position: "MP",
+  stack,
+  holeCards,
+  isHero: false,
+})
+
+const action = (player: string, type: Action["type"], amount = 0, allIn = false): Action => ({
+  street: "preflop",
+  player,
+  type,
+  amount,
+  allIn,
+})
+
+// Three players all-in preflop for 50, 100 and 200, with a fourth who limped and folded
+const threeWayAllIn: Hand = {
+  game: { type: "cash", variant: "nlhe", currency: "$", smallBlind: 1, bigBlind: 2, ante: 0, anteType: "everyone" },
+  maxSeats: 6,
+  buttonSeat: 4,
+  seats: [
+    seat(1, "Short", 50, ["Ah", "Ad"]),
+    seat(2, "Middle", 100, ["Kh", "Kd"]),
+    seat(3, "Big", 300, ["Qh", "Qd"]),
+    seat(4, "Limper", 200, ["7c", "2d"]),
+  ],
+  actions: [
+    action("Short", "post-small-blind", 1),
+    action("Middle", "post-big-blind", 2),
+    action("Big", "call", 2),
+    action("Limper", "call", 2),
+    action("Short", "raise", 50, true),
+    action("Middle", "raise", 100, true),
+    action("Big", "raise", 300),
+    action("Limper", "fold"),
+  ],
+  board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+  extraBoards: [],
+  bombPot: false,
+  pots: [],
+  rake: 0,
+}
+
+describe("buildPots", () => {
+  it("makes a side pot for each all-in amount, with folded chips in the main pot", () => {
+    expect(buildPots(threeWayAllIn)).toEqual([
+      { amount: 152, eligible: ["Short", "Middle", "Big"] },
+      { amount: 100, eligible: ["Middle", "Big"] },
+    ])
+  })
+
+  it("gives back the part of the biggest bet nobody called", () => {
+    const pots = buildPots(threeWayAllIn)
+    expect(pots.reduce((sum, pot) => sum + pot.amount, 0)).toBe(252)
+  })
+})
+
+describe("uncalledBet", () => {
+  it("gives back the part of the last bet nobody called, and leaves it out of the contributions", () => {
+    const hand = handFixture as Hand
+
+    expect(uncalledBet(hand)).toEqual({ player: "Hero", amount: 20 })
+    expect(contributions(hand).get("Hero")).toBe(14)
+    expect(uncalledBet({ ...hand, actions: hand.actions.slice(0, -2) })).toBeNull()
+  })
+})
+
+describe("settlePots", () => {
+  it("awards each pot to the best hand that can win it", () => {
+    expect(settlePots(threeWayAllIn)).toEqual([
+      { amount: 152, winners: [{ player: "Short", amount: 152 }] },
+      { amount: 100, winners: [{ player: "Middle", amount: 100 }] },
+    ])
+  })
+
+  it("takes the rake out of the pots in proportion", () => {
+    const pots = settlePots({ ...threeWayAllIn, rake: 5 })
+
+    expect(pots.map((pot) => pot.amount)).toEqual([148.98, 98.02])
+    expect(pots.reduce((sum, pot) => sum + pot.amount, 0)).toBeCloseTo(247)
+  })
+
+  it("splits a tied pot and gives the odd chip to the first winner left of the button", () => {
+    // Both players have a straight on the board, ace king and ace queen play the same hand
+    const split: Hand = {
+      ...threeWayAllIn,
+      buttonSeat: 1,
+      seats: [seat(1, "Button", 100, ["Ah", "Kd"]), seat(2, "Blind", 100, ["Ac", "Qd"])],
+      actions: [
+        action("Button", "post-small-blind", 1),
+        action("Blind", "post-big-blind", 2),
+        action("Button", "raise", 100, true),
+        action("Blind", "call", 98),
+      ],
+      board: { flop: ["Tc", "Jd", "Qh"], turn: "Ks", river: "2c" },
+      rake: 0.01,
+    }
+
+    expect(settlePots(split)).toEqual([
+      {
+        amount: 199.99,
+        winners: [
+          { player: "Blind", amount: 100 },
+          { player: "Button", amount: 99.99 },
+        ],
+      },
+    ])
+  })
+
+  it("splits tournament pots to the chip", () => {
+    const tournament: Hand = {
+      ...threeWayAllIn,
+      game: { ...threeWayAllIn.game, type: "tournament" },
+      seats: [seat(1, "First", 100, ["Ah", "Kd"]), seat(2, "Second", 100, ["Ac", "Kc"]), seat(3, "Third", 100)],
+      actions: [
+        action("First", "post-ante", 1),
+        action("Second", "post-ante", 1),
+        action("Third", "post-ante", 1),
+        action("First", "bet", 10),
+        action("Second", "call", 10),
+        action("Third", "fold"),
+      ],
+      board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+    }
+
+    expect(settlePots(tournament)[0]).toEqual({
+      amount: 23,
+      winners: [
+        { player: "First", amount: 12 },
+        { player: "Second", amount: 11 },
+      ],
+    })
+  })
+
+  it("splits a pot run twice between the boards", () => {
+    const runTwice: Hand = {
+      ...threeWayAllIn,
+      seats: [seat(1, "Aces", 100, ["Ah", "Ad"]), seat(2, "Kings", 100, ["Kh", "Kd"])],
+      actions: [
+        action("Aces", "post-small-blind", 1),
+        action("Kings", "post-big-blind", 2),
+        action("Aces", "raise", 100, true),
+        action("Kings", "call", 98, true),
+      ],
+      board: { flop: ["2c", "7d", "9h"], turn: "Ts", river: "3s" },
+      extraBoards: [{ flop: ["2c", "7d", "9h"], turn: "Ks", river: "3c" }],
+      rake: 0.01,
+    }
+
+    expect(settlePots(runTwice)).toEqual([
+      {
+        amount: 199.99,
+        winners: [
+          { player: "Aces", amount: 100, board: 1 },
+          { player: "Kings", amount: 99.99, board: 2 },
+        ],
+      },
+    ])
+  })
+
+  it("keeps the given winners when the cards don't decide the pot", () => {
+    const unknownCards: Hand = {
+      ...threeWayAllIn,
+      seats: threeWayAllIn.seats.map((player) => ({ ...player, holeCards: [] })),
+      pots: [
+        { amount: 1, winners: [{ player: "Big", amount: 1 }] },
+        { amount: 1, winners: [{ player: "Big", amount: 1 }] },
+      ],
+    }
+
+    expect(settlePots(unknownCards)).toEqual([
+      { amount: 152, winners: [{ player: "Big", amount: 152 }] },
+      { amount: 100, winners: [{ player: "Big", amount: 100 }] },
+    ])
+  })
+
+  it("matches the given pots by who could win them rather than by their order", () => {
+    const unknownCards: Hand = {
+      ...threeWayAllIn,
+      seats: threeWayAllIn.seats.map((player) => ({ ...player, holeCards: [] })),
+      pots: [
+        { amount: 100, winners: [{ player: "Middle", amount: 100 }] },
+        { amount: 150, winners: [{ player: "Short", amount: 150 }] },
+      ],
+    }
+
+    expect(settlePots(unknownCards)).toEqual([
+      { amount: 152, winners: [{ player: "Short", amount: 152 }] },
+      { amount: 100, winners: [{ player: "Middle", amount: 100 }] },
+    ])
+  })
+
+  it("keeps the given pots when nobody given could win one of the built pots", () => {
+    // Short can't win the side pot, and the cards don't say who did
+    const unknownCards: Hand = {
+      ...threeWayAllIn,
+      seats: threeWayAllIn.seats.map((player) => ({ ...player, holeCards: [] })),
+      pots: [{ amount: 252, winners: [{ player: "Short", amount: 252 }] }],
+    }
+
+    expect(settlePots(unknownCards)).toEqual(unknownCards.pots)
+  })
+
+  it("gives an uncontested pot to the last player in", () => {
+    expect(settlePots(handFixture as Hand)).toEqual([{ amount: 29, winners: [{ player: "Hero", amount: 29 }] }])
+  })
+})
@@ -0,0 +1,207 @@
+// This file builds the main and side pots from what everyone put in, and awards them at showdown
+
+import {
+  VARIANT_RULES,
+  allBoards,
+  boardThrough,
+  roundChips,
+  type Board,
+  type Hand,
+  type Pot,
+  type PotWinner,
+} from "@/lib/hand"
+import { cardIndex, scoreHolding } from "@/lib/hand-evaluator"
+
+export interface SidePot {
+  // Chips in this pot before rake
+  amount: number
+  // Players still in the hand who put in enough to win it
+  eligible: string[]
+}
+
+// A bet or raise nobody matched, which goes back to the player who made it instead of into the pot
+export interface UncalledBet {
+  player: string
+  amount: number
+}
+
+// What each player put in over the whole hand, before anything uncalled is given back
+function committed(hand: Hand): Map<string, number> {
+  const contributed = new Map<string, number>()
+  const add = (player: string, chips: number) => contributed.set(player, roundChips((contributed.get(player) ?? 0) + chips))
+
+  let street = ""
+  let streetBets = new Map<string, number>()
+  for (const action of hand.actions) {
+    if (action.street !== street) {
+      street = action.street
+      streetBets = new Map()
+    }
+
+    const current = streetBets.get(action.player) ?? 0
+    if (action.type === "raise") {
+      add(action.player, Math.max(0, action.amount - current))
+      streetBets.set(action.player, action.amount)
+    } else if (action.type === "post-ante") {
+      add(action.player, action.amount)
+    } else if (action.type !== "fold" && action.type !== "check") {
+      add(action.player, action.amount)
+      streetBets.set(action.player, roundChips(current + action.amount))
+    }
+  }
+
+  return contributed
+}
+
+// The part of the biggest contribution nobody else matched, if any
+function findUncalled(contributed: Map<string, number>): UncalledBet | null {
+  const sorted = [...contributed.entries()].sort((a, b) => b[1] - a[1])
+  if (sorted.length < 2) return null
+
+  const [[player, top], [, second]] = sorted
+  const amount = roundChips(top - second)
+  return amount > 0 ? { player, amount } : null
+}
+
+/**
+ * Finds the part of the biggest bet nobody called, which is returned to the player who made it
+ */
+export function uncalledBet(hand: Hand): UncalledBet | null {
+  return findUncalled(committed(hand))
+}
+
+/**
+ * Works out what each player put in over the whole hand, with any uncalled part of the biggest bet given back
+ */
+export function contributions(hand: Hand): Map<string, number> {
+  const contributed = committed(hand)
+  const uncalled = findUncalled(contributed)
+  if (uncalled) {
+    contributed.set(uncalled.player, roundChips((contributed.get(uncalled.player) ?? 0) - uncalled.amount))
+  }
+  return contributed
+}
+
+/**
+ * Splits the chips put in into a main pot and side pots, one for each all-in amount.
+ * Chips from players who folded go into the pots they reached, but they can't win any of them.
+ * @returns The main pot first, then each side pot, before rake
+ */
+export function buildPots(hand: Hand): SidePot[] {
+  const contributed = contributions(hand)
+  const folded = new Set(hand.actions.filter((action) => action.type === "fold").map((action) => action.player))
+  const live = [...contributed.entries()].filter(([player]) => !folded.has(player))
+  const levels = [...new Set(live.map(([, amount]) => amount))].filter((amount) => amount > 0).sort((a, b) => a - b)
+
+  const pots: SidePot[] = []
+  let previous = 0
+  for (const level of levels) {
+    let amount = 0
+    for (const chips of contributed.values()) {
+      amount += Math.min(chips, level) - Math.min(chips, previous)
+    }
+    const eligible = live.filter(([, chips]) => chips >= level).map(([player]) => player)
+    pots.push({ amount: roundChips(amount), eligible })
+    previous = level
+  }
+
+  // Anything a folded player put in beyond every live player's total is dead money for the last pot
+  const dead = [...contributed.values()].reduce((sum, chips) => sum + Math.max(0, chips - previous), 0)
+  if (dead > 0 && pots.length > 0) {
+    pots[pots.length - 1].amount = roundChips(pots[pots.length - 1].amount + dead)
+  }
+
+  return pots
+}
+
+// Takes the rake out of each pot in proportion to its size, any rounding left over comes out of the main pot
+function takeRake(pots: SidePot[], rake: number): number[] {
+  const total = pots.reduce((sum, pot) => sum + pot.amount, 0)
+  if (total <= 0) return pots.map(() => 0)
+
+  const taken = Math.min(rake, total)
+  const afterRake = pots.map((pot) => roundChips(pot.amount - (taken * pot.amount) / total))
+  const leftover = roundChips(total - taken - afterRake.reduce((sum, amount) => sum + amount, 0))
+  afterRake[0] = roundChips(afterRake[0] + leftover)
+  return afterRake
+}
+
+// The eligible players with the best hand on a board, or null when a hand can't be compared yet
+function showdownWinners(hand: Hand, eligible: string[], runout: Board): string[] | null {
+  if (eligible.length === 1) return eligible
+
+  const board = boardThrough(runout, "river")
+  const seats = eligible.map((player) => hand.seats.find((seat) => seat.player === player))
+  const holeCardCount = VARIANT_RULES[hand.game.variant].holeCards
+  if (board.length !== 5 || seats.some((seat) => !seat || seat.holeCards.length !== holeCardCount)) return null
+
+  const boardCards = board.map(cardIndex)
+  const scores = seats.map((seat) => scoreHolding(seat!.holeCards.map(cardIndex), boardCards, hand.game.variant))
+  const best = Math.max(...scores)
+  return eligible.filter((_, index) => scores[index] === best)
+}
+
+// The hand's own pot standing for a built one: of those only its eligible players won, the closest in size. The
+// pots given with the hand may be split differently from the built ones, so their order can't be relied on.
+function givenPot(hand: Hand, pot: SidePot): Pot | undefined {
+  return hand.pots
+    .filter((given) => given.winners.length > 0 && given.winners.every((winner) => pot.eligible.includes(winner.player)))
+    .sort((a, b) => Math.abs(a.amount - pot.amount) - Math.abs(b.amount - pot.amount))[0]
+}
+
+// Shares chips between winners already in order, odd chips going to the first ones
+function shareChips(units: number, winners: string[], unit: number): PotWinner[] {
+  const share = winners.length > 0 ? Math.floor(units / winners.length) : 0
+  const oddChips = units - share * winners.length
+  return winners.map((player, position) => ({
+    player,
+    amount: roundChips((share + (position < oddChips ? 1 : 0)) * unit),
+  }))
+}
+
+/**
+ * Builds the pots with their winners from the actions and cards, instead of trusting amounts worked out elsewhere.
+ * A split pot is shared equally, with any odd chip going to the first winner left of the button.
+ * A hand run more than once splits each pot equally between the boards, any odd chip going to the first board.
+ * When the cards don't decide a pot, e.g. hole cards weren't mentioned, the winners given in the hand are kept.
+ * When neither decides one, the hand's pots are returned as they are.
+ * @returns Pots in the shape of the hand's pots, main pot first
+ */
+export function settlePots(hand: Hand): Pot[] {
+  const pots = buildPots(hand)
+  const afterRake = takeRake(pots, hand.rake)
+
+  // Cash games split down to the cent, tournaments down to a chip
+  const unit = hand.game.type === "cash" ? 0.01 : 1
+
+  // Clockwise from the player left of the button, the order odd chips are handed out in
+  const sorted = [...hand.seats].sort((a, b) => a.seat - b.seat)
+  const afterButton = sorted.findIndex((seat) => seat.seat > hand.buttonSeat)
+  const order = (afterButton === -1 ? sorted : [...sorted.slice(afterButton), ...sorted.slice(0, afterButton)]).map(
+    (seat) => seat.player,
+  )
+
+  const boards = allBoards(hand)
+
+  const settled = pots.map((pot, index) => {
+    const units = Math.round(afterRake[index] / unit)
+    const boardUnits = Math.floor(units / boards.length)
+    const given = givenPot(hand, pot)
+
+    const winners = boards.flatMap((board, boardIndex): PotWinner[] => {
+      const givenWinners = (given?.winners ?? [])
+        .filter((winner) => boards.length === 1 || (winner.board ?? 1) === boardIndex + 1)
+        .map((winner) => winner.player)
+      const boardWinners = (showdownWinners(hand, pot.eligible, board) ?? givenWinners).sort((a, b) => order.indexOf(a) - order.indexOf(b))
+
+      const share = boardUnits + (boardIndex < units - boardUnits * boards.length ? 1 : 0)
+      const won = shareChips(share, boardWinners, unit)
+      return boards.length > 1 ? won.map((winner) => ({ ...winner, board: boardIndex + 1 })) : won
+    })
+
+    return { amount: afterRake[index], winners }
+  })
+
+  // A pot nobody can be found to win would lose its chips, so the hand's own pots are kept for the validator to check
+  return settled.some((pot) => pot.winners.length === 0) ? hand.pots : settled
+}
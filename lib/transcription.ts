@@ -1,49 +1,164 @@
 // This file handles the audio transcription and formatting logic
 
+import type { Hand } from "@/lib/hand"
+import type { HandIssue, ValidationStakes } from "@/lib/hand-validator"
+import type { AllInEquity } from "@/lib/equity"
+import type { ProviderSettings, Transcript, TranscriptSegment } from "@/lib/ai-provider"
+import type { HandBoundary } from "@/lib/hand-segmentation"
+import { splitAudio, stitchTranscripts, type ChunkRange } from "@/lib/audio-chunks"
+import { TRANSCRIPTION_UPLOAD_LIMIT_BYTES } from "@/lib/audio-files"
+
+export interface FormattedHand {
+  hand: Hand
+  text: string
+  // Number of formatting attempts it took, more than one means the hand was auto-corrected
+  attempts: number
+  // Problems that were still left after the last attempt
+  issues: HandIssue[]
+  // Everyone's equity when an all-in was called, null when there wasn't one or the cards aren't known
+  equity: AllInEquity | null
+}
+
+// A saved player the formatter should use the exact name of when they appear in a hand
+export interface KnownPlayer {
+  name: string
+  aliases: string[]
+  notes?: string
+  tendencies?: string[]
+}
+
+export interface TranscribeOptions {
+  // Name to upload the audio under, its extension tells the server the format
+  fileName?: string
+  // Custom words and player names the speech model should spell right
+  vocabulary?: string[]
+  // Called after each chunk of a split recording is transcribed
+  onProgress?: (completed: number, total: number) => void
+}
+
+export interface FormatOptions {
+  stakes?: ValidationStakes
+  maxAttempts?: number
+  knownPlayers?: KnownPlayer[]
+}
+
+// Sends one piece of audio to the transcribe route
+async function transcribeUpload(
+  audioBlob: Blob,
+  provider: ProviderSettings,
+  fileName: string,
+  offset: number,
+  vocabulary: string[],
+): Promise<Transcript> {
+  // Create form data to send to the API
+  const formData = new FormData()
+  formData.append("file", audioBlob, fileName)
+  formData.append("provider", JSON.stringify(provider))
+  formData.append("offset", String(offset))
+  if (vocabulary.length > 0) {
+    formData.append("vocabulary", JSON.stringify(vocabulary))
+  }
+
+  // Call the server action to handle the API request
+  const response = await fetch("/api/transcribe", {
+    method: "POST",
+    body: formData,
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(`Transcription failed: ${errorData.error || response.statusText}`)
+  }
+
+  const data = await response.json()
+  return { text: data.text, segments: data.segments ?? [] }
+}
+
 /**
- * Transcribes audio using OpenAI's Whisper API
+ * Transcribes audio with the selected AI provider's speech-to-text model. Recordings too big for a single
+ * upload are split at pauses, transcribed one chunk at a time and stitched back together.
+ * @param options The file name to upload under, words the speech model should know and a chunk progress callback
+ * @returns The text, with timestamped segments measured from the start of the recording
  */
-export async function transcribeAudio(audioBlob: Blob, apiKey: string): Promise<string> {
+export async function transcribeAudio(
+  audioBlob: Blob,
+  provider: ProviderSettings,
+  options: TranscribeOptions = {},
+): Promise<Transcript> {
+  const { fileName = "recording.webm", vocabulary = [], onProgress } = options
   try {
-    // Create form data to send to the API
-    const formData = new FormData()
-    formData.append("file", audioBlob, "recording.webm")
-    formData.append("model", "whisper-1")
-    formData.append("apiKey", apiKey)
-
-    // Call the server action to handle the API request
-    const response = await fetch("/api/transcribe", {
+    if (audioBlob.size <= TRANSCRIPTION_UPLOAD_LIMIT_BYTES) {
+      return await transcribeUpload(audioBlob, provider, fileName, 0, vocabulary)
+    }
+
+    const chunks = await splitAudio(audioBlob)
+    const parts: { range: ChunkRange; transcript: Transcript }[] = []
+    for (let index = 0; index < chunks.length; index++) {
+      const chunk = chunks[index]
+      const transcript = await transcribeUpload(chunk.blob, provider, `chunk-${index + 1}.wav`, chunk.offset, vocabulary)
+      parts.push({ range: chunk, transcript })
+      onProgress?.(index + 1, chunks.length)
+    }
+    return stitchTranscripts(parts)
+  } catch (error) {
+    console.error("Error transcribing audio:", error)
+    throw error
+  }
+}
+
+/**
+ * Finds where each hand starts in the transcript of a recording that covers several hands
+ * @param segments The timestamped transcript of the whole recording
+ * @returns The first segment of each hand, with a short summary when the AI provider found it
+ */
+export async function segmentHands(segments: TranscriptSegment[], provider: ProviderSettings): Promise<HandBoundary[]> {
+  try {
+    const response = await fetch("/api/segment-hands", {
       method: "POST",
-      body: formData,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ segments, provider }),
     })
 
     if (!response.ok) {
       const errorData = await response.json()
-      throw new Error(`Transcription failed: ${errorData.error || response.statusText}`)
+      throw new Error(`Splitting hands failed: ${errorData.error || response.statusText}`)
     }
 
     const data = await response.json()
-    return data.text
+    return data.hands
   } catch (error) {
-    console.error("Error transcribing audio:", error)
+    console.error("Error splitting hands:", error)
     throw error
   }
 }
 
 /**
- * Formats transcribed text into standard poker hand history format using OpenAI
+ * Formats transcribed text into standard poker hand history format using the selected AI provider
  * @param transcription The raw transcription text, optionally with game settings context
- * @param apiKey OpenAI API key
- * @returns Formatted hand history
+ * @param provider Which AI provider to use, with its API key or local server addresses
+ * @param options Stakes to check the hand against, how many attempts the server may make and known player names
+ * @returns The structured hand, its hand history text and the outcome of the consistency checks
  */
-export async function formatHandHistory(transcription: string, apiKey: string): Promise<string> {
+export async function formatHandHistory(
+  transcription: string,
+  provider: ProviderSettings,
+  options: FormatOptions = {},
+): Promise<FormattedHand> {
   try {
     const response = await fetch("/api/format-hand", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ transcription, apiKey }),
+      body: JSON.stringify({
+        transcription,
+        provider,
+        stakes: options.stakes,
+        maxAttempts: options.maxAttempts,
+        knownPlayers: options.knownPlayers,
+      }),
     })
 
     if (!response.ok) {
@@ -52,7 +167,13 @@ export async function formatHandHistory(transcription: string, apiKey: string):
     }
 
     const data = await response.json()
-    return data.formattedHand
+    return {
+      hand: data.hand,
+      text: data.formattedHand,
+      attempts: data.attempts,
+      issues: data.issues,
+      equity: data.equity ?? null,
+    }
   } catch (error) {
     console.error("Error formatting hand history:", error)
     throw error
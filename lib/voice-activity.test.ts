@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { findSpeechBounds } from "./voice-activity"
+
+const SAMPLE_RATE = 1000
+
+// Silence with a burst of noise between the given times, in seconds
+function recording(seconds: number, speech?: [number, number]) {
+  const samples = new Float32Array(seconds * SAMPLE_RATE)
+  if (speech) {
+    for (let i = speech[0] * SAMPLE_RATE; i < speech[1] * SAMPLE_RATE; i++) samples[i] = i % 2 === 0 ? 0.3 : -0.3
+  }
+  return samples
+}
+
+describe("findSpeechBounds", () => {
+  it("finds where speech starts and ends", () => {
+    expect(findSpeechBounds(recording(10, [2, 7]), SAMPLE_RATE)).toEqual({ start: 2, end: 7 })
+  })
+
+  it("returns null for a silent recording", () => {
+    expect(findSpeechBounds(recording(5), SAMPLE_RATE)).toBeNull()
+  })
+
+  it("ignores background hiss", () => {
+    const samples = recording(5, [1, 2]).map((sample) => sample + 0.001)
+
+    expect(findSpeechBounds(samples, SAMPLE_RATE)).toEqual({ start: 1, end: 2 })
+  })
+})
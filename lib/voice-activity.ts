@@ -0,0 +1,64 @@
+// This file tells speech from silence, to trim recordings and stop or split them when the speaker goes quiet
+
+import { CHUNK_SAMPLE_RATE, decodeMono, encodeWav } from "@/lib/audio-chunks"
+
+// The live meter level, from 0 to about 1, above which the microphone is taken to be hearing speech
+export const SPEECH_LEVEL = 0.1
+
+// Sample loudness (root mean square) above which a stretch of a recording counts as speech, about -40 dBFS
+const SPEECH_RMS = 0.01
+const FRAME_SECONDS = 0.05
+// Silence kept either side of the speech so the first and last words aren't clipped
+const TRIM_PADDING_SECONDS = 0.3
+// Not worth re-encoding a recording to save less than this
+const MIN_TRIM_SECONDS = 1
+
+/**
+ * Finds where speech starts and ends in a recording
+ * @returns The first and last moment of speech in seconds, or null if it's all silence
+ */
+export function findSpeechBounds(samples: Float32Array, sampleRate: number): { start: number; end: number } | null {
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate))
+  let first = -1
+  let last = -1
+
+  for (let from = 0; from < samples.length; from += frameLength) {
+    const to = Math.min(from + frameLength, samples.length)
+    let sum = 0
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i]
+    if (Math.sqrt(sum / (to - from)) >= SPEECH_RMS) {
+      if (first === -1) first = from
+      last = to
+    }
+  }
+
+  return first === -1 ? null : { start: first / sampleRate, end: last / sampleRate }
+}
+
+/**
+ * Cuts the silence off both ends of a recording so it isn't paid for. Only works in the browser.
+ * @returns A WAV file of just the speech, the original recording if there was little to trim or it can't be decoded,
+ * or null if it's all silence
+ */
+export async function trimSilence(blob: Blob): Promise<Blob | null> {
+  let samples: Float32Array
+  try {
+    samples = await decodeMono(blob)
+  } catch (error) {
+    console.error("Error decoding audio to trim silence:", error)
+    return blob
+  }
+
+  const bounds = findSpeechBounds(samples, CHUNK_SAMPLE_RATE)
+  if (!bounds) return null
+
+  const duration = samples.length / CHUNK_SAMPLE_RATE
+  const start = Math.max(0, bounds.start - TRIM_PADDING_SECONDS)
+  const end = Math.min(duration, bounds.end + TRIM_PADDING_SECONDS)
+  if (duration - (end - start) < MIN_TRIM_SECONDS) return blob
+
+  return encodeWav(
+    samples.subarray(Math.floor(start * CHUNK_SAMPLE_RATE), Math.ceil(end * CHUNK_SAMPLE_RATE)),
+    CHUNK_SAMPLE_RATE,
+  )
+}
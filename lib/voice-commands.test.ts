@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { normalizeTag, parseVoiceCommand } from "./voice-commands"
+
+describe("parseVoiceCommand", () => {
+  it("recognises each command", () => {
+    expect(parseVoiceCommand("New hand")).toEqual({ type: "new-hand" })
+    expect(parseVoiceCommand("okay, next hand.")).toEqual({ type: "new-hand" })
+    expect(parseVoiceCommand("Scratch that")).toEqual({ type: "scratch" })
+    expect(parseVoiceCommand("pause")).toEqual({ type: "pause" })
+    expect(parseVoiceCommand("Resume recording")).toEqual({ type: "resume" })
+  })
+
+  it("reads the tag from a tag command", () => {
+    expect(parseVoiceCommand("Tag this as bluff")).toEqual({ type: "tag", tag: "bluff" })
+    expect(parseVoiceCommand("tag this hand as a hero call")).toEqual({ type: "tag", tag: "hero-call" })
+    expect(parseVoiceCommand("tag cooler")).toEqual({ type: "tag", tag: "cooler" })
+  })
+
+  it("ignores commands mentioned in the middle of describing a hand", () => {
+    expect(parseVoiceCommand("I fold and we move to the next hand")).toBeNull()
+    expect(parseVoiceCommand("he paused for a long time then called")).toBeNull()
+  })
+})
+
+describe("normalizeTag", () => {
+  it("lowercases and hyphenates", () => {
+    expect(normalizeTag("  Hero Call! ")).toBe("hero-call")
+  })
+})
@@ -0,0 +1,53 @@
+// This file recognises the spoken commands that control continuous recording hands-free
+
+export type VoiceCommand =
+  | { type: "new-hand" }
+  | { type: "scratch" }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "tag"; tag: string }
+
+// Phrases for each command. Matching is on the whole utterance so a phrase mentioned mid-sentence doesn't trigger it.
+const COMMAND_PATTERNS: { pattern: RegExp; command: (match: RegExpMatchArray) => VoiceCommand | null }[] = [
+  { pattern: /^(new|next) hand$/, command: () => ({ type: "new-hand" }) },
+  { pattern: /^(scratch|cancel|delete) (that|this)( hand)?$/, command: () => ({ type: "scratch" }) },
+  { pattern: /^pause( recording)?$/, command: () => ({ type: "pause" }) },
+  { pattern: /^(resume|continue|unpause)( recording)?$/, command: () => ({ type: "resume" }) },
+  {
+    pattern: /^tag (?:(?:this|that|it) )?(?:hand )?(?:as |with )?(?:an? )?(.+)$/,
+    command: (match) => {
+      const tag = normalizeTag(match[1])
+      return tag ? { type: "tag", tag } : null
+    },
+  },
+]
+
+/**
+ * Turns a spoken tag into the form it's stored in, e.g. "Hero Call" becomes "hero-call"
+ */
+export function normalizeTag(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+}
+
+/**
+ * Reads a command from what the speech recogniser heard, ignoring case, punctuation and a leading "okay" or "hey"
+ * @returns The command, or null when the words aren't one
+ */
+export function parseVoiceCommand(utterance: string): VoiceCommand | null {
+  const words = utterance
+    .toLowerCase()
+    .replace(/[^a-z0-9\s'-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(okay|ok|hey|alright|all right) /, "")
+
+  for (const { pattern, command } of COMMAND_PATTERNS) {
+    const match = words.match(pattern)
+    if (match) return command(match)
+  }
+  return null
+}